@@ -1,11 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Input } from './ui/input';
-import { ArrowLeft, Send, User, Heart, AlertTriangle, Phone, Mic, MicOff, Video, VideoOff } from 'lucide-react';
-import type { Screen, UserData } from '../types';
+import { ArrowLeft, Send, Square, User, Heart, AlertTriangle, Phone, Mic, MicOff, Video, VideoOff, ThumbsUp, ThumbsDown, NotebookPen, CalendarPlus } from 'lucide-react';
+import type { Screen, UserData, RiskLevel } from '../types';
 import { geminiAI, type ConversationContext, type AIResponse } from '../services/geminiAI';
-import { assessCrisisLevel, shouldShowCrisisResources } from '../utils/crisisDetection';
+import { riskAssessmentService } from '../services/riskAssessment';
+import { shouldShowCrisisResources } from '../utils/crisisDetection';
+import { safetyPlanService, type SafetyPlan } from '../services/safetyPlan';
+import { rankHelplines, type RankedHelpline } from '../utils/helplines';
+import { TrustedContactAlertDialog } from './TrustedContactAlertDialog';
+import { safetyAuditLog } from '../services/safetyAuditLog';
+import { crisisEscalation } from '../services/crisisEscalation';
+import { conversationMemory, type MemoryTurn } from '../services/conversationMemory';
+import { interventionFeedback, type BlendedEffectiveness } from '../services/interventionFeedback';
+import { INTERVENTION_CATALOGUE, inferIntervention, scoreInterventions, type InterventionType } from '../utils/interventionCatalogue';
+import { detectDistortions, prefillThoughtRecord, type ThoughtRecordDraft } from '../utils/thoughtRecord';
+import { activityPlanner } from '../services/activityPlanner';
+import { activityLabel, suggestActivities, type Activity } from '../utils/behavioralActivation';
+import type { UserProfile } from '../services/firebaseService';
+import type { PrivacyContext } from '../utils/piiRedaction';
 
 interface VoiceAnalysis {
   transcript: string;
@@ -52,6 +66,15 @@ interface EmotionAnalysis {
 interface AICompanionProps {
   navigateTo?: (screen: Screen) => void;
   userData?: UserData;
+  userId?: string;
+  location?: UserProfile['demographics']['location'];
+  onOpenSafetyPlan?: () => void;
+  userName?: string;
+  onManageContacts?: () => void;
+  // Opens the thought record tool, prefilled from the conversation
+  onOpenThoughtRecord?: (draft: ThoughtRecordDraft) => void;
+  onOpenActivityPlanner?: () => void;
+  privacy?: Pick<UserProfile['privacy'], 'redactPersonalInfo'>;
 }
 
 interface Message {
@@ -63,9 +86,31 @@ interface Message {
   aiResponse?: AIResponse;
   voiceAnalysis?: VoiceAnalysis;
   emotionAnalysis?: EmotionAnalysis;
+  // True while the reply is still being written
+  streaming?: boolean;
+  // Replies to the user can be rated; the rating counts towards the intervention and technique the reply was asked to use
+  intervention?: InterventionType;
+  technique?: string;
+  feedback?: 'helpful' | 'not_helpful';
+  // Offered when the reply works on a thought or the user's message shows a thinking trap
+  thoughtRecord?: ThoughtRecordDraft;
+  // Offered with behavioral activation; ids of the ones the user scheduled from this message
+  activities?: Activity[];
+  scheduledActivityIds?: string[];
 }
 
-export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
+export function AICompanion({
+  navigateTo,
+  userData,
+  userId,
+  location,
+  onOpenSafetyPlan,
+  userName,
+  onManageContacts,
+  onOpenThoughtRecord,
+  onOpenActivityPlanner,
+  privacy
+}: AICompanionProps = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -74,14 +119,48 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
   const [isVideoMode, setIsVideoMode] = useState(false);
   const [currentEmotion, setCurrentEmotion] = useState<EmotionAnalysis | null>(null);
   const [conversationHistory, setConversationHistory] = useState<string[]>([]);
+  const [safetyPlan, setSafetyPlan] = useState<SafetyPlan | null>(null);
+  const [crisisHelplines, setCrisisHelplines] = useState<RankedHelpline[]>([]);
+  const [crisisLevel, setCrisisLevel] = useState<RiskLevel>('none');
+  const [showContactAlert, setShowContactAlert] = useState(false);
+  const [crisisDecisionId, setCrisisDecisionId] = useState<string | undefined>();
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamController = useRef<AbortController | null>(null);
+  // Turns since the screen opened, folded into long-term memory when the user leaves
+  const memorySessionId = useRef(`companion_${Date.now()}`);
+  const memoryTurns = useRef<MemoryTurn[]>([]);
+  const memoryPrivacy = useRef<PrivacyContext | undefined>();
+
+  // Leaving the screen cancels a reply that is still streaming and summarises the conversation
+  useEffect(() => () => {
+    streamController.current?.abort();
+    if (userId && memoryTurns.current.length > 0) {
+      conversationMemory
+        .summarizeTurns(userId, memorySessionId.current, memoryTurns.current, memoryPrivacy.current)
+        .catch(error => console.error('Error summarising the conversation:', error));
+    }
+  }, []);
 
-  // Crisis helplines for India
-  const crisisHelplines = [
-    { name: 'Vandrevala Foundation', number: '9999 666 555', available: '24/7' },
-    { name: 'AASRA', number: '91-22-27546669', available: '24/7' },
-    { name: 'Sneha Foundation', number: '044-24640050', available: '24/7' },
-    { name: 'iCall', number: '9152987821', available: 'Mon-Sat, 8AM-10PM' }
-  ];
+  // Load the user's own safety plan and re-rank helplines for the current time whenever the crisis banner is shown
+  useEffect(() => {
+    if (!showCrisisSupport) return;
+
+    setCrisisHelplines(rankHelplines({
+      state: location?.state,
+      language: userData?.preferences?.preferredLanguage
+    }));
+    if (userId) {
+      safetyPlanService.getOrCreatePlan(userId)
+        .then(setSafetyPlan)
+        .catch(error => console.error('Error loading safety plan:', error));
+    }
+  }, [showCrisisSupport, userId, location?.state, userData?.preferences?.preferredLanguage]);
+
+  // What the user does with the crisis banner goes into the safety audit log next to the decision that showed it
+  const recordCrisisAction = (action: string) => {
+    safetyAuditLog.recordUserAction(action, { source: 'companion', userId, decisionId: crisisDecisionId })
+      .catch(error => console.error('Error recording crisis action:', error));
+  };
 
   // Removed buildMentalHealthContext - now using simpler context directly in functions
 
@@ -225,10 +304,47 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
     }
   };
 
-  // Generate AI response using real Gemini AI
-  const generateAIResponse = async (userMessage: string, voiceAnalysis?: VoiceAnalysis): Promise<AIResponse> => {
+  // Picked the way the session orchestrator picks it, so ratings here measure the same interventions;
+  // the companion has no phases, so every intervention is allowed
+  const selectIntervention = async (message: string, riskLevel: RiskLevel): Promise<ConversationContext['intervention']> => {
+    const effectiveness: BlendedEffectiveness = userId
+      ? await interventionFeedback.getBlendedEffectiveness(userId).catch(error => {
+          console.error('Intervention feedback error:', error);
+          return { interventions: {}, techniques: {} };
+        })
+      : { interventions: {}, techniques: {} };
+    const { chosen } = scoreInterventions({
+      message,
+      primaryEmotion: currentEmotion?.primary_emotion || 'neutral',
+      emotionIntensity: currentEmotion ? Math.max(...(Object.values(currentEmotion.emotions) as number[])) : 0,
+      therapeuticNeeds: [],
+      culturalThemes: [],
+      cognitivePatterns: detectDistortions(message),
+      riskLevel,
+      allowed: INTERVENTION_CATALOGUE.map(strategy => strategy.type),
+      helpedBefore: [],
+      effectiveness: effectiveness.interventions
+    });
+    const techniques = INTERVENTION_CATALOGUE.find(strategy => strategy.type === chosen.type)?.techniques || [];
+
+    return { type: chosen.type, technique: interventionFeedback.preferredTechnique(techniques, effectiveness) };
+  };
+
+  // Names we already know are always redacted, even when the message does not introduce them
+  const getPrivacyContext = (): PrivacyContext => ({
+    redactPersonalInfo: privacy?.redactPersonalInfo ?? true,
+    knownNames: [userName, ...(safetyPlan?.trustedContacts.map(contact => contact.name) || [])].filter(Boolean)
+  });
+
+  // Generate AI response using real Gemini AI, streamed so the first sentence shows up as soon as it is cleared
+  const generateAIResponse = async (
+    userMessage: string,
+    voiceAnalysis?: VoiceAnalysis,
+    onPartial?: (partial: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIResponse> => {
     try {
-      const crisisAssessment = assessCrisisLevel(userMessage);
+      const crisisAssessment = riskAssessmentService.assess(userMessage);
 
       // Validate and cast language preference
       const userLanguage = userData.preferences?.preferredLanguage;
@@ -247,8 +363,14 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
           comfortEnvironment: userData.preferences?.comfortEnvironment || 'peaceful',
           avatarStyle: userData.preferences?.avatarStyle || 'supportive'
         },
-        crisisLevel: crisisAssessment.level
+        crisisLevel: crisisAssessment.level,
+        intervention: await selectIntervention(userMessage, crisisAssessment.level),
+        privacy: getPrivacyContext(),
+        memory: userId
+          ? (await conversationMemory.recall(userId, userMessage, { sessionId: memorySessionId.current })).text
+          : undefined
       };
+      memoryPrivacy.current = context.privacy;
 
       // Include voice analysis if available
       if (voiceAnalysis) {
@@ -256,7 +378,7 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
       }
 
       console.log('🤖 Sending request to Gemini AI...', { userMessage, context });
-      const response = await geminiAI.generateEmpathicResponse(userMessage, context);
+      const response = await geminiAI.streamEmpathicResponse(userMessage, context, { onMessage: onPartial, signal });
       console.log('✅ Received AI response:', response);
 
       return response;
@@ -324,7 +446,8 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
             comfortEnvironment: userData.preferences?.comfortEnvironment || 'peaceful',
             avatarStyle: userData.preferences?.avatarStyle || 'supportive'
           },
-          crisisLevel: 'none'
+          crisisLevel: 'none',
+          privacy: getPrivacyContext()
         };
 
         console.log('🚀 Initializing AI companion with context:', context);
@@ -374,10 +497,10 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
 
   const handleSendMessage = async (voiceAnalysis?: VoiceAnalysis) => {
     const messageText = inputValue.trim();
-    if (!messageText) return;
+    if (!messageText || streamController.current) return;
 
     // Crisis detection
-    const crisisAssessment = assessCrisisLevel(messageText);
+    const crisisAssessment = riskAssessmentService.assess(messageText);
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -396,23 +519,71 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
     setIsTyping(true);
 
     // Show crisis support if needed
-    if (shouldShowCrisisResources(crisisAssessment)) {
+    const showCrisis = shouldShowCrisisResources(crisisAssessment);
+    if (showCrisis) {
+      setCrisisLevel(crisisAssessment.level);
       setShowCrisisSupport(true);
     }
 
+    // Audits the decision and, at high and severe, schedules the check-ins FollowUpCheckIn shows later
+    crisisEscalation
+      .handleMessageRisk(crisisAssessment, messageText, {
+        userId,
+        sessionId: memorySessionId.current,
+        uiShown: showCrisis ? ['crisis_banner', 'helplines'] : []
+      })
+      .then(outcome => {
+        if (showCrisis) setCrisisDecisionId(outcome.decisionId);
+      })
+      .catch(error => console.error('Error handling crisis decision:', error));
+
+    if (userId) {
+      conversationMemory.rememberFromMessage(userId, memorySessionId.current, messageText, crisisAssessment.level);
+    }
+
+    const aiMessageId = (Date.now() + 1).toString();
+    // Adds the reply bubble on the first streamed sentence and updates it in place after that
+    const upsertAIMessage = (update: Partial<Message>) => {
+      setMessages(prev => prev.some(message => message.id === aiMessageId)
+        ? prev.map(message => message.id === aiMessageId ? { ...message, ...update } : message)
+        : [...prev, { id: aiMessageId, content: '', sender: 'ai', timestamp: new Date(), ...update }]);
+    };
+
+    const controller = new AbortController();
+    streamController.current = controller;
+    setIsStreaming(true);
+
     try {
       // Generate AI response using Gemini
-      const aiResponse = await generateAIResponse(messageText, voiceAnalysis);
-
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      const aiResponse = await generateAIResponse(
+        messageText,
+        voiceAnalysis,
+        partial => {
+          setIsTyping(false);
+          upsertAIMessage({ content: partial, streaming: true });
+        },
+        controller.signal
+      );
+
+      // Offers follow what the reply did; fallback and boundary replies had no intervention asked of them, so guess from the text
+      const intervention = aiResponse.interventionType ||
+        inferIntervention([aiResponse.message, ...(aiResponse.suggestedActions || [])]);
+      // Thought work waits while crisis support is showing
+      const offerThoughtRecord = !showCrisis &&
+        (intervention === 'cognitive_restructuring' || detectDistortions(messageText).length > 0);
+      upsertAIMessage({
         content: aiResponse.message,
-        sender: 'ai',
-        timestamp: new Date(),
-        aiResponse
-      };
-
-      setMessages(prev => [...prev, aiMessage]);
+        aiResponse,
+        streaming: false,
+        // Only a reply that was asked for an intervention can be rated
+        intervention: aiResponse.interventionType,
+        technique: aiResponse.technique,
+        thoughtRecord: offerThoughtRecord ? prefillThoughtRecord([...conversationHistory, messageText]) : undefined,
+        activities: !showCrisis && intervention === 'behavioral_activation'
+          ? suggestActivities({ messages: [...conversationHistory, messageText], interests: userData?.preferences?.interests })
+          : undefined
+      });
+      memoryTurns.current.push({ role: 'user', content: messageText }, { role: 'assistant', content: aiResponse.message });
 
       // Voice response could be added here with Web Speech API
       // if (isVoiceMode) {
@@ -425,15 +596,58 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
       console.error('Error generating AI response:', error);
 
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         content: "मुझे खुशी होगी अगर आप फिर से कोशिश करें। / I'd be happy if you try again.",
         sender: 'ai',
         timestamp: new Date()
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(message => message.id !== aiMessageId), errorMessage]);
     } finally {
       setIsTyping(false);
+      setIsStreaming(false);
+      streamController.current = null;
+    }
+  };
+
+  const handleStopStreaming = () => {
+    streamController.current?.abort();
+  };
+
+  // Suggestions from chat go in for tomorrow evening; the planner is where they can be moved
+  const handleScheduleActivity = async (message: Message, activity: Activity) => {
+    if (!userId) return;
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(18, 0, 0, 0);
+    try {
+      await activityPlanner.scheduleActivity(
+        userId,
+        { activityId: activity.id, name: activity.name, kind: activity.kind },
+        tomorrow,
+        5,
+        { source: 'chat', sessionId: memorySessionId.current }
+      );
+      setMessages(prev => prev.map(item => item.id === message.id
+        ? { ...item, scheduledActivityIds: [...(item.scheduledActivityIds || []), activity.id] }
+        : item));
+    } catch (error) {
+      console.error('Error scheduling activity:', error);
+    }
+  };
+
+  const handleFeedback = (message: Message, helpful: boolean) => {
+    setMessages(prev => prev.map(item => item.id === message.id
+      ? { ...item, feedback: helpful ? 'helpful' : 'not_helpful' }
+      : item));
+    if (userId && message.intervention) {
+      interventionFeedback
+        .recordFeedback(
+          userId,
+          { interventionType: message.intervention, technique: message.technique, sessionId: memorySessionId.current },
+          { kind: 'thumbs', helpful }
+        )
+        .catch(error => console.error('Error saving feedback:', error));
     }
   };
 
@@ -481,18 +695,71 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
                   आप अकेले नहीं हैं। Professional help available है:
                 </p>
                 <div className="space-y-2">
-                  {crisisHelplines.slice(0, 2).map((helpline, index) => (
-                    <div key={index} className="flex items-center space-x-2 text-sm">
+                  {crisisHelplines.slice(0, 4).map((helpline, index) => (
+                    <div key={index} className={`flex items-center space-x-2 text-sm ${helpline.openNow ? '' : 'opacity-60'}`}>
                       <Phone className="w-4 h-4 text-red-600" />
                       <span className="font-medium">{helpline.name}:</span>
-                      <span className="text-red-800">{helpline.number}</span>
+                      <a
+                        href={`tel:${helpline.number.replace(/[\s-]/g, '')}`}
+                        onClick={() => recordCrisisAction(`called_helpline:${helpline.name}`)}
+                        className="text-red-800 underline"
+                      >
+                        {helpline.number}
+                      </a>
+                      <span className={`text-xs ${helpline.openNow ? 'text-green-700' : 'text-gray-500'}`}>
+                        {helpline.openNow ? 'अभी उपलब्ध / Open now' : `बंद / Closed (${helpline.availability})`}
+                      </span>
                     </div>
                   ))}
                 </div>
+                {safetyPlan && (safetyPlan.copingStrategies.length > 0 || safetyPlan.trustedContacts.length > 0) && (
+                  <div className="mt-3 text-sm text-red-800 space-y-1">
+                    <p className="font-medium">आपकी सुरक्षा योजना / From your safety plan:</p>
+                    {safetyPlan.copingStrategies.slice(0, 3).map((strategy, index) => (
+                      <p key={index}>• {strategy}</p>
+                    ))}
+                    {safetyPlan.trustedContacts.slice(0, 2).map((contact, index) => (
+                      <div key={index} className="flex items-center space-x-2">
+                        <Phone className="w-4 h-4 text-red-600" />
+                        <span className="font-medium">{contact.name}:</span>
+                        <a href={`tel:${contact.phone.replace(/\s/g, '')}`} className="underline">{contact.phone}</a>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {onOpenSafetyPlan && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      recordCrisisAction('opened_safety_plan');
+                      onOpenSafetyPlan();
+                    }}
+                    className="mt-3 mr-2 border-red-300 text-red-700 hover:bg-red-100"
+                  >
+                    मेरी सुरक्षा योजना / Open my safety plan
+                  </Button>
+                )}
+                {userId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      recordCrisisAction('opened_contact_alert');
+                      setShowContactAlert(true);
+                    }}
+                    className="mt-3 mr-2 border-red-300 text-red-700 hover:bg-red-100"
+                  >
+                    किसी अपने को बताएं / Alert a trusted contact
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setShowCrisisSupport(false)}
+                  onClick={() => {
+                    recordCrisisAction('dismissed_crisis_banner');
+                    setShowCrisisSupport(false);
+                  }}
                   className="mt-3 border-red-300 text-red-700 hover:bg-red-100"
                 >
                   समझ गया / Got it
@@ -526,7 +793,10 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
                     ? 'bg-primary text-primary-foreground'
                     : 'bg-card border-primary/20'
                     }`}>
-                    <p className="text-sm leading-relaxed">{message.content}</p>
+                    <p className="text-sm leading-relaxed">
+                      {message.content}
+                      {message.streaming && <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-primary/60 animate-pulse" />}
+                    </p>
                   </Card>
                   <p className={`text-xs text-muted-foreground mt-1 ${message.sender === 'user' ? 'text-right' : 'text-left'
                     }`}>
@@ -536,6 +806,60 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
                       hour12: false
                     })}
                   </p>
+                  {message.thoughtRecord && onOpenThoughtRecord && !message.streaming && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onOpenThoughtRecord(message.thoughtRecord!)}
+                      className="mt-2 border-primary/30"
+                    >
+                      <NotebookPen className="w-3 h-3 mr-1" />
+                      विचार रिकॉर्ड भरें / Work through this thought
+                    </Button>
+                  )}
+                  {message.activities && userId && !message.streaming && (
+                    <div className="mt-2 space-y-1">
+                      <p className="text-xs text-muted-foreground">कल के लिए योजना बनाएँ / Plan one for tomorrow:</p>
+                      <div className="flex flex-wrap gap-1">
+                        {message.activities.map(activity => {
+                          const scheduled = message.scheduledActivityIds?.includes(activity.id);
+                          return (
+                            <Button
+                              key={activity.id}
+                              variant="outline"
+                              size="sm"
+                              disabled={scheduled}
+                              onClick={() => handleScheduleActivity(message, activity)}
+                              className="border-primary/30 text-xs"
+                            >
+                              <CalendarPlus className="w-3 h-3 mr-1" />
+                              {scheduled ? `✓ ${activity.name}` : activityLabel(activity)}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                      {message.scheduledActivityIds?.length > 0 && onOpenActivityPlanner && (
+                        <Button variant="link" size="sm" className="h-6 px-0 text-xs" onClick={onOpenActivityPlanner}>
+                          योजना देखें / Open my planner
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {message.intervention && !message.streaming && (
+                    message.feedback ? (
+                      <p className="text-xs text-muted-foreground mt-1">धन्यवाद / Thanks for telling me</p>
+                    ) : (
+                      <div className="flex items-center space-x-1 mt-1 text-xs text-muted-foreground">
+                        <span>क्या इससे मदद मिली? / Did this help?</span>
+                        <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleFeedback(message, true)} title="Helpful">
+                          <ThumbsUp className="w-3 h-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleFeedback(message, false)} title="Not helpful">
+                          <ThumbsDown className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    )
+                  )}
                 </div>
               </div>
             </div>
@@ -614,14 +938,26 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
               {isVideoMode ? <VideoOff className="w-4 h-4" /> : <Video className="w-4 h-4" />}
             </Button>
 
-            <Button
-              onClick={() => handleSendMessage()}
-              disabled={!inputValue.trim() || isTyping || isVoiceMode}
-              className="bg-primary hover:bg-primary/90"
-              size="sm"
-            >
-              <Send className="w-4 h-4" />
-            </Button>
+            {isStreaming ? (
+              <Button
+                onClick={handleStopStreaming}
+                variant="outline"
+                className="border-primary/30 hover:bg-primary/5"
+                size="sm"
+                title="रोकें / Stop"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSendMessage()}
+                disabled={!inputValue.trim() || isTyping || isVoiceMode}
+                className="bg-primary hover:bg-primary/90"
+                size="sm"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
           </div>
 
           {/* Quick responses */}
@@ -643,6 +979,17 @@ export function AICompanion({ navigateTo, userData }: AICompanionProps = {}) {
           </div>
         </div>
       </div>
+
+      {userId && (
+        <TrustedContactAlertDialog
+          open={showContactAlert}
+          onOpenChange={setShowContactAlert}
+          userId={userId}
+          userName={userName || 'Your friend'}
+          riskLevel={crisisLevel}
+          onManageContacts={onManageContacts}
+        />
+      )}
     </div>
   );
 }
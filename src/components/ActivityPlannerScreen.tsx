@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Slider } from './ui/slider';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { ArrowLeft, CalendarCheck, ChevronLeft, ChevronRight, Check, Plus, Trash2 } from 'lucide-react';
+import { activityPlanner, type ScheduledActivity } from '../services/activityPlanner';
+import { sessionManager } from '../services/sessionManager';
+import {
+  ACTIVITY_LIBRARY,
+  activationSummary,
+  activityLabel,
+  startOfWeek,
+  suggestActivities,
+  weekDays,
+  type Activity
+} from '../utils/behavioralActivation';
+
+interface ActivityPlannerScreenProps {
+  userId: string;
+  // From UserPreferences['interests']; their activities are suggested first
+  interests?: string[];
+  onBack?: () => void;
+}
+
+const KIND_LABELS: Record<Activity['kind'], string> = {
+  pleasure: 'आनंद / Pleasure',
+  mastery: 'उपलब्धि / Mastery'
+};
+
+export function ActivityPlannerScreen({ userId, interests = [], onBack }: ActivityPlannerScreenProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [week, setWeek] = useState<ScheduledActivity[]>([]);
+  const [selected, setSelected] = useState<Activity | null>(null);
+  const [customName, setCustomName] = useState('');
+  const [dayIndex, setDayIndex] = useState(() => (new Date().getDay() + 6) % 7);
+  const [predictedMood, setPredictedMood] = useState(5);
+  const [completing, setCompleting] = useState<{ id: string; mood: number } | null>(null);
+
+  const suggestions = suggestActivities({ interests, limit: 4 });
+  const otherActivities = ACTIVITY_LIBRARY.filter(activity => !suggestions.includes(activity));
+  const days = weekDays(weekStart);
+  const summary = activationSummary(week);
+
+  const refresh = async () => {
+    setWeek(await activityPlanner.getWeek(userId, weekStart));
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [userId, weekStart]);
+
+  const shiftWeek = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(weekStart.getDate() + weeks * 7);
+    setWeekStart(next);
+  };
+
+  const handleSchedule = async () => {
+    const name = selected ? selected.name : customName.trim();
+    if (!name) return;
+
+    // Evening of the chosen day, when most people have a little free time
+    const scheduledFor = new Date(days[dayIndex]);
+    scheduledFor.setHours(18, 0, 0, 0);
+    try {
+      await activityPlanner.scheduleActivity(
+        userId,
+        { activityId: selected?.id, name, kind: selected?.kind || 'pleasure' },
+        scheduledFor,
+        predictedMood
+      );
+      setSelected(null);
+      setCustomName('');
+      await refresh();
+    } catch (error) {
+      console.error('Error scheduling activity:', error);
+      toast.error('Could not add the activity. Please try again.');
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!completing) return;
+    try {
+      await sessionManager.completeActivity(userId, completing.id, completing.mood);
+      setCompleting(null);
+      await refresh();
+    } catch (error) {
+      console.error('Error completing activity:', error);
+      toast.error('Could not save how it went. Please try again.');
+    }
+  };
+
+  const handleSkip = async (activity: ScheduledActivity) => {
+    try {
+      await sessionManager.skipActivity(userId, activity.id);
+      await refresh();
+    } catch (error) {
+      console.error('Error skipping activity:', error);
+      toast.error('Could not skip the activity. Please try again.');
+    }
+  };
+
+  const handleDelete = async (activity: ScheduledActivity) => {
+    try {
+      await activityPlanner.deleteActivity(activity.id);
+      await refresh();
+    } catch (error) {
+      console.error('Error deleting activity:', error);
+      toast.error('Could not remove the activity. Please try again.');
+    }
+  };
+
+  const renderActivityOption = (activity: Activity) => (
+    <Badge
+      key={activity.id}
+      variant={selected?.id === activity.id ? 'default' : 'outline'}
+      className="cursor-pointer"
+      onClick={() => setSelected(selected?.id === activity.id ? null : activity)}
+    >
+      {activityLabel(activity)} · {activity.minutes} min
+    </Badge>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          {onBack && (
+            <Button variant="ghost" size="sm" onClick={onBack} className="mr-4 hover:bg-primary/10">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <CalendarCheck className="w-6 h-6 text-primary mr-2" />
+          <div className="flex-1">
+            <h1 className="text-xl">गतिविधि योजना / Activity planner</h1>
+            <p className="text-xs text-muted-foreground">
+              Plan small things you enjoy or that give you a sense of getting things done. Mood often follows action.
+            </p>
+          </div>
+        </div>
+
+        {/* Week summary */}
+        <Card className="p-4 mb-6 bg-card border-primary/20">
+          <div className="flex items-center justify-between mb-2">
+            <Button variant="ghost" size="sm" onClick={() => shiftWeek(-1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <h2 className="font-medium">
+              {days[0].toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – {days[6].toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+            </h2>
+            <Button variant="ghost" size="sm" onClick={() => shiftWeek(1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-sm mb-2">
+            {summary.completed} of {summary.scheduled} done
+            {summary.completionRate !== undefined && ` · ${Math.round(summary.completionRate * 100)}% of what was due`}
+          </p>
+          {summary.completionRate !== undefined && <Progress value={summary.completionRate * 100} className="mb-2" />}
+          {summary.moodLift !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              You expected a mood of {summary.averagePredicted!.toFixed(1)} and felt {summary.averageActual!.toFixed(1)} on average
+              {summary.moodLift > 0 ? ' - better than you predicted.' : '.'}
+            </p>
+          )}
+        </Card>
+
+        {/* Days */}
+        <div className="space-y-3 mb-6">
+          {days.map(day => {
+            const planned = week.filter(activity => activity.scheduledFor.toDateString() === day.toDateString());
+            return (
+              <Card key={day.toISOString()} className="p-3 bg-card border-primary/20">
+                <h3 className="text-sm font-medium mb-1">
+                  {day.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'short' })}
+                </h3>
+                {planned.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Nothing planned</p>
+                ) : (
+                  <div className="space-y-2">
+                    {planned.map(activity => (
+                      <div key={activity.id} className="text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className={activity.status === 'skipped' ? 'line-through text-muted-foreground' : ''}>
+                            {activity.name}
+                            <span className="text-xs text-muted-foreground">
+                              {' '}· expected {activity.predictedMood}/10
+                              {activity.status === 'done' && `, felt ${activity.actualMood}/10`}
+                            </span>
+                          </span>
+                          <div className="flex items-center">
+                            {activity.status === 'planned' && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => setCompleting({ id: activity.id, mood: activity.predictedMood })} title="हो गया / Done">
+                                  <Check className="w-4 h-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleSkip(activity)}>
+                                  छोड़ें / Skip
+                                </Button>
+                              </>
+                            )}
+                            {activity.status === 'done' && <Badge variant="outline">✓</Badge>}
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(activity)} title="हटाएँ / Delete">
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {completing?.id === activity.id && (
+                          <div className="mt-2 space-y-2">
+                            <p className="text-xs">अब कैसा लग रहा है? / How do you feel now? {completing.mood}/10</p>
+                            <Slider
+                              value={[completing.mood]}
+                              min={1}
+                              max={10}
+                              step={1}
+                              onValueChange={([mood]) => setCompleting({ id: activity.id, mood })}
+                            />
+                            <Button size="sm" onClick={handleComplete}>सहेजें / Save</Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Add activity */}
+        <Card className="p-4 bg-card border-primary/20">
+          <h2 className="font-medium mb-3 flex items-center">
+            <Plus className="w-4 h-4 mr-2" />
+            गतिविधि जोड़ें / Add an activity
+          </h2>
+          <p className="text-xs text-muted-foreground mb-2">Suggested for you</p>
+          <div className="flex flex-wrap gap-2 mb-3">{suggestions.map(renderActivityOption)}</div>
+          {(['pleasure', 'mastery'] as const).map(kind => (
+            <div key={kind} className="mb-3">
+              <p className="text-xs text-muted-foreground mb-2">{KIND_LABELS[kind]}</p>
+              <div className="flex flex-wrap gap-2">
+                {otherActivities.filter(activity => activity.kind === kind).map(renderActivityOption)}
+              </div>
+            </div>
+          ))}
+          <Input
+            value={customName}
+            onChange={(e) => {
+              setCustomName(e.target.value);
+              setSelected(null);
+            }}
+            placeholder="Or write your own, e.g. Visit my grandmother"
+            className="mb-3"
+          />
+          <div className="flex flex-wrap gap-2 mb-3">
+            {days.map((day, index) => (
+              <Badge
+                key={day.toISOString()}
+                variant={dayIndex === index ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => setDayIndex(index)}
+              >
+                {day.toLocaleDateString(undefined, { weekday: 'short' })}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-sm mb-2">आपको कैसा लगेगा? / How do you expect to feel afterwards? {predictedMood}/10</p>
+          <Slider value={[predictedMood]} min={1} max={10} step={1} onValueChange={([mood]) => setPredictedMood(mood)} className="mb-3" />
+          <Button size="sm" onClick={handleSchedule} disabled={!selected && !customName.trim()}>
+            <CalendarCheck className="w-4 h-4 mr-1" />
+            योजना में जोड़ें / Add to plan
+          </Button>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default ActivityPlannerScreen;
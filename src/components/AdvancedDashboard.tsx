@@ -17,13 +17,15 @@ import {
   Activity,
   MessageCircle,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  NotebookPen
 } from 'lucide-react';
 
 import { sessionManager } from '../services/sessionManager';
 import { aiOrchestrator } from '../services/aiOrchestrator';
 import { voiceAnalysis } from '../services/voiceAnalysis';
 import { emotionDetection } from '../services/emotionDetection';
+import { thoughtRecords, type ThoughtRecordInsights } from '../services/thoughtRecords';
 
 interface DashboardProps {
   userId: string;
@@ -37,6 +39,7 @@ export const AdvancedDashboard: React.FC<DashboardProps> = ({ userId }) => {
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [sessionInsights, setSessionInsights] = useState<any>(null);
   const [riskLevel, setRiskLevel] = useState<'none' | 'low' | 'moderate' | 'high' | 'severe'>('none');
+  const [thoughtInsights, setThoughtInsights] = useState<ThoughtRecordInsights | null>(null);
 
   useEffect(() => {
     loadUserProgress();
@@ -46,6 +49,7 @@ export const AdvancedDashboard: React.FC<DashboardProps> = ({ userId }) => {
     try {
       const progress = await sessionManager.getUserProgress(userId, 'month');
       setUserProgress(progress);
+      setThoughtInsights(await thoughtRecords.getInsights(userId));
     } catch (error) {
       console.error('Failed to load user progress:', error);
     }
@@ -430,9 +434,10 @@ export const AdvancedDashboard: React.FC<DashboardProps> = ({ userId }) => {
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="goals" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="goals">Goals Progress</TabsTrigger>
                 <TabsTrigger value="emotions">Emotional Trends</TabsTrigger>
+                <TabsTrigger value="thinking">Thinking Patterns</TabsTrigger>
                 <TabsTrigger value="insights">AI Insights</TabsTrigger>
                 <TabsTrigger value="resources">Resources</TabsTrigger>
               </TabsList>
@@ -480,6 +485,49 @@ export const AdvancedDashboard: React.FC<DashboardProps> = ({ userId }) => {
                 </div>
               </TabsContent>
               
+              <TabsContent value="thinking" className="space-y-4">
+                {!thoughtInsights || thoughtInsights.total === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No thought records yet. Thinking traps you spot in thought records show up here over time.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-4 text-sm">
+                      <span className="flex items-center gap-1">
+                        <NotebookPen className="h-4 w-4" />
+                        {thoughtInsights.total} thought record{thoughtInsights.total === 1 ? '' : 's'}
+                      </span>
+                      {thoughtInsights.averageRelief !== undefined && (
+                        <span className="text-muted-foreground">
+                          Feelings eased by {Math.round(thoughtInsights.averageRelief)} points on average
+                        </span>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      {thoughtInsights.trends.map(trend => (
+                        <div key={trend.id} className="flex items-center justify-between">
+                          <span className="text-sm">{trend.label}</span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground">
+                              {trend.recent} in the last 4 weeks · {trend.previous} before
+                            </span>
+                            <Badge className={
+                              trend.trend === 'decreasing'
+                                ? 'bg-green-100 text-green-800'
+                                : trend.trend === 'increasing'
+                                ? 'bg-red-100 text-red-800'
+                                : 'bg-gray-100 text-gray-800'
+                            }>
+                              {trend.trend}
+                            </Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </TabsContent>
+
               <TabsContent value="insights" className="space-y-4">
                 <div className="space-y-4">
                   <Alert>
@@ -4,6 +4,9 @@ import { Card } from './ui/card';
 import { Input } from './ui/input';
 import { ArrowLeft, Send, Bot, User } from 'lucide-react';
 import type { Screen } from '../types';
+import { riskAssessmentService } from '../services/riskAssessment';
+import { safetyAuditLog } from '../services/safetyAuditLog';
+import { getCrisisResponse, getRecommendedHelplines, shouldShowCrisisResources } from '../utils/crisisDetection';
 
 interface ChatbotProps {
   navigateTo: (screen: Screen) => void;
@@ -37,6 +40,24 @@ export function Chatbot({ navigateTo }: ChatbotProps) {
   };
 
   const generateBotResponse = (userMessage: string): string => {
+    // Risk is checked before any keyword reply so crisis messages always get helplines
+    const crisisAssessment = riskAssessmentService.assess(userMessage);
+    const showCrisis = shouldShowCrisisResources(crisisAssessment);
+    safetyAuditLog.recordDecision(crisisAssessment, userMessage, {
+      source: 'chatbot',
+      uiShown: showCrisis ? ['helplines_in_reply'] : crisisAssessment.level === 'moderate' ? ['supportive_reply'] : []
+    });
+
+    if (showCrisis) {
+      const helplines = getRecommendedHelplines(crisisAssessment)
+        .map(helpline => `${helpline.name}: ${helpline.number} (${helpline.openNow ? helpline.availability : `${helpline.availability}, closed now`})`)
+        .join('\n');
+      return `${getCrisisResponse(crisisAssessment, 'english')}\n\n${helplines}`;
+    }
+    if (crisisAssessment.level === 'moderate') {
+      return getCrisisResponse(crisisAssessment, 'english');
+    }
+
     const message = userMessage.toLowerCase();
     
     if (message.includes('stress') || message.includes('overwhelm')) {
@@ -139,7 +160,7 @@ export function Chatbot({ navigateTo }: ChatbotProps) {
                       ? 'bg-primary text-primary-foreground' 
                       : 'bg-card border-primary/20'
                   }`}>
-                    <p className="text-sm">{message.content}</p>
+                    <p className="text-sm whitespace-pre-line">{message.content}</p>
                   </Card>
                   <p className={`text-xs text-muted-foreground mt-1 ${
                     message.sender === 'user' ? 'text-right' : 'text-left'
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Bell, Phone, HeartHandshake, X } from 'lucide-react';
+import { followUpScheduler, type FollowUpCheckIn as CheckIn } from '../services/followUpScheduler';
+import { safetyAuditLog } from '../services/safetyAuditLog';
+import { rankHelplines } from '../utils/helplines';
+
+interface FollowUpCheckInProps {
+  userId: string;
+  onOpenSafetyPlan?: () => void;
+}
+
+const MOOD_OPTIONS = [
+  { value: 1, emoji: '😢', label: 'बहुत बुरा / Very low' },
+  { value: 2, emoji: '😔', label: 'बुरा / Low' },
+  { value: 3, emoji: '😐', label: 'ठीक-ठाक / Okay' },
+  { value: 4, emoji: '🙂', label: 'अच्छा / Good' },
+  { value: 5, emoji: '😊', label: 'बहुत अच्छा / Very good' }
+];
+
+export function FollowUpCheckIn({ userId, onOpenSafetyPlan }: FollowUpCheckInProps) {
+  const [dueCheckIn, setDueCheckIn] = useState<CheckIn | null>(null);
+  const [showHelplines, setShowHelplines] = useState(false);
+  const [mood, setMood] = useState<number | undefined>();
+  const [canAskPermission, setCanAskPermission] = useState(
+    typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'default'
+  );
+
+  useEffect(() => {
+    const refresh = async () => {
+      const [due, missed] = await Promise.all([
+        followUpScheduler.getDueCheckIns(userId),
+        followUpScheduler.getUnresolvedMisses(userId)
+      ]);
+      setDueCheckIn(due[0] || missed[0] || null);
+      if (missed.length > 0) setShowHelplines(true);
+    };
+
+    refresh().catch(error => console.error('Error loading follow-up check-ins:', error));
+
+    return followUpScheduler.subscribe(event => {
+      if (event.checkIn.userId !== userId) return;
+
+      if (event.type === 'escalate') {
+        setShowHelplines(true);
+        safetyAuditLog.recordUiShown(['follow_up_helplines'], {
+          source: 'follow_up',
+          userId,
+          sessionId: event.checkIn.sessionId
+        });
+      }
+      refresh().catch(error => console.error('Error loading follow-up check-ins:', error));
+    });
+  }, [userId]);
+
+  const requestPermission = async () => {
+    try {
+      await Notification.requestPermission();
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+    }
+    setCanAskPermission(false);
+  };
+
+  const respond = async (feelingSafe: boolean) => {
+    if (!dueCheckIn) return;
+
+    try {
+      await followUpScheduler.respond(dueCheckIn.id, { mood, feelingSafe });
+      setMood(undefined);
+      if (feelingSafe) {
+        setShowHelplines(false);
+        toast.success('Thank you for checking in 💙');
+      }
+    } catch (error) {
+      console.error('Error saving follow-up response:', error);
+      toast.error('Could not save your check-in. Please try again.');
+    }
+  };
+
+  if (!dueCheckIn && !showHelplines) {
+    return canAskPermission ? (
+      <div className="fixed bottom-4 right-4 z-50">
+        <Card className="p-3 flex items-center space-x-3 shadow-lg">
+          <Bell className="w-4 h-4 text-blue-600" />
+          <span className="text-sm">Check-in reminders / चेक-इन रिमाइंडर</span>
+          <Button size="sm" variant="outline" onClick={requestPermission}>Allow</Button>
+          <Button size="sm" variant="ghost" onClick={() => setCanAskPermission(false)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </Card>
+      </div>
+    ) : null;
+  }
+
+  const helplines = rankHelplines().filter(helpline => helpline.openNow).slice(0, 3);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-full max-w-sm">
+      <Card className={`p-4 shadow-lg ${showHelplines ? 'bg-red-50 border-red-200' : 'bg-white'}`}>
+        {dueCheckIn && (
+          <div className="mb-3">
+            <div className="flex items-center space-x-2 mb-2">
+              <HeartHandshake className="w-5 h-5 text-blue-600" />
+              <h3 className="font-medium">आप कैसे हैं? / How are you doing?</h3>
+            </div>
+            <p className="text-sm text-gray-600 mb-3">
+              {dueCheckIn.status === 'missed'
+                ? 'We missed your last check-in and wanted to make sure you are okay.'
+                : 'MannMitra is checking in after our last conversation.'}
+            </p>
+            <div className="flex justify-between mb-3">
+              {MOOD_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  title={option.label}
+                  onClick={() => setMood(option.value)}
+                  className={`text-2xl rounded-lg p-1 ${mood === option.value ? 'bg-blue-100' : 'hover:bg-gray-100'}`}
+                >
+                  {option.emoji}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => respond(true)}>
+                मैं सुरक्षित हूँ / I'm safe
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1 border-red-300 text-red-700" onClick={() => respond(false)}>
+                मैं ठीक नहीं हूँ / I'm not okay
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {showHelplines && (
+          <div>
+            <p className="text-sm text-red-700 mb-2">
+              आप अकेले नहीं हैं / You are not alone. These helplines are open right now:
+            </p>
+            <div className="space-y-1 mb-3">
+              {helplines.map((helpline, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm">
+                  <Phone className="w-4 h-4 text-red-600" />
+                  <span className="font-medium">{helpline.name}:</span>
+                  <a href={`tel:${helpline.number.replace(/[\s-]/g, '')}`} className="text-red-800 underline">
+                    {helpline.number}
+                  </a>
+                </div>
+              ))}
+              <p className="text-xs text-red-700">If you are in immediate danger, call 112.</p>
+            </div>
+            <div className="flex gap-2">
+              {onOpenSafetyPlan && (
+                <Button size="sm" variant="outline" onClick={onOpenSafetyPlan} className="border-red-300 text-red-700">
+                  Open my safety plan
+                </Button>
+              )}
+              {!dueCheckIn && (
+                <Button size="sm" variant="ghost" onClick={() => setShowHelplines(false)}>
+                  Close
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default FollowUpCheckIn;
@@ -11,18 +11,28 @@ import PostQuizHome from './PostQuizHome';
 
 // Import new advanced components
 import AdvancedDashboard from './AdvancedDashboard';
+import SafetyPlanScreen from './SafetyPlanScreen';
+import TrustedContactsScreen from './TrustedContactsScreen';
+import MemoryScreen from './MemoryScreen';
+import ThoughtRecordScreen from './ThoughtRecordScreen';
+import ActivityPlannerScreen from './ActivityPlannerScreen';
+import FollowUpCheckIn from './FollowUpCheckIn';
 
 // Import services
 import { sessionManager } from '../services/sessionManager';
+import { followUpScheduler } from '../services/followUpScheduler';
 import { aiOrchestrator } from '../services/aiOrchestrator';
 import { voiceAnalysis } from '../services/voiceAnalysis';
 import { emotionDetection } from '../services/emotionDetection';
+import type { UserProfile } from '../services/firebaseService';
+import type { ThoughtRecordDraft } from '../utils/thoughtRecord';
 
 // Navigation component
 import { Sidebar } from './ui/sidebar';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
 import { 
   Home, 
   Brain, 
@@ -32,10 +42,14 @@ import {
   Settings, 
   User,
   Shield,
+  Users,
   Heart,
   Mic,
   Camera,
-  Activity
+  Activity,
+  BrainCircuit,
+  NotebookPen,
+  CalendarCheck
 } from 'lucide-react';
 
 interface User {
@@ -47,6 +61,8 @@ interface User {
     language: 'hindi' | 'english' | 'mixed';
     culturalBackground: string;
     communicationStyle: 'formal' | 'casual';
+    // Onboarding interests, e.g. music or nature; seed activity suggestions
+    interests?: string[];
   };
   mentalHealthProfile: {
     primaryConcerns: string[];
@@ -54,11 +70,15 @@ interface User {
     riskFactors: string[];
     protectiveFactors: string[];
   };
+  // Same setting as UserProfile['privacy']; missing means personal details are redacted
+  privacy?: Pick<UserProfile['privacy'], 'redactPersonalInfo'>;
 }
 
 export const MannMitraApp: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [currentRoute, setCurrentRoute] = useState('/');
+  // Set when the companion launches a thought record from chat
+  const [thoughtRecordDraft, setThoughtRecordDraft] = useState<ThoughtRecordDraft | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [systemStatus, setSystemStatus] = useState({
     aiOrchestrator: false,
@@ -71,6 +91,14 @@ export const MannMitraApp: React.FC = () => {
     initializeApp();
   }, []);
 
+  // Crisis follow-ups only fall due while the app is open, so poll for them while someone is signed in
+  useEffect(() => {
+    if (!currentUser) return;
+
+    followUpScheduler.start();
+    return () => followUpScheduler.stop();
+  }, [currentUser?.id]);
+
   const initializeApp = async () => {
     try {
       // Check system status
@@ -107,14 +135,16 @@ export const MannMitraApp: React.FC = () => {
       preferences: {
         language: userData.language || 'mixed',
         culturalBackground: userData.culturalBackground || 'indian',
-        communicationStyle: userData.communicationStyle || 'casual'
+        communicationStyle: userData.communicationStyle || 'casual',
+        interests: userData.interests || []
       },
       mentalHealthProfile: {
         primaryConcerns: userData.concerns || [],
         goals: userData.goals || [],
         riskFactors: userData.riskFactors || [],
         protectiveFactors: userData.protectiveFactors || []
-      }
+      },
+      privacy: { redactPersonalInfo: true }
     };
 
     setCurrentUser(user);
@@ -133,10 +163,15 @@ export const MannMitraApp: React.FC = () => {
       { icon: BarChart3, label: 'Dashboard', route: '/dashboard', premium: false },
       { icon: MessageCircle, label: 'AI Companion', route: '/companion', premium: false },
       { icon: BookOpen, label: 'Journal', route: '/journal', premium: false },
+      { icon: NotebookPen, label: 'Thought Record', route: '/thought-record', premium: false },
+      { icon: CalendarCheck, label: 'Activity Planner', route: '/activities', premium: false },
       { icon: Home, label: 'Home', route: '/home', premium: false },
       { icon: Brain, label: 'Advanced Analytics', route: '/analytics', premium: false },
       { icon: Mic, label: 'Voice Therapy', route: '/voice', premium: false },
       { icon: Camera, label: 'Emotion Detection', route: '/emotion', premium: false },
+      { icon: Shield, label: 'Safety Plan', route: '/safety-plan', premium: false },
+      { icon: Users, label: 'Trusted Contacts', route: '/trusted-contacts', premium: false },
+      { icon: BrainCircuit, label: 'Memory', route: '/memory', premium: false },
       { icon: Settings, label: 'Settings', route: '/settings', premium: false }
     ];
 
@@ -203,7 +238,10 @@ export const MannMitraApp: React.FC = () => {
                 key={item.route}
                 variant={currentRoute === item.route ? 'default' : 'ghost'}
                 className="w-full justify-start gap-3"
-                onClick={() => setCurrentRoute(item.route)}
+                onClick={() => {
+                  setThoughtRecordDraft(undefined);
+                  setCurrentRoute(item.route);
+                }}
               >
                 <item.icon className="h-4 w-4" />
                 <span className="flex-1 text-left">{item.label}</span>
@@ -236,9 +274,26 @@ export const MannMitraApp: React.FC = () => {
       case '/dashboard':
         return <AdvancedDashboard userId={currentUser.id} />;
       case '/companion':
-        return <AICompanion />;
+        return (
+          <AICompanion
+            userId={currentUser.id}
+            userName={currentUser.name}
+            onOpenSafetyPlan={() => setCurrentRoute('/safety-plan')}
+            onManageContacts={() => setCurrentRoute('/trusted-contacts')}
+            onOpenThoughtRecord={(draft) => {
+              setThoughtRecordDraft(draft);
+              setCurrentRoute('/thought-record');
+            }}
+            onOpenActivityPlanner={() => setCurrentRoute('/activities')}
+            privacy={currentUser.privacy}
+          />
+        );
       case '/journal':
         return <Journal />;
+      case '/thought-record':
+        return <ThoughtRecordScreen userId={currentUser.id} initialDraft={thoughtRecordDraft} />;
+      case '/activities':
+        return <ActivityPlannerScreen userId={currentUser.id} interests={currentUser.preferences.interests} />;
       case '/home':
         return <HomePage />;
       case '/analytics':
@@ -247,6 +302,12 @@ export const MannMitraApp: React.FC = () => {
         return <VoiceTherapyInterface userId={currentUser.id} />;
       case '/emotion':
         return <EmotionDetectionInterface userId={currentUser.id} />;
+      case '/safety-plan':
+        return <SafetyPlanScreen userId={currentUser.id} />;
+      case '/trusted-contacts':
+        return <TrustedContactsScreen userId={currentUser.id} />;
+      case '/memory':
+        return <MemoryScreen userId={currentUser.id} />;
       case '/settings':
         return <SettingsPanel user={currentUser} onUpdate={setCurrentUser} />;
       default:
@@ -398,6 +459,26 @@ export const MannMitraApp: React.FC = () => {
                 <option value="formal">Formal</option>
               </select>
             </div>
+
+            <div className="flex items-start justify-between space-x-4">
+              <div>
+                <label className="block text-sm font-medium">निजी जानकारी छुपाएँ / Hide personal details from AI</label>
+                <p className="text-xs text-gray-500">
+                  Names, phone, Aadhaar and PAN numbers, addresses and college names are replaced before your messages reach the AI service.
+                </p>
+              </div>
+              <Switch
+                checked={user.privacy?.redactPersonalInfo ?? true}
+                onCheckedChange={(checked) => {
+                  const updatedUser = {
+                    ...user,
+                    privacy: { ...user.privacy, redactPersonalInfo: checked }
+                  };
+                  onUpdate(updatedUser);
+                  localStorage.setItem('mannmitra_user', JSON.stringify(updatedUser));
+                }}
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -424,6 +505,9 @@ export const MannMitraApp: React.FC = () => {
       <div className="flex-1 overflow-auto">
         <MainContent />
       </div>
+      {currentUser && (
+        <FollowUpCheckIn userId={currentUser.id} onOpenSafetyPlan={() => setCurrentRoute('/safety-plan')} />
+      )}
       <Toaster position="top-right" />
     </div>
   );
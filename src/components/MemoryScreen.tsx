@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { ArrowLeft, BrainCircuit, Trash2, History } from 'lucide-react';
+import { conversationMemory, type MemoryFact, type SessionSummary } from '../services/conversationMemory';
+import { MEMORY_KIND_LABELS, type MemoryKind } from '../utils/memoryExtraction';
+
+interface MemoryScreenProps {
+  userId: string;
+  onBack?: () => void;
+}
+
+const KIND_ORDER: MemoryKind[] = ['coping_strategy', 'person', 'goal', 'stressor'];
+
+export function MemoryScreen({ userId, onBack }: MemoryScreenProps) {
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [summaries, setSummaries] = useState<SessionSummary[]>([]);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const refresh = async () => {
+    const [rememberedFacts, sessionSummaries] = await Promise.all([
+      conversationMemory.getFacts(userId),
+      conversationMemory.getSummaries(userId)
+    ]);
+    setFacts(rememberedFacts);
+    setSummaries(sessionSummaries);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [userId]);
+
+  const handleForgetFact = async (fact: MemoryFact) => {
+    await conversationMemory.deleteFact(fact.id);
+    await refresh();
+  };
+
+  const handleForgetSummary = async (summary: SessionSummary) => {
+    await conversationMemory.deleteSummary(summary.sessionId);
+    await refresh();
+  };
+
+  const handleForgetEverything = async () => {
+    try {
+      await conversationMemory.deleteForUser(userId);
+      setConfirmClear(false);
+      await refresh();
+      toast.success('MannMitra has forgotten everything it remembered about you.');
+    } catch (error) {
+      console.error('Error clearing memory:', error);
+      toast.error('Could not clear memory. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          {onBack && (
+            <Button variant="ghost" size="sm" onClick={onBack} className="mr-4 hover:bg-primary/10">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <BrainCircuit className="w-6 h-6 text-primary mr-2" />
+          <div className="flex-1">
+            <h1 className="text-xl">MannMitra को क्या याद है / What MannMitra remembers</h1>
+            <p className="text-xs text-muted-foreground">
+              Stored only on this device and used to make replies more personal. Remove anything you do not want remembered.
+            </p>
+          </div>
+        </div>
+
+        {/* Facts */}
+        <div className="space-y-3 mb-6">
+          {facts.length === 0 && (
+            <Card className="p-4 text-sm text-muted-foreground">
+              अभी कुछ याद नहीं / Nothing remembered yet. As you talk, things that help you and people who matter to you show up here.
+            </Card>
+          )}
+          {KIND_ORDER.filter(kind => facts.some(fact => fact.kind === kind)).map(kind => (
+            <Card key={kind} className="p-4 bg-card border-primary/20">
+              <h2 className="font-medium mb-2">{MEMORY_KIND_LABELS[kind]}</h2>
+              <div className="space-y-1">
+                {facts.filter(fact => fact.kind === kind).map(fact => (
+                  <div key={fact.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {fact.text}
+                      <span className="text-xs text-muted-foreground"> · {fact.lastMentioned.toLocaleDateString()}</span>
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleForgetFact(fact)} title="भूल जाएँ / Forget">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Session summaries */}
+        <Card className="p-4 mb-6 bg-card border-primary/20">
+          <h2 className="font-medium mb-3 flex items-center">
+            <History className="w-4 h-4 mr-2" />
+            पिछली बातचीत / Past conversations
+          </h2>
+          {summaries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No conversation summaries yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {summaries.map(summary => (
+                <div key={summary.sessionId} className="flex items-start justify-between text-sm">
+                  <div>
+                    <p className="text-xs text-muted-foreground">{summary.updatedAt.toLocaleString()}</p>
+                    <p>{summary.text}</p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleForgetSummary(summary)} title="भूल जाएँ / Forget">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Forget everything */}
+        {(facts.length > 0 || summaries.length > 0) && (
+          confirmClear ? (
+            <div className="flex items-center space-x-2 text-sm">
+              <span>Forget everything? This cannot be undone.</span>
+              <Button variant="destructive" size="sm" onClick={handleForgetEverything}>
+                हाँ / Yes, forget
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setConfirmClear(false)}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setConfirmClear(true)}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              सब भूल जाएँ / Forget everything
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MemoryScreen;
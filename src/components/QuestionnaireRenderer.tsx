@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Progress } from './ui/progress';
+import { ArrowLeft, ArrowRight, Heart, Music, TreePine, Book, Coffee, Gamepad2 } from 'lucide-react';
+import {
+  localize,
+  getOptions,
+  getVisibleItems,
+  getDefaultAnswers,
+  isItemAnswered,
+  type QuestionnaireAnswers,
+  type QuestionnaireDefinition,
+  type QuestionnaireLanguage,
+  type ResponseOption
+} from '../utils/questionnaire';
+
+interface QuestionnaireRendererProps {
+  definition: QuestionnaireDefinition;
+  language?: QuestionnaireLanguage;
+  initialAnswers?: QuestionnaireAnswers;
+  initialItemId?: string;
+  // Rendered at the right of the header, e.g. a language toggle
+  headerAction?: React.ReactNode;
+  onChange?: (answers: QuestionnaireAnswers, currentItemId: string) => void;
+  onComplete: (answers: QuestionnaireAnswers) => void;
+  // Called when going back from the first item
+  onExit?: () => void;
+}
+
+const OPTION_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  music: Music,
+  'tree-pine': TreePine,
+  book: Book,
+  gamepad: Gamepad2,
+  heart: Heart,
+  coffee: Coffee
+};
+
+const NAVIGATION_LABELS = {
+  'nav.back': 'पीछे / Back',
+  'nav.next': 'आगे / Next',
+  'nav.finish': 'पूरा करें / Finish'
+};
+
+export function QuestionnaireRenderer({
+  definition,
+  language = 'english',
+  initialAnswers = {},
+  initialItemId,
+  headerAction,
+  onChange,
+  onComplete,
+  onExit
+}: QuestionnaireRendererProps) {
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>({ ...getDefaultAnswers(definition), ...initialAnswers });
+  const [currentItemId, setCurrentItemId] = useState(initialItemId || definition.items[0].id);
+
+  const t = (key: string) => localize(definition, key, language);
+  const navLabel = (key: keyof typeof NAVIGATION_LABELS) =>
+    definition.strings.en?.[key] || definition.strings.hi?.[key] ? t(key) : NAVIGATION_LABELS[key];
+
+  const visibleItems = getVisibleItems(definition, answers);
+  const currentIndex = Math.max(0, visibleItems.findIndex(item => item.id === currentItemId));
+  const item = visibleItems[currentIndex];
+  const isLastItem = currentIndex === visibleItems.length - 1;
+  const progress = ((currentIndex + 1) / visibleItems.length) * 100;
+
+  const goForward = (newAnswers: QuestionnaireAnswers) => {
+    // Re-evaluate skip logic with the new answer before picking the next item
+    const items = getVisibleItems(definition, newAnswers);
+    const index = items.findIndex(visible => visible.id === item.id);
+    const next = items[index + 1];
+
+    if (next) {
+      setCurrentItemId(next.id);
+      onChange?.(newAnswers, next.id);
+      return;
+    }
+
+    // Answers to items that ended up skipped are dropped
+    const visibleAnswers: QuestionnaireAnswers = {};
+    items.forEach(visible => {
+      if (newAnswers[visible.id] !== undefined) visibleAnswers[visible.id] = newAnswers[visible.id];
+    });
+    onComplete(visibleAnswers);
+  };
+
+  const handleBack = () => {
+    if (currentIndex > 0) {
+      const previous = visibleItems[currentIndex - 1];
+      setCurrentItemId(previous.id);
+      onChange?.(answers, previous.id);
+    } else {
+      onExit?.();
+    }
+  };
+
+  const handleSelect = (option: ResponseOption) => {
+    if (item.type === 'multiple') {
+      const selected = (answers[item.id] as string[]) || [];
+      const value = String(option.value);
+      const newAnswers = {
+        ...answers,
+        [item.id]: selected.includes(value) ? selected.filter(id => id !== value) : [...selected, value]
+      };
+      setAnswers(newAnswers);
+      onChange?.(newAnswers, item.id);
+      return;
+    }
+
+    const newAnswers = { ...answers, [item.id]: option.value };
+    setAnswers(newAnswers);
+
+    if (definition.autoAdvance) {
+      goForward(newAnswers);
+    } else {
+      onChange?.(newAnswers, item.id);
+    }
+  };
+
+  const isSelected = (option: ResponseOption) => {
+    const value = answers[item.id];
+    return Array.isArray(value) ? value.includes(String(option.value)) : value === option.value;
+  };
+
+  const optionClassName = (option: ResponseOption) => `cursor-pointer transition-all ${isSelected(option)
+    ? 'bg-primary/20 border-primary'
+    : 'bg-card border-primary/20 hover:border-primary/40'
+    }`;
+
+  const renderGridOption = (option: ResponseOption) => {
+    const IconComponent = option.icon ? OPTION_ICONS[option.icon] : undefined;
+    return (
+      <Card
+        key={String(option.value)}
+        className={`p-6 hover:shadow-md hover:scale-105 ${optionClassName(option)}`}
+        onClick={() => handleSelect(option)}
+      >
+        <div className="text-center space-y-3">
+          {IconComponent ? (
+            <IconComponent className={`w-6 h-6 mx-auto ${isSelected(option) ? 'text-primary' : 'text-muted-foreground'}`} />
+          ) : option.emoji ? (
+            <span className="text-2xl">{option.emoji}</span>
+          ) : typeof option.value === 'number' ? (
+            <div className="w-12 h-12 bg-primary/20 rounded-lg flex items-center justify-center mx-auto">
+              <span className="text-lg font-medium text-primary">{option.value}</span>
+            </div>
+          ) : null}
+          <p className="text-sm font-medium">{t(option.labelKey)}</p>
+        </div>
+      </Card>
+    );
+  };
+
+  const renderListOption = (option: ResponseOption) => (
+    <Card
+      key={String(option.value)}
+      className={`p-4 ${optionClassName(option)}`}
+      onClick={() => handleSelect(option)}
+    >
+      {option.emoji ? (
+        <div className="flex items-center space-x-3">
+          <span className="text-2xl">{option.emoji}</span>
+          <span className="font-medium">{t(option.labelKey)}</span>
+        </div>
+      ) : (
+        <div className="text-center">
+          <span className="font-medium">{t(option.labelKey)}</span>
+        </div>
+      )}
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-lg mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8">
+          {definition.autoAdvance && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleBack}
+              className="mr-4 hover:bg-primary/10"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <div className="flex-1">
+            <div className="flex justify-between items-center mb-2">
+              <h1 className="text-sm font-medium">{t(definition.titleKey)}</h1>
+              <span className="text-sm text-muted-foreground">
+                {currentIndex + 1} / {visibleItems.length}
+              </span>
+            </div>
+            <Progress value={progress} className="h-2" />
+          </div>
+          {headerAction && <div className="ml-4">{headerAction}</div>}
+        </div>
+
+        {/* Item */}
+        <div className={definition.autoAdvance ? 'text-center mb-12' : 'mb-6'}>
+          {definition.stemKey && (
+            <p className="text-sm text-muted-foreground mb-3">{t(definition.stemKey)}</p>
+          )}
+          <h2 className="text-2xl mb-2">{t(item.textKey)}</h2>
+          {item.subtitleKey && <p className="text-muted-foreground">{t(item.subtitleKey)}</p>}
+        </div>
+
+        {/* Options */}
+        <div className={`mb-8 ${item.display === 'list' ? 'space-y-3' : 'grid grid-cols-2 gap-4'}`}>
+          {getOptions(definition, item).map(option =>
+            item.display === 'list' ? renderListOption(option) : renderGridOption(option)
+          )}
+        </div>
+
+        {/* Navigation */}
+        {!definition.autoAdvance && (
+          <div className="flex justify-between">
+            <Button
+              variant="ghost"
+              onClick={handleBack}
+              disabled={currentIndex === 0 && !onExit}
+              className="hover:bg-primary/10"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {navLabel('nav.back')}
+            </Button>
+
+            <Button
+              onClick={() => goForward(answers)}
+              disabled={!isItemAnswered(item, answers)}
+              className="bg-primary hover:bg-primary/90"
+            >
+              {isLastItem ? navLabel('nav.finish') : navLabel('nav.next')}
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default QuestionnaireRenderer;
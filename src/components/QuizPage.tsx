@@ -1,165 +1,246 @@
 import React, { useState } from 'react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
-import { Progress } from './ui/progress';
-import { ArrowLeft, Smile, Meh, Frown, Heart, Battery, Moon, Zap, Users, Target } from 'lucide-react';
+import { AlertTriangle, Phone, Languages } from 'lucide-react';
 import type { Screen, UserData } from '../types';
+import { firebaseService } from '../services/firebaseService';
+import { rankHelplines } from '../utils/helplines';
+import { safetyAuditLog } from '../services/safetyAuditLog';
+import { crisisEscalation, screeningRiskLevel } from '../services/crisisEscalation';
+import { QuestionnaireRenderer } from './QuestionnaireRenderer';
+import { getVisibleItems, type QuestionnaireAnswers, type QuestionnaireDefinition } from '../utils/questionnaire';
+import {
+  PHQ9,
+  GAD7,
+  scoreInstrument,
+  type ScreeningResult
+} from '../utils/screeningInstruments';
 
 interface QuizPageProps {
   navigateTo: (screen: Screen) => void;
   userData: UserData;
   updateUserData: (data: Partial<UserData>) => void;
+  // Needed to schedule follow-up check-ins after a positive item 9
+  userId?: string;
 }
 
-const questions = [
-  {
-    question: "How are you feeling today?",
-    options: [
-      { text: "Amazing", icon: Smile, value: 100 },
-      { text: "Great", icon: Smile, value: 85 },
-      { text: "Good", icon: Smile, value: 70 },
-      { text: "Okay", icon: Meh, value: 55 },
-      { text: "Not great", icon: Frown, value: 30 },
-      { text: "Struggling", icon: Frown, value: 10 }
-    ]
-  },
-  {
-    question: "How well did you sleep last night?",
-    options: [
-      { text: "Excellent", icon: Moon, value: 100 },
-      { text: "Very well", icon: Moon, value: 85 },
-      { text: "Well", icon: Moon, value: 70 },
-      { text: "Okay", icon: Moon, value: 55 },
-      { text: "Poorly", icon: Moon, value: 30 },
-      { text: "Terribly", icon: Moon, value: 10 }
-    ]
-  },
-  {
-    question: "What's your energy level?",
-    options: [
-      { text: "Full of energy", icon: Zap, value: 100 },
-      { text: "Energetic", icon: Zap, value: 85 },
-      { text: "Good energy", icon: Battery, value: 70 },
-      { text: "Average", icon: Battery, value: 55 },
-      { text: "Low energy", icon: Battery, value: 30 },
-      { text: "Exhausted", icon: Battery, value: 10 }
-    ]
-  },
-  {
-    question: "How connected do you feel to others?",
-    options: [
-      { text: "Very connected", icon: Users, value: 100 },
-      { text: "Connected", icon: Users, value: 85 },
-      { text: "Somewhat connected", icon: Users, value: 70 },
-      { text: "Neutral", icon: Users, value: 55 },
-      { text: "Disconnected", icon: Users, value: 30 },
-      { text: "Very isolated", icon: Users, value: 10 }
-    ]
-  },
-  {
-    question: "How motivated do you feel?",
-    options: [
-      { text: "Highly motivated", icon: Target, value: 100 },
-      { text: "Motivated", icon: Target, value: 85 },
-      { text: "Somewhat motivated", icon: Target, value: 70 },
-      { text: "Neutral", icon: Target, value: 55 },
-      { text: "Unmotivated", icon: Target, value: 30 },
-      { text: "No motivation", icon: Target, value: 10 }
-    ]
+// PHQ-9 first so its suicidality item is handled before the user moves on
+const instruments = [PHQ9, GAD7];
+
+// Progress is persisted as one flat answer list across both instruments, -1 for unanswered
+const itemOrder = instruments.flatMap(instrument => instrument.items.map(item => item.id));
+
+function toAnswerList(answers: QuestionnaireAnswers): number[] {
+  return itemOrder.map(id => (typeof answers[id] === 'number' ? answers[id] as number : -1));
+}
+
+// Answers saved by the old six-question mood quiz (scored 10-100) cannot be resumed
+function fromAnswerList(list: number[]): QuestionnaireAnswers {
+  if (list.length !== itemOrder.length || list.some(answer => answer < -1 || answer > 3)) {
+    return {};
+  }
+
+  const answers: QuestionnaireAnswers = {};
+  list.forEach((answer, index) => {
+    if (answer >= 0) answers[itemOrder[index]] = answer;
+  });
+  return answers;
+}
+
+function instrumentIndexFor(itemId: string): number {
+  return Math.max(0, instruments.findIndex(instrument => instrument.items.some(item => item.id === itemId)));
+}
+
+async function saveResult(instrument: QuestionnaireDefinition, result: ScreeningResult, answers: QuestionnaireAnswers) {
+  try {
+    await firebaseService.saveWellnessAssessment({
+      type: result.instrumentId,
+      scores: result.itemScores,
+      totalScore: result.totalScore,
+      riskLevel: result.severity,
+      responses: instrument.items
+        .filter(item => answers[item.id] !== undefined)
+        .map(item => ({ questionId: item.id, response: answers[item.id] as number })),
+      followUpRecommended: result.followUpRecommended
+    });
+  } catch (error) {
+    console.error(`Error saving ${instrument.id} result:`, error);
   }
-];
+}
 
-export function QuizPage({ navigateTo, userData, updateUserData }: QuizPageProps) {
-  const [currentQuestion, setCurrentQuestion] = useState(userData.currentQuizQuestion);
-  const [answers, setAnswers] = useState<number[]>(userData.quizAnswers);
+export function QuizPage({ navigateTo, userData, updateUserData, userId }: QuizPageProps) {
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>(() => fromAnswerList(userData.quizAnswers));
+  const [currentItemId, setCurrentItemId] = useState(() =>
+    Object.keys(fromAnswerList(userData.quizAnswers)).length > 0
+      ? itemOrder[userData.currentQuizQuestion] || itemOrder[0]
+      : itemOrder[0]
+  );
+  const [language, setLanguage] = useState<'hindi' | 'english'>(
+    userData.preferences?.preferredLanguage === 'hindi' ? 'hindi' : 'english'
+  );
+  const [showCrisisSupport, setShowCrisisSupport] = useState(false);
+  const [crisisDecisionId, setCrisisDecisionId] = useState<string | undefined>();
 
-  const progress = ((currentQuestion + 1) / questions.length) * 100;
+  const instrumentIndex = instrumentIndexFor(currentItemId);
+  const instrument = instruments[instrumentIndex];
 
-  const handleAnswerSelect = (value: number) => {
-    const newAnswers = [...answers];
-    newAnswers[currentQuestion] = value;
+  const handleChange = (instrumentAnswers: QuestionnaireAnswers, itemId: string) => {
+    const newAnswers = { ...answers, ...instrumentAnswers };
     setAnswers(newAnswers);
+    setCurrentItemId(itemId);
+    updateUserData({
+      currentQuizQuestion: itemOrder.indexOf(itemId),
+      quizAnswers: toAnswerList(newAnswers)
+    });
+  };
 
-    if (currentQuestion < questions.length - 1) {
-      // Move to next question
-      setCurrentQuestion(currentQuestion + 1);
-      updateUserData({
-        currentQuizQuestion: currentQuestion + 1,
-        quizAnswers: newAnswers
-      });
-    } else {
-      // Quiz completed
-      const averageScore = Math.round(newAnswers.reduce((sum, answer) => sum + answer, 0) / newAnswers.length);
-      
-      updateUserData({
-        quizCompleted: true,
-        quizAnswers: newAnswers,
-        overallScore: averageScore,
-        currentQuizQuestion: 0
-      });
-
-      navigateTo('post-quiz-home');
+  const handleInstrumentComplete = (instrumentAnswers: QuestionnaireAnswers) => {
+    const newAnswers = { ...answers, ...instrumentAnswers };
+    setAnswers(newAnswers);
+
+    const result = scoreInstrument(instrument, instrumentAnswers);
+    saveResult(instrument, result, instrumentAnswers);
+
+    if (instrument === PHQ9) {
+      updateUserData({ metrics: { ...userData.metrics, phq9: result.totalScore } });
+
+      const crisisLevel = screeningRiskLevel(result);
+      crisisEscalation
+        .handleScreeningRisk(result, {
+          userId,
+          uiShown: result.suicidalIdeation ? ['phq9_crisis_card', 'helplines'] : []
+        })
+        .then(outcome => setCrisisDecisionId(outcome.decisionId))
+        .catch(error => console.error('Error handling screening crisis decision:', error));
+
+      if (result.suicidalIdeation) {
+        firebaseService.logCrisisIntervention('phq9-screening', crisisLevel, 'phq9_item9_helplines', 'resources_shown');
+        setShowCrisisSupport(true);
+      }
+
+      handleChange(newAnswers, GAD7.items[0].id);
+      return;
     }
+
+    // Quiz completed
+    const phq9 = scoreInstrument(PHQ9, newAnswers).totalScore;
+    const gad7 = result.totalScore;
+
+    updateUserData({
+      quizCompleted: true,
+      quizAnswers: toAnswerList(newAnswers),
+      // Wellbeing summary for the home screen only; clinical scores live in metrics.phq9 and metrics.gad7
+      overallScore: Math.round(100 * (1 - (phq9 + gad7) / (PHQ9.scoring.maxScore + GAD7.scoring.maxScore))),
+      metrics: { ...userData.metrics, phq9, gad7 },
+      currentQuizQuestion: 0
+    });
+
+    navigateTo('post-quiz-home');
   };
 
-  const handleBack = () => {
-    if (currentQuestion > 0) {
-      setCurrentQuestion(currentQuestion - 1);
-      updateUserData({ currentQuizQuestion: currentQuestion - 1 });
+  const handleExit = () => {
+    if (instrumentIndex > 0) {
+      const previousItems = getVisibleItems(instruments[instrumentIndex - 1], answers);
+      handleChange(answers, previousItems[previousItems.length - 1].id);
     } else {
       navigateTo(userData.quizCompleted ? 'post-quiz-home' : 'home');
     }
   };
 
-  const currentQuestionData = questions[currentQuestion];
+  const recordCrisisAction = (action: string) => {
+    safetyAuditLog.recordUserAction(action, { source: 'screening', decisionId: crisisDecisionId })
+      .catch(error => console.error('Error recording crisis action:', error));
+  };
+
+  if (showCrisisSupport) {
+    const helplines = rankHelplines({ language }).filter(helpline => helpline.openNow).slice(0, 3);
+
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <div className="max-w-lg mx-auto">
+          <Card className="p-6 bg-red-50 border-red-200">
+            <div className="flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+              <div className="flex-1">
+                <h1 className="font-medium text-red-800 mb-2">
+                  {language === 'hindi' ? 'आप अकेले नहीं हैं' : 'You are not alone'}
+                </h1>
+                <p className="text-sm text-red-700 mb-4">
+                  {language === 'hindi'
+                    ? 'आपने बताया कि आपको खुद को चोट पहुँचाने या मर जाने के विचार आए हैं। अभी किसी से बात करना मदद कर सकता है - ये helplines इस समय खुली हैं:'
+                    : 'You mentioned thoughts of being better off dead or hurting yourself. Talking to someone right now can help - these helplines are open at this moment:'}
+                </p>
+                <div className="space-y-2 mb-4">
+                  {helplines.map((helpline, index) => (
+                    <div key={index} className="flex items-center space-x-2 text-sm">
+                      <Phone className="w-4 h-4 text-red-600" />
+                      <span className="font-medium">{language === 'hindi' ? helpline.nameHindi : helpline.name}:</span>
+                      <a
+                        href={`tel:${helpline.number.replace(/[\s-]/g, '')}`}
+                        onClick={() => recordCrisisAction(`called_helpline:${helpline.name}`)}
+                        className="text-red-800 underline"
+                      >
+                        {helpline.number}
+                      </a>
+                    </div>
+                  ))}
+                  <p className="text-xs text-red-700">
+                    {language === 'hindi' ? 'तुरंत खतरे में हों तो 112 पर call करें।' : 'If you are in immediate danger, call 112.'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      recordCrisisAction('talk_to_companion');
+                      navigateTo('ai-companion');
+                    }}
+                  >
+                    {language === 'hindi' ? 'MannMitra से बात करें' : 'Talk to MannMitra now'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      recordCrisisAction('continued_questionnaire');
+                      setShowCrisisSupport(false);
+                    }}
+                    className="border-red-300 text-red-700 hover:bg-red-100"
+                  >
+                    {language === 'hindi' ? 'प्रश्नावली जारी रखें' : 'Continue the questionnaire'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
 
+  // Keyed so switching instrument or language starts the renderer from the saved answers
   return (
-    <div className="min-h-screen bg-background p-6">
-      <div className="max-w-lg mx-auto">
-        {/* Header */}
-        <div className="flex items-center mb-8">
+    <React.Fragment key={`${instrument.id}-${language}`}>
+      <QuestionnaireRenderer
+        definition={instrument}
+        language={language}
+        initialAnswers={answers}
+        initialItemId={currentItemId}
+        onChange={handleChange}
+        onComplete={handleInstrumentComplete}
+        onExit={handleExit}
+        headerAction={
           <Button
             variant="ghost"
             size="sm"
-            onClick={handleBack}
-            className="mr-4 hover:bg-primary/10"
+            onClick={() => setLanguage(language === 'hindi' ? 'english' : 'hindi')}
+            className="hover:bg-primary/10"
           >
-            <ArrowLeft className="w-4 h-4" />
+            <Languages className="w-4 h-4 mr-1" />
+            {language === 'hindi' ? 'English' : 'हिंदी'}
           </Button>
-          <div className="flex-1">
-            <Progress value={progress} className="h-2" />
-            <p className="text-sm text-muted-foreground mt-2">
-              Question {currentQuestion + 1} of {questions.length}
-            </p>
-          </div>
-        </div>
-
-        {/* Question */}
-        <div className="text-center mb-12">
-          <h1 className="text-2xl mb-4">{currentQuestionData.question}</h1>
-        </div>
-
-        {/* Options */}
-        <div className="grid grid-cols-2 gap-4">
-          {currentQuestionData.options.map((option, index) => {
-            const IconComponent = option.icon;
-            return (
-              <Card
-                key={index}
-                className="p-6 cursor-pointer hover:shadow-md hover:scale-105 transition-all bg-card border-primary/20 hover:border-primary/40"
-                onClick={() => handleAnswerSelect(option.value)}
-              >
-                <div className="text-center space-y-3">
-                  <div className="w-12 h-12 bg-primary/20 rounded-lg flex items-center justify-center mx-auto">
-                    <IconComponent className="w-6 h-6 text-primary" />
-                  </div>
-                  <p className="text-sm font-medium">{option.text}</p>
-                </div>
-              </Card>
-            );
-          })}
-        </div>
-      </div>
-    </div>
+        }
+      />
+    </React.Fragment>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { ArrowLeft, Shield, Save, Printer, Plus, Trash2, Phone } from 'lucide-react';
+import {
+  safetyPlanService,
+  SAFETY_PLAN_SECTIONS,
+  COPING_SUGGESTIONS,
+  type SafetyPlan,
+  type SafetyPlanContact,
+  type SafetyPlanListSection,
+  type SafetyPlanContactSection
+} from '../services/safetyPlan';
+
+interface SafetyPlanScreenProps {
+  userId: string;
+  onBack?: () => void;
+}
+
+export function SafetyPlanScreen({ userId, onBack }: SafetyPlanScreenProps) {
+  const [plan, setPlan] = useState<SafetyPlan | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  useEffect(() => {
+    safetyPlanService.getOrCreatePlan(userId).then(setPlan);
+  }, [userId]);
+
+  if (!plan) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <p className="text-muted-foreground">Loading your safety plan...</p>
+      </div>
+    );
+  }
+
+  const updatePlan = (changes: Partial<SafetyPlan>) => {
+    setPlan({ ...plan, ...changes });
+    setHasChanges(true);
+  };
+
+  const updateListItem = (section: SafetyPlanListSection, index: number, value: string) => {
+    const items = [...plan[section]];
+    items[index] = value;
+    updatePlan({ [section]: items });
+  };
+
+  const addListItem = (section: SafetyPlanListSection, value: string = '') => {
+    if (value && plan[section].includes(value)) return;
+    updatePlan({ [section]: [...plan[section], value] });
+  };
+
+  const removeListItem = (section: SafetyPlanListSection, index: number) => {
+    updatePlan({ [section]: plan[section].filter((_, i) => i !== index) });
+  };
+
+  const updateContact = (section: SafetyPlanContactSection, index: number, changes: Partial<SafetyPlanContact>) => {
+    const contacts = plan[section].map((contact, i) => (i === index ? { ...contact, ...changes } : contact));
+    updatePlan({ [section]: contacts });
+  };
+
+  const addContact = (section: SafetyPlanContactSection) => {
+    updatePlan({ [section]: [...plan[section], { name: '', phone: '', relationship: '' }] });
+  };
+
+  const removeContact = (section: SafetyPlanContactSection, index: number) => {
+    updatePlan({ [section]: plan[section].filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await safetyPlanService.savePlan(plan);
+      setPlan(saved);
+      setHasChanges(false);
+      toast.success('सुरक्षा योजना सहेजी गई / Safety plan saved');
+    } catch (error) {
+      console.error('Error saving safety plan:', error);
+      toast.error('Could not save your safety plan. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderList = (section: SafetyPlanListSection) => (
+    <div className="space-y-2">
+      {plan[section].map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Input
+            value={item}
+            onChange={(e) => updateListItem(section, index, e.target.value)}
+            className="flex-1"
+          />
+          <Button variant="ghost" size="sm" onClick={() => removeListItem(section, index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => addListItem(section)}>
+        <Plus className="w-4 h-4 mr-1" />
+        जोड़ें / Add
+      </Button>
+    </div>
+  );
+
+  const renderContacts = (section: SafetyPlanContactSection) => (
+    <div className="space-y-2">
+      {plan[section].map((contact, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+          <Input
+            placeholder="Name"
+            value={contact.name}
+            onChange={(e) => updateContact(section, index, { name: e.target.value })}
+          />
+          <Input
+            placeholder="Phone"
+            type="tel"
+            value={contact.phone}
+            onChange={(e) => updateContact(section, index, { phone: e.target.value })}
+          />
+          <Input
+            placeholder="Relationship"
+            value={contact.relationship || ''}
+            onChange={(e) => updateContact(section, index, { relationship: e.target.value })}
+          />
+          <Button variant="ghost" size="sm" onClick={() => removeContact(section, index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => addContact(section)}>
+        <Plus className="w-4 h-4 mr-1" />
+        व्यक्ति जोड़ें / Add person
+      </Button>
+    </div>
+  );
+
+  const renderProfessionals = () => (
+    <div className="space-y-2">
+      {plan.professionalContacts.map((contact, index) => (
+        <div key={index} className="flex items-center space-x-2 text-sm">
+          <Phone className="w-4 h-4 text-primary" />
+          <span className="font-medium">{contact.name}:</span>
+          <a href={`tel:${contact.phone.replace(/\s/g, '')}`} className="text-primary underline">
+            {contact.phone}
+          </a>
+          <span className="text-muted-foreground">({contact.availability})</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderSection = (key: typeof SAFETY_PLAN_SECTIONS[number]['key']) => {
+    if (key === 'professionalContacts') return renderProfessionals();
+    if (key === 'distractionPeople' || key === 'trustedContacts') return renderContacts(key);
+    return renderList(key);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          {onBack && (
+            <Button variant="ghost" size="sm" onClick={onBack} className="mr-4 hover:bg-primary/10">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <Shield className="w-6 h-6 text-primary mr-2" />
+          <div className="flex-1">
+            <h1 className="text-xl">मेरी सुरक्षा योजना / My Safety Plan</h1>
+            <p className="text-xs text-muted-foreground">
+              Saved on this device, so it works even without internet
+            </p>
+          </div>
+          <Button variant="outline" size="sm" className="mr-2" onClick={() => safetyPlanService.printPlan(plan)}>
+            <Printer className="w-4 h-4 mr-1" />
+            Print
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !hasChanges}>
+            <Save className="w-4 h-4 mr-1" />
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+
+        {/* Completion */}
+        <Card className="p-4 mb-6 bg-card border-primary/20">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span>Plan completeness</span>
+            <span>{Math.round(safetyPlanService.getCompletion(plan) * 100)}%</span>
+          </div>
+          <Progress value={safetyPlanService.getCompletion(plan) * 100} />
+        </Card>
+
+        {/* Sections */}
+        <div className="space-y-4">
+          {SAFETY_PLAN_SECTIONS.map((section, index) => (
+            <Card key={section.key} className="p-4 bg-card border-primary/20">
+              <h2 className="font-medium mb-1">{index + 1}. {section.title}</h2>
+              <p className="text-xs text-muted-foreground mb-3">{section.prompt}</p>
+
+              {section.key === 'copingStrategies' && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {COPING_SUGGESTIONS.filter(suggestion => !plan.copingStrategies.includes(suggestion)).map(suggestion => (
+                    <Badge
+                      key={suggestion}
+                      variant="secondary"
+                      className="cursor-pointer"
+                      onClick={() => addListItem('copingStrategies', suggestion)}
+                    >
+                      + {suggestion}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {renderSection(section.key)}
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SafetyPlanScreen;
@@ -4,6 +4,7 @@ import { Card } from './ui/card';
 import { Progress } from './ui/progress';
 import { ArrowLeft, Brain, Moon, Heart, Zap, Activity, AlertTriangle, Smile } from 'lucide-react';
 import type { Screen, UserData } from '../types';
+import { PHQ9, GAD7, describeScore } from '../utils/screeningInstruments';
 
 interface StatsScreenProps {
   navigateTo: (screen: Screen) => void;
@@ -38,8 +39,8 @@ export function StatsScreen({ navigateTo, userData }: StatsScreenProps) {
   ];
 
   const clinicalMetrics = [
-    { name: 'PHQ-9', value: userData.metrics.phq9, icon: AlertTriangle, description: 'Depression screening' },
-    { name: 'GAD-7', value: userData.metrics.gad7, icon: Smile, description: 'Anxiety screening' },
+    { instrument: PHQ9, value: userData.metrics.phq9, icon: AlertTriangle },
+    { instrument: GAD7, value: userData.metrics.gad7, icon: Smile },
   ];
 
   return (
@@ -109,11 +110,9 @@ export function StatsScreen({ navigateTo, userData }: StatsScreenProps) {
           <h2 className="text-lg font-medium">Clinical Assessments</h2>
           {clinicalMetrics.map((metric, index) => {
             const IconComponent = metric.icon;
-            const severity = metric.value <= 4 ? 'Minimal' : 
-                           metric.value <= 9 ? 'Mild' :
-                           metric.value <= 14 ? 'Moderate' : 'Severe';
-            const severityColor = metric.value <= 4 ? 'text-emerald-500' :
-                                 metric.value <= 9 ? 'text-orange-400' : 'text-rose-400';
+            const score = describeScore(metric.instrument, metric.value);
+            const severityColor = score.severity === 'minimal' ? 'text-emerald-500' :
+                                 score.severity === 'mild' ? 'text-orange-400' : 'text-rose-400';
             
             return (
               <Card key={index} className="p-4 bg-card border-primary/20">
@@ -123,13 +122,13 @@ export function StatsScreen({ navigateTo, userData }: StatsScreenProps) {
                       <IconComponent className="w-4 h-4 text-primary" />
                     </div>
                     <div>
-                      <span className="font-medium">{metric.name}</span>
-                      <p className="text-sm text-muted-foreground">{metric.description}</p>
+                      <span className="font-medium">{score.name}</span>
+                      <p className="text-sm text-muted-foreground">{score.description}</p>
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="font-medium">{metric.value}/21</div>
-                    <div className={`text-sm ${severityColor}`}>{severity}</div>
+                    <div className="font-medium">{metric.value}/{score.maxScore}</div>
+                    <div className={`text-sm ${severityColor}`}>{score.label}</div>
                   </div>
                 </div>
               </Card>
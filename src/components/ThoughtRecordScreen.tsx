@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Slider } from './ui/slider';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { ArrowLeft, NotebookPen, Save, Trash2, History } from 'lucide-react';
+import { thoughtRecords, type ThoughtRecord } from '../services/thoughtRecords';
+import {
+  COGNITIVE_DISTORTIONS,
+  EMOTION_OPTIONS,
+  THOUGHT_RECORD_STEPS,
+  emptyThoughtRecord,
+  getDistortion,
+  isStepComplete,
+  type DistortionId,
+  type ThoughtRecordDraft
+} from '../utils/thoughtRecord';
+
+interface ThoughtRecordScreenProps {
+  userId: string;
+  // Prefilled from the chat when the companion launched the record
+  initialDraft?: ThoughtRecordDraft;
+  sessionId?: string;
+  onBack?: () => void;
+}
+
+export function ThoughtRecordScreen({ userId, initialDraft, sessionId, onBack }: ThoughtRecordScreenProps) {
+  const [draft, setDraft] = useState<ThoughtRecordDraft>(initialDraft || emptyThoughtRecord());
+  const [stepIndex, setStepIndex] = useState(0);
+  const [history, setHistory] = useState<ThoughtRecord[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = async () => {
+    setHistory(await thoughtRecords.getRecords(userId));
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [userId]);
+
+  useEffect(() => {
+    if (initialDraft) {
+      setDraft(initialDraft);
+      setStepIndex(0);
+    }
+  }, [initialDraft]);
+
+  const step = THOUGHT_RECORD_STEPS[stepIndex];
+  const isLastStep = stepIndex === THOUGHT_RECORD_STEPS.length - 1;
+  const update = (changes: Partial<ThoughtRecordDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleDistortion = (id: DistortionId) => {
+    update({
+      distortions: draft.distortions.includes(id)
+        ? draft.distortions.filter(item => item !== id)
+        : [...draft.distortions, id]
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await thoughtRecords.saveRecord(userId, draft, sessionId);
+      toast.success(`सहेजा गया / Saved. The feeling went from ${draft.emotionIntensity} to ${draft.rerating}.`);
+      setDraft(emptyThoughtRecord());
+      setStepIndex(0);
+      await refresh();
+    } catch (error) {
+      console.error('Error saving thought record:', error);
+      toast.error('Could not save the thought record. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (record: ThoughtRecord) => {
+    await thoughtRecords.deleteRecord(record.id);
+    await refresh();
+  };
+
+  const renderStep = () => {
+    switch (step.key) {
+      case 'situation':
+        return (
+          <Textarea
+            value={draft.situation}
+            onChange={(e) => update({ situation: e.target.value })}
+            placeholder="e.g. Sunday evening, revising for Monday's exam"
+          />
+        );
+      case 'automaticThought':
+        return (
+          <Textarea
+            value={draft.automaticThought}
+            onChange={(e) => update({ automaticThought: e.target.value })}
+            placeholder="e.g. I am going to fail and let everyone down"
+          />
+        );
+      case 'emotion':
+        return (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {EMOTION_OPTIONS.map(option => (
+                <Badge
+                  key={option}
+                  variant={draft.emotion === option ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => update({ emotion: option })}
+                >
+                  {option}
+                </Badge>
+              ))}
+            </div>
+            <Input
+              value={draft.emotion}
+              onChange={(e) => update({ emotion: e.target.value })}
+              placeholder="Or describe it in your own words"
+            />
+            <div>
+              <p className="text-sm mb-2">तीव्रता / Intensity: {draft.emotionIntensity}</p>
+              <Slider
+                value={[draft.emotionIntensity]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([value]) => update({ emotionIntensity: value })}
+              />
+            </div>
+          </div>
+        );
+      case 'distortions':
+        return (
+          <div className="space-y-2">
+            {COGNITIVE_DISTORTIONS.map(distortion => (
+              <button
+                key={distortion.id}
+                type="button"
+                onClick={() => toggleDistortion(distortion.id)}
+                className={`w-full text-left p-3 rounded-md border text-sm ${draft.distortions.includes(distortion.id) ? 'border-primary bg-primary/10' : 'border-border'}`}
+              >
+                <p className="font-medium">{distortion.label}</p>
+                <p className="text-xs text-muted-foreground">{distortion.description} “{distortion.example}”</p>
+              </button>
+            ))}
+          </div>
+        );
+      case 'evidence':
+        return (
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm mb-1">पक्ष में / Evidence for the thought</p>
+              <Textarea value={draft.evidenceFor} onChange={(e) => update({ evidenceFor: e.target.value })} />
+            </div>
+            <div>
+              <p className="text-sm mb-1">विपक्ष में / Evidence against the thought</p>
+              <Textarea value={draft.evidenceAgainst} onChange={(e) => update({ evidenceAgainst: e.target.value })} />
+            </div>
+          </div>
+        );
+      case 'balancedThought':
+        return (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Original thought: “{draft.automaticThought}”</p>
+            <Textarea
+              value={draft.balancedThought}
+              onChange={(e) => update({ balancedThought: e.target.value })}
+              placeholder="e.g. I have prepared for most chapters; one exam does not decide my whole future"
+            />
+          </div>
+        );
+      case 'rerating':
+        return (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {draft.emotion || 'The feeling'}: {draft.emotionIntensity} → {draft.rerating}
+            </p>
+            <Slider
+              value={[draft.rerating]}
+              min={0}
+              max={100}
+              step={5}
+              onValueChange={([value]) => update({ rerating: value })}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          {onBack && (
+            <Button variant="ghost" size="sm" onClick={onBack} className="mr-4 hover:bg-primary/10">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <NotebookPen className="w-6 h-6 text-primary mr-2" />
+          <div className="flex-1">
+            <h1 className="text-xl">विचार रिकॉर्ड / Thought record</h1>
+            <p className="text-xs text-muted-foreground">
+              Slow a painful thought down, check it against the evidence and find a fairer way to see it.
+            </p>
+          </div>
+        </div>
+
+        {/* Wizard */}
+        <Card className="p-4 mb-6 bg-card border-primary/20">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="font-medium">{stepIndex + 1}. {step.title}</h2>
+            <span className="text-xs text-muted-foreground">{stepIndex + 1} / {THOUGHT_RECORD_STEPS.length}</span>
+          </div>
+          <Progress value={((stepIndex + 1) / THOUGHT_RECORD_STEPS.length) * 100} className="mb-3" />
+          <p className="text-sm text-muted-foreground mb-3">{step.prompt}</p>
+          {renderStep()}
+          <div className="flex justify-between mt-4">
+            <Button variant="outline" size="sm" disabled={stepIndex === 0} onClick={() => setStepIndex(stepIndex - 1)}>
+              पीछे / Back
+            </Button>
+            {isLastStep ? (
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                <Save className="w-4 h-4 mr-1" />
+                सहेजें / Save
+              </Button>
+            ) : (
+              <Button size="sm" disabled={!isStepComplete(step.key, draft)} onClick={() => setStepIndex(stepIndex + 1)}>
+                आगे / Next
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {/* History */}
+        <Card className="p-4 bg-card border-primary/20">
+          <h2 className="font-medium mb-3 flex items-center">
+            <History className="w-4 h-4 mr-2" />
+            पिछले रिकॉर्ड / Past records
+          </h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No thought records yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {history.map(record => (
+                <div key={record.id} className="flex items-start justify-between text-sm border-b pb-3 last:border-b-0">
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      {record.createdAt.toLocaleString()} · {record.emotion} {record.emotionIntensity} → {record.rerating}
+                    </p>
+                    <p>“{record.automaticThought}”</p>
+                    {record.balancedThought && <p className="text-primary">→ {record.balancedThought}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {record.distortions.map(id => (
+                        <Badge key={id} variant="outline" className="text-xs">{getDistortion(id)?.label || id}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(record)} title="हटाएँ / Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default ThoughtRecordScreen;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog';
+import { Phone } from 'lucide-react';
+import { trustedContactsService, type ContactAlert, type TrustedContact } from '../services/trustedContacts';
+import { CRISIS_HELPLINES } from '../utils/helplines';
+import type { RiskLevel } from '../types';
+
+interface TrustedContactAlertDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  userName: string;
+  riskLevel: RiskLevel;
+  onManageContacts?: () => void;
+}
+
+// Shows exactly what will be sent and to whom; the alert only goes out from the confirm button
+export function TrustedContactAlertDialog({
+  open,
+  onOpenChange,
+  userId,
+  userName,
+  riskLevel,
+  onManageContacts
+}: TrustedContactAlertDialogProps) {
+  const [contacts, setContacts] = useState<TrustedContact[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [personalNote, setPersonalNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  // Alerts that did not reach the contact; the dialog stays open with a call button for each
+  const [unreached, setUnreached] = useState<Pick<ContactAlert, 'contactId' | 'contactName'>[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setUnreached([]);
+
+    trustedContactsService.getAlertableContacts(userId)
+      .then(alertable => {
+        setContacts(alertable);
+        setSelectedIds(alertable.map(contact => contact.id));
+      })
+      .catch(error => console.error('Error loading trusted contacts:', error));
+  }, [open, userId]);
+
+  const preview = trustedContactsService.buildAlertMessage(userName, personalNote);
+  const teleManas = CRISIS_HELPLINES.find(helpline => helpline.number === '14416');
+  const phoneFor = (contactId: string) => contacts.find(contact => contact.id === contactId)?.phone;
+
+  const toggleContact = (contactId: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, contactId] : selectedIds.filter(id => id !== contactId));
+  };
+
+  const handleConfirm = async () => {
+    setIsSending(true);
+    try {
+      const alerts = await trustedContactsService.sendAlerts({
+        userId,
+        userName,
+        contactIds: selectedIds,
+        riskLevel,
+        confirmed: true,
+        personalNote
+      });
+      const sent = alerts.filter(alert => alert.status === 'sent');
+      const failed = alerts.filter(alert => alert.status !== 'sent');
+
+      if (sent.length > 0) {
+        toast.success(`${sent.map(alert => alert.contactName).join(', ')} को बता दिया गया / has been alerted`);
+      }
+      if (failed.length === 0) {
+        onOpenChange(false);
+      } else {
+        setUnreached(failed);
+      }
+    } catch (error) {
+      console.error('Error sending trusted contact alerts:', error);
+      setUnreached(contacts
+        .filter(contact => selectedIds.includes(contact.id))
+        .map(contact => ({ contactId: contact.id, contactName: contact.name })));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>भरोसेमंद व्यक्ति को बताएं / Alert a trusted contact</DialogTitle>
+          <DialogDescription>
+            Nothing is sent until you press "Yes, send alert".
+          </DialogDescription>
+        </DialogHeader>
+
+        {unreached.length > 0 ? (
+          <div className="text-sm space-y-3">
+            <p className="text-red-700">
+              संदेश नहीं पहुँच सका / The alert did not reach {unreached.map(alert => alert.contactName).join(', ')}. Please call them now.
+            </p>
+            {unreached.map(alert => {
+              const phone = phoneFor(alert.contactId);
+              return phone ? (
+                <Button key={alert.contactId} asChild variant="outline" className="w-full border-red-300 text-red-700 hover:bg-red-100">
+                  <a href={`tel:${phone.replace(/\s/g, '')}`}>
+                    <Phone className="w-4 h-4 mr-2" />
+                    {alert.contactName} को call करें / Call {alert.contactName}
+                  </a>
+                </Button>
+              ) : (
+                <p key={alert.contactId} className="text-muted-foreground">
+                  {alert.contactName}: no phone number saved. Please reach them another way.
+                </p>
+              );
+            })}
+            {teleManas && (
+              <Button asChild variant="outline" className="w-full">
+                <a href={`tel:${teleManas.number}`}>
+                  <Phone className="w-4 h-4 mr-2" />
+                  {teleManas.name}: {teleManas.number}
+                </a>
+              </Button>
+            )}
+          </div>
+        ) : contacts.length === 0 ? (
+          <div className="text-sm space-y-3">
+            <p>
+              आपने अभी तक किसी की सहमति दर्ज नहीं की है / You have no trusted contacts who have agreed to receive alerts yet.
+            </p>
+            {onManageContacts && (
+              <Button variant="outline" size="sm" onClick={onManageContacts}>
+                Add trusted contacts
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="space-y-2">
+              {contacts.map(contact => (
+                <label key={contact.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    checked={selectedIds.includes(contact.id)}
+                    onCheckedChange={(checked: boolean) => toggleContact(contact.id, checked === true)}
+                  />
+                  <span className="font-medium">{contact.name}</span>
+                  <span className="text-muted-foreground">
+                    {contact.channel === 'sms' ? `SMS ${contact.phone}` : contact.email}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Textarea
+              placeholder="Add a personal note (optional)"
+              value={personalNote}
+              onChange={(e) => setPersonalNote(e.target.value)}
+            />
+            <div className="bg-muted rounded-md p-3 max-h-48 overflow-auto whitespace-pre-wrap text-xs">
+              <p className="font-medium mb-1">{preview.subject}</p>
+              {preview.body}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {unreached.length > 0 ? 'बंद करें / Close' : 'रद्द करें / Cancel'}
+          </Button>
+          {contacts.length > 0 && unreached.length === 0 && (
+            <Button
+              onClick={handleConfirm}
+              disabled={isSending || selectedIds.length === 0}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isSending ? 'Sending...' : 'हाँ, भेजें / Yes, send alert'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TrustedContactAlertDialog;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { ArrowLeft, Users, Plus, Trash2, Mail, MessageSquare, History } from 'lucide-react';
+import {
+  trustedContactsService,
+  type TrustedContact,
+  type TrustedContactInput,
+  type ContactAlert,
+  type ContactChannel
+} from '../services/trustedContacts';
+
+interface TrustedContactsScreenProps {
+  userId: string;
+  onBack?: () => void;
+}
+
+const EMPTY_CONTACT = { name: '', relationship: '', phone: '', email: '', channel: 'sms' as ContactChannel };
+
+const ALERT_STATUS_STYLES: Record<ContactAlert['status'], string> = {
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  blocked: 'bg-gray-100 text-gray-700'
+};
+
+export function TrustedContactsScreen({ userId, onBack }: TrustedContactsScreenProps) {
+  const [contacts, setContacts] = useState<TrustedContact[]>([]);
+  const [alerts, setAlerts] = useState<ContactAlert[]>([]);
+  const [draft, setDraft] = useState(EMPTY_CONTACT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = async () => {
+    const [savedContacts, history] = await Promise.all([
+      trustedContactsService.getContacts(userId),
+      trustedContactsService.getAlertHistory(userId)
+    ]);
+    setContacts(savedContacts);
+    setAlerts(history);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [userId]);
+
+  const draftInput: TrustedContactInput = {
+    userId,
+    name: draft.name,
+    relationship: draft.relationship || undefined,
+    phone: draft.phone || undefined,
+    email: draft.email || undefined,
+    channel: draft.channel
+  };
+  const draftProblems = draft.name ? trustedContactsService.validate(draftInput) : [];
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    try {
+      await trustedContactsService.saveContact(draftInput);
+      setDraft(EMPTY_CONTACT);
+      await refresh();
+      toast.success('Contact added. Ask them first, then turn on alerts.');
+    } catch (error) {
+      console.error('Error saving trusted contact:', error);
+      toast.error('Could not save this contact.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConsent = async (contact: TrustedContact, granted: boolean) => {
+    await trustedContactsService.setConsent(contact.id, granted);
+    await refresh();
+  };
+
+  const handleRemove = async (contact: TrustedContact) => {
+    await trustedContactsService.removeContact(contact.id);
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6">
+          {onBack && (
+            <Button variant="ghost" size="sm" onClick={onBack} className="mr-4 hover:bg-primary/10">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <Users className="w-6 h-6 text-primary mr-2" />
+          <div className="flex-1">
+            <h1 className="text-xl">भरोसेमंद लोग / Trusted Contacts</h1>
+            <p className="text-xs text-muted-foreground">
+              MannMitra only alerts someone after they have agreed and you confirm, every single time
+            </p>
+          </div>
+        </div>
+
+        {/* Contacts */}
+        <div className="space-y-3 mb-6">
+          {contacts.length === 0 && (
+            <Card className="p-4 text-sm text-muted-foreground">
+              अभी कोई contact नहीं / No trusted contacts yet. Add someone you would want by your side in a hard moment.
+            </Card>
+          )}
+          {contacts.map(contact => (
+            <Card key={contact.id} className="p-4 bg-card border-primary/20">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium">
+                    {contact.name}
+                    {contact.relationship && <span className="text-sm text-muted-foreground"> · {contact.relationship}</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground flex items-center mt-1">
+                    {contact.channel === 'sms' ? <MessageSquare className="w-4 h-4 mr-1" /> : <Mail className="w-4 h-4 mr-1" />}
+                    {contact.channel === 'sms' ? contact.phone : contact.email}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(contact)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex items-center space-x-2 mt-3 text-sm">
+                <Switch
+                  checked={contact.consent.granted}
+                  onCheckedChange={(checked: boolean) => handleConsent(contact, checked)}
+                />
+                <span>
+                  {contact.consent.granted
+                    ? `सहमति दी / Agreed to crisis alerts (${contact.consent.grantedAt?.toLocaleDateString()})`
+                    : 'I have asked them and they agreed to receive crisis alerts'}
+                </span>
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Add contact */}
+        <Card className="p-4 mb-6 bg-card border-primary/20">
+          <h2 className="font-medium mb-3">व्यक्ति जोड़ें / Add a person</h2>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <Input placeholder="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <Input
+              placeholder="Relationship"
+              value={draft.relationship}
+              onChange={(e) => setDraft({ ...draft, relationship: e.target.value })}
+            />
+            <Input
+              placeholder="Phone (+91...)"
+              type="tel"
+              value={draft.phone}
+              onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+            />
+            <Input
+              placeholder="Email"
+              type="email"
+              value={draft.email}
+              onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+            />
+          </div>
+          <div className="flex items-center space-x-2 mb-3 text-sm">
+            <span>Alert by:</span>
+            {(['sms', 'email'] as ContactChannel[]).map(channel => (
+              <Button
+                key={channel}
+                variant={draft.channel === channel ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setDraft({ ...draft, channel })}
+              >
+                {channel === 'sms' ? 'SMS' : 'Email'}
+              </Button>
+            ))}
+          </div>
+          {draftProblems.length > 0 && (
+            <p className="text-xs text-red-600 mb-2">{draftProblems.join(', ')}</p>
+          )}
+          <Button size="sm" onClick={handleAdd} disabled={isSaving || !draft.name || draftProblems.length > 0}>
+            <Plus className="w-4 h-4 mr-1" />
+            जोड़ें / Add
+          </Button>
+        </Card>
+
+        {/* Audit trail */}
+        <Card className="p-4 bg-card border-primary/20">
+          <h2 className="font-medium mb-3 flex items-center">
+            <History className="w-4 h-4 mr-2" />
+            भेजे गए alerts / Alerts sent
+          </h2>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alerts have been sent.</p>
+          ) : (
+            <div className="space-y-2">
+              {alerts.map(alert => (
+                <div key={alert.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {alert.attemptedAt.toLocaleString()} · {alert.contactName} ({alert.notifier})
+                  </span>
+                  <span className={`px-2 py-0.5 rounded text-xs ${ALERT_STATUS_STYLES[alert.status]}`}>
+                    {alert.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default TrustedContactsScreen;
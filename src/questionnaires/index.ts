@@ -0,0 +1,27 @@
+// Questionnaire registry for MannMitra
+// Instruments are plain JSON definitions, so adding WHO-5 or ISI only needs a new file registered here
+
+import type { QuestionnaireDefinition } from '../utils/questionnaire';
+import { validateQuestionnaire } from '../utils/questionnaire';
+import phq9 from './phq9.json';
+import gad7 from './gad7.json';
+import pss10 from './pss10.json';
+import onboarding from './onboarding.json';
+
+export const QUESTIONNAIRES: Record<string, QuestionnaireDefinition> = {
+  phq9: phq9 as QuestionnaireDefinition,
+  gad7: gad7 as QuestionnaireDefinition,
+  pss10: pss10 as QuestionnaireDefinition,
+  onboarding: onboarding as QuestionnaireDefinition
+};
+
+Object.values(QUESTIONNAIRES).forEach(definition => {
+  const problems = validateQuestionnaire(definition);
+  if (problems.length > 0) {
+    console.error(`Questionnaire ${definition.id} is invalid:`, problems);
+  }
+});
+
+export function getQuestionnaire(id: string): QuestionnaireDefinition | undefined {
+  return QUESTIONNAIRES[id];
+}
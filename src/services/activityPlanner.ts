@@ -0,0 +1,130 @@
+// Activity Planner for MannMitra
+// Behavioral activation: activities scheduled through the week, with predicted and actual mood and completion tracking
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import {
+  activationSummary,
+  startOfWeek,
+  type ActivationSummary,
+  type ActivityKind,
+  type PlannedActivityOutcome
+} from '../utils/behavioralActivation';
+
+const SCHEDULED_ACTIVITIES = 'scheduledActivities';
+
+export interface ActivityInput {
+  // Library id, see utils/behavioralActivation; absent for activities the user wrote themselves
+  activityId?: string;
+  name: string;
+  kind: ActivityKind;
+}
+
+export interface ScheduledActivity extends ActivityInput, PlannedActivityOutcome {
+  id: string;
+  userId: string;
+  completedAt?: Date;
+  // 'chat' when the companion scheduled it from a suggestion
+  source: 'planner' | 'chat';
+  sessionId?: string;
+  createdAt: Date;
+}
+
+function clampMood(mood: number): number {
+  return Math.min(10, Math.max(1, Math.round(mood)));
+}
+
+export class ActivityPlannerService {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = storageAdapter) {
+    this.storage = storage;
+  }
+
+  async scheduleActivity(
+    userId: string,
+    activity: ActivityInput,
+    scheduledFor: Date,
+    predictedMood: number,
+    options: { source?: ScheduledActivity['source']; sessionId?: string } = {}
+  ): Promise<ScheduledActivity> {
+    const now = new Date();
+    const scheduled: ScheduledActivity = {
+      id: `activity_${userId}_${now.getTime()}_${Math.random().toString(36).substr(2, 6)}`,
+      userId,
+      activityId: activity.activityId,
+      name: activity.name.trim(),
+      kind: activity.kind,
+      scheduledFor,
+      predictedMood: clampMood(predictedMood),
+      status: 'planned',
+      source: options.source || 'planner',
+      sessionId: options.sessionId,
+      createdAt: now
+    };
+
+    await this.storage.set(SCHEDULED_ACTIVITIES, scheduled.id, scheduled);
+    console.log(`📅 Activity "${scheduled.name}" scheduled for ${scheduledFor.toDateString()}`);
+    return scheduled;
+  }
+
+  // Soonest first; only activities scheduled in [from, to) when a range is given
+  async getActivities(userId: string, range: { from?: Date; to?: Date } = {}): Promise<ScheduledActivity[]> {
+    try {
+      const activities = await this.storage.list<ScheduledActivity>(SCHEDULED_ACTIVITIES);
+      return activities
+        .filter(activity => activity.userId === userId)
+        .filter(activity => !range.from || activity.scheduledFor.getTime() >= range.from.getTime())
+        .filter(activity => !range.to || activity.scheduledFor.getTime() < range.to.getTime())
+        .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+    } catch (error) {
+      console.error('Error loading scheduled activities:', error);
+      return [];
+    }
+  }
+
+  async getWeek(userId: string, date: Date = new Date()): Promise<ScheduledActivity[]> {
+    const from = startOfWeek(date);
+    const to = new Date(from);
+    to.setDate(from.getDate() + 7);
+    return this.getActivities(userId, { from, to });
+  }
+
+  async completeActivity(activityId: string, actualMood: number): Promise<ScheduledActivity | undefined> {
+    return this.update(activityId, { status: 'done', actualMood: clampMood(actualMood), completedAt: new Date() });
+  }
+
+  async skipActivity(activityId: string): Promise<ScheduledActivity | undefined> {
+    return this.update(activityId, { status: 'skipped', actualMood: undefined, completedAt: undefined });
+  }
+
+  async deleteActivity(activityId: string): Promise<void> {
+    await this.storage.delete(SCHEDULED_ACTIVITIES, activityId);
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    const activities = await this.getActivities(userId);
+    await Promise.all(activities.map(activity => this.storage.delete(SCHEDULED_ACTIVITIES, activity.id)));
+  }
+
+  // Over activities scheduled since `since`, or all of them
+  async getSummary(userId: string, since?: Date, now: Date = new Date()): Promise<ActivationSummary> {
+    return activationSummary(await this.getActivities(userId, { from: since }), now);
+  }
+
+  private async update(activityId: string, changes: Partial<ScheduledActivity>): Promise<ScheduledActivity | undefined> {
+    const activity = await this.storage.get<ScheduledActivity>(SCHEDULED_ACTIVITIES, activityId);
+    if (!activity) {
+      return undefined;
+    }
+
+    const updated: ScheduledActivity = { ...activity, ...changes };
+    await this.storage.set(SCHEDULED_ACTIVITIES, activityId, updated);
+    if (updated.status === 'done') {
+      console.log(`✅ Activity "${updated.name}" done (mood ${updated.predictedMood} expected, ${updated.actualMood} felt)`);
+    }
+    return updated;
+  }
+}
+
+// Export singleton instance
+export const activityPlanner = new ActivityPlannerService();
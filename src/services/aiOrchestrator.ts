@@ -1,13 +1,61 @@
 // AI Orchestrator - Coordinates all AI services for comprehensive mental health support
 // Integrates emotion detection, voice analysis, cultural context, and therapeutic interventions
 
-import { geminiAI } from './geminiAI';
+import { llmRegistry } from './llmProviders';
+import type { LLMRegistry } from './llmProvider';
 import { emotionDetection } from './emotionDetection';
 import { voiceAnalysis } from './voiceAnalysis';
+import { riskAssessmentService } from './riskAssessment';
+import { safetyAuditLog, type SafetyAuditLog } from './safetyAuditLog';
+import { promptRegistry, type PromptRegistry, type PromptTemplateRef } from './promptRegistry';
+import { storageAdapter } from './storageAdapter';
+import { ConversationMemory } from './conversationMemory';
+import { interventionFeedback, type BlendedEffectiveness, type InterventionFeedbackService } from './interventionFeedback';
+import { TEXT_ANALYSIS_SCHEMA } from './responseSchemas';
+import { detectLanguage } from '../utils/hinglish';
+import { guardResponse } from '../utils/responseGuard';
+import { detectPromptInjection, injectionReply } from '../utils/promptSafety';
+import { redactForLLM, restorePII, type PrivacyContext } from '../utils/piiRedaction';
+import { parseStructuredOutput } from '../utils/structuredOutput';
+import { extractMemoryFacts } from '../utils/memoryExtraction';
+import { prefillThoughtRecord, type ThoughtRecordDraft } from '../utils/thoughtRecord';
+import { suggestActivities, type Activity } from '../utils/behavioralActivation';
+import {
+  THERAPEUTIC_PHASES,
+  closureHomework,
+  isClosingMessage,
+  measureEngagement,
+  nextPhase,
+  reportsImprovement,
+  type PhaseTransition,
+  type TherapeuticPhase
+} from '../utils/therapeuticPhases';
+import {
+  INTERVENTION_CATALOGUE,
+  getInterventionStrategy,
+  interventionsFromCoping,
+  scoreInterventions,
+  type InterventionSelection,
+  type InterventionStrategy,
+  type InterventionType
+} from '../utils/interventionCatalogue';
+import type { CrisisAssessment, RiskLevel, RiskSignal } from '../types';
+
+// Past this many turns the oldest are folded into the session's rolling summary, keeping the newest HISTORY_KEEP
+const HISTORY_LIMIT = 20;
+const HISTORY_KEEP = 10;
+
+// Negative primary emotions count as a disclosed concern even when no topic is named
+const EMOTION_CONCERNS: Record<string, string> = {
+  anxiety: 'Anxiety',
+  depression: 'Low mood',
+  stress: 'Stress',
+  anger: 'Anger'
+};
 
 export interface TherapeuticResponse {
   message: string;
-  interventionType: 'validation' | 'cognitive_restructuring' | 'mindfulness' | 'crisis_intervention' | 'psychoeducation' | 'behavioral_activation';
+  interventionType: InterventionType;
   culturalAdaptation: {
     language: 'hindi' | 'english' | 'mixed';
     culturalReferences: string[];
@@ -19,10 +67,11 @@ export interface TherapeuticResponse {
     copingStrategies: string[];
   };
   riskAssessment: {
-    level: 'none' | 'low' | 'moderate' | 'high' | 'severe';
+    level: RiskLevel;
     indicators: string[];
     immediateActions: string[];
     confidence?: number;
+    signals?: RiskSignal[];
   };
   followUp: {
     recommended: boolean;
@@ -34,6 +83,19 @@ export interface TherapeuticResponse {
     professional: string[];
     emergency: string[];
   };
+  // Template the reply was generated from; absent when it came from a fallback or the boundary reply
+  promptTemplate?: PromptTemplateRef;
+  // Phase the reply was written in, and the transition into it if this turn moved the conversation on
+  therapeuticPhase?: TherapeuticPhase;
+  phaseTransition?: PhaseTransition;
+  // How the intervention was chosen; absent when risk decided it
+  interventionSelection?: InterventionSelection;
+  // Technique from the chosen strategy, preferring the one this user rated best
+  technique?: string;
+  // Offered with cognitive restructuring so the user can work the thought through step by step, prefilled from the chat
+  thoughtRecord?: ThoughtRecordDraft;
+  // Offered with behavioral activation so the user can schedule one from the chat; the reply suggests the same ones
+  activitySuggestions?: Activity[];
 }
 
 export interface UserContext {
@@ -58,6 +120,8 @@ export interface UserContext {
     recentTriggers?: string[];
     copingStrategies?: string[];
   };
+  // From UserPreferences['interests']; seeds activity suggestions
+  interests?: string[];
 }
 
 export interface ConversationContext {
@@ -69,7 +133,15 @@ export interface ConversationContext {
     emotionalAnalysis?: any;
   }>;
   currentTopic?: string;
-  therapeuticPhase: 'rapport_building' | 'assessment' | 'intervention' | 'consolidation' | 'closure';
+  therapeuticPhase: TherapeuticPhase;
+  // Survives history folding, so phase criteria count the whole conversation
+  phaseProgress: {
+    userTurns: number;
+    turnsInPhase: number;
+    concerns: string[];
+    interventionsUsed: InterventionType[];
+    transitions: PhaseTransition[];
+  };
   culturalContext: {
     languagePreference: string;
     culturalSensitivities: string[];
@@ -77,12 +149,35 @@ export interface ConversationContext {
   };
 }
 
+// The closing step of a session: a summary for the user and practice until next time
+export interface SessionClosure {
+  summary?: string;
+  homework: string[];
+  transition?: PhaseTransition;
+}
+
 export class AIOrchestrator {
   private activeContexts: Map<string, ConversationContext> = new Map();
   private userProfiles: Map<string, UserContext> = new Map();
-  private interventionStrategies: Map<string, any> = new Map();
-
-  constructor() {
+  private interventionStrategies: Map<InterventionType, InterventionStrategy> = new Map();
+  private llm: LLMRegistry;
+  private audit: SafetyAuditLog;
+  private prompts: PromptRegistry;
+  private memory: ConversationMemory;
+  private feedback: InterventionFeedbackService;
+
+  constructor(
+    llm: LLMRegistry = llmRegistry,
+    audit: SafetyAuditLog = safetyAuditLog,
+    prompts: PromptRegistry = promptRegistry,
+    memory: ConversationMemory = new ConversationMemory(storageAdapter, llm, prompts),
+    feedback: InterventionFeedbackService = interventionFeedback
+  ) {
+    this.llm = llm;
+    this.audit = audit;
+    this.prompts = prompts;
+    this.memory = memory;
+    this.feedback = feedback;
     this.initializeInterventionStrategies();
     console.log('🧠 AI Orchestrator initialized');
   }
@@ -94,22 +189,38 @@ export class AIOrchestrator {
     context: {
       session?: any;
       emotionalAnalysis?: any;
-      riskAssessment?: any;
+      // Pass the session's assessment through so both services report the same level
+      riskAssessment?: CrisisAssessment;
       adaptations?: any[];
+      // From UserProfile['privacy']; personal details are redacted before any LLM call unless this is explicitly off
+      privacy?: PrivacyContext;
+      interests?: string[];
     } = {}
   ): Promise<TherapeuticResponse> {
     try {
       // Get or create user context
       const userContext = await this.getUserContext(userId);
+      if (context.interests) userContext.interests = context.interests;
       const conversationContext = await this.getConversationContext(context.session?.sessionId || 'default', userId);
 
       // Analyze user message comprehensively
-      const messageAnalysis = await this.analyzeUserMessage(userMessage, userContext, conversationContext);
+      const messageAnalysis = await this.analyzeUserMessage(
+        userMessage,
+        userContext,
+        conversationContext,
+        context.riskAssessment,
+        context.privacy
+      );
+
+      // Move the conversation through its phases before choosing what to do
+      const phaseTransition = this.advancePhase(conversationContext, userMessage, messageAnalysis);
 
       // Determine intervention strategy
       const interventionStrategy = await this.determineInterventionStrategy(
+        userMessage,
         messageAnalysis,
         userContext,
+        conversationContext.therapeuticPhase,
         context.riskAssessment
       );
 
@@ -119,16 +230,29 @@ export class AIOrchestrator {
         messageAnalysis,
         interventionStrategy,
         userContext,
-        conversationContext
+        conversationContext,
+        context.privacy
       );
+      response.phaseTransition = phaseTransition;
 
-      // Update conversation context
-      this.updateConversationContext(conversationContext, userMessage, response, messageAnalysis);
+      // Update conversation context and long-term memory
+      await this.updateConversationContext(
+        conversationContext,
+        userId,
+        userMessage,
+        response,
+        messageAnalysis,
+        context.privacy
+      );
 
       return response;
     } catch (error) {
       console.error('AI Orchestrator error:', error);
-      return this.generateFallbackResponse(userMessage, userId);
+      return this.generateFallbackResponse(
+        userMessage,
+        userId,
+        context.riskAssessment || await this.assessRiskFactors(userMessage, userId)
+      );
     }
   }
 
@@ -136,7 +260,9 @@ export class AIOrchestrator {
   private async analyzeUserMessage(
     message: string,
     userContext: UserContext,
-    conversationContext: ConversationContext
+    conversationContext: ConversationContext,
+    riskAssessment?: CrisisAssessment,
+    privacy?: PrivacyContext
   ): Promise<any> {
     const analysis = {
       textAnalysis: {},
@@ -147,8 +273,8 @@ export class AIOrchestrator {
     };
 
     try {
-      // Basic text analysis using Gemini
-      analysis.textAnalysis = await this.analyzeTextContent(message);
+      // Basic text analysis using the LLM
+      analysis.textAnalysis = await this.analyzeTextContent(message, privacy);
 
       // Emotional analysis
       analysis.emotionalAnalysis = await this.analyzeEmotionalContent(message);
@@ -157,7 +283,8 @@ export class AIOrchestrator {
       analysis.culturalAnalysis = await this.analyzeCulturalContext(message, userContext);
 
       // Risk assessment
-      analysis.riskAnalysis = await this.assessRiskFactors(message, userContext, conversationContext);
+      analysis.riskAnalysis = riskAssessment ||
+        await this.assessRiskFactors(message, userContext.userId, userContext.mentalHealthHistory.riskFactors);
 
       // Identify therapeutic needs
       analysis.therapeuticNeeds = await this.identifyTherapeuticNeeds(message, analysis);
@@ -169,28 +296,21 @@ export class AIOrchestrator {
     }
   }
 
-  private async analyzeTextContent(message: string): Promise<any> {
+  private async analyzeTextContent(message: string, privacy?: PrivacyContext): Promise<any> {
     try {
-      const prompt = `
-        Analyze this message for therapeutic insights:
-        "${message}"
-        
-        Provide analysis for:
-        1. Main themes and concerns
-        2. Emotional indicators
-        3. Cognitive patterns
-        4. Behavioral indicators
-        5. Strengths and resources mentioned
-        
-        Format as JSON with clear categories.
-      `;
-
-      const response = await geminiAI.generateResponse(prompt, {
+      const [safeMessage] = redactForLLM([message], privacy).texts;
+      const prompt = this.prompts.render('orchestrator.text_analysis', { message: safeMessage });
+
+      const response = await this.llm.generate(prompt.text, {
         temperature: 0.3,
         maxTokens: 500
       });
 
-      return JSON.parse(response || '{}');
+      const analysis = parseStructuredOutput(response, TEXT_ANALYSIS_SCHEMA);
+      if (analysis.repaired) {
+        console.warn('🔧 Text analysis JSON needed repair before it validated');
+      }
+      return analysis.value;
     } catch (error) {
       console.error('Text analysis error:', error);
       return {
@@ -266,63 +386,11 @@ export class AIOrchestrator {
     return culturalContext;
   }
 
-  private async assessRiskFactors(
-    message: string,
-    userContext: UserContext,
-    conversationContext: ConversationContext
-  ): Promise<any> {
-    const riskIndicators = {
-      suicidalIdeation: ['suicide', 'kill myself', 'end it all', 'आत्महत्या', 'मरना चाहता'],
-      selfHarm: ['hurt myself', 'cut', 'harm', 'खुद को नुकसान'],
-      hopelessness: ['no hope', 'pointless', 'no future', 'कोई उम्मीद नहीं', 'बेकार'],
-      isolation: ['alone', 'no one', 'lonely', 'अकेला', 'कोई नहीं'],
-      substanceUse: ['drink', 'drugs', 'alcohol', 'शराब', 'नशा']
-    };
-
-    const protectiveFactors = {
-      socialSupport: ['friends', 'family', 'support', 'दोस्त', 'परिवार', 'सहारा'],
-      copingStrategies: ['meditation', 'exercise', 'music', 'ध्यान', 'व्यायाम'],
-      futureOrientation: ['future', 'goals', 'dreams', 'भविष्य', 'सपने'],
-      helpSeeking: ['help', 'therapy', 'counseling', 'मदद', 'सलाह']
-    };
-
-    const lowerMessage = message.toLowerCase();
-    const riskAssessment = {
-      level: 'none' as 'none' | 'low' | 'moderate' | 'high' | 'severe',
-      indicators: [] as string[],
-      protectiveFactors: [] as string[],
-      immediateIntervention: false
-    };
-
-    // Check for risk indicators
-    Object.entries(riskIndicators).forEach(([risk, keywords]) => {
-      const matches = keywords.filter(keyword => lowerMessage.includes(keyword));
-      if (matches.length > 0) {
-        riskAssessment.indicators.push(risk);
-      }
-    });
-
-    // Check for protective factors
-    Object.entries(protectiveFactors).forEach(([factor, keywords]) => {
-      const matches = keywords.filter(keyword => lowerMessage.includes(keyword));
-      if (matches.length > 0) {
-        riskAssessment.protectiveFactors.push(factor);
-      }
-    });
-
-    // Determine risk level
-    if (riskAssessment.indicators.includes('suicidalIdeation')) {
-      riskAssessment.level = 'severe';
-      riskAssessment.immediateIntervention = true;
-    } else if (riskAssessment.indicators.length >= 2) {
-      riskAssessment.level = 'high';
-    } else if (riskAssessment.indicators.length === 1) {
-      riskAssessment.level = 'moderate';
-    } else if (userContext.mentalHealthHistory.riskFactors.length > 0) {
-      riskAssessment.level = 'low';
-    }
-
-    return riskAssessment;
+  // Only used when no assessment was passed in, so the decision is audited here rather than by the caller
+  private async assessRiskFactors(message: string, userId: string, riskHistory: string[] = []): Promise<CrisisAssessment> {
+    const assessment = riskAssessmentService.assess(message, { riskHistory });
+    await this.audit.recordDecision(assessment, message, { source: 'orchestrator', userId });
+    return assessment;
   }
 
   private async identifyTherapeuticNeeds(message: string, analysis: any): Promise<string[]> {
@@ -356,8 +424,10 @@ export class AIOrchestrator {
   }
 
   private async determineInterventionStrategy(
+    userMessage: string,
     messageAnalysis: any,
     userContext: UserContext,
+    phase: TherapeuticPhase,
     riskAssessment?: any
   ): Promise<any> {
     // Crisis intervention takes priority
@@ -380,71 +450,128 @@ export class AIOrchestrator {
       };
     }
 
-    // Standard therapeutic interventions based on needs
-    const primaryNeeds = messageAnalysis.therapeuticNeeds;
-    let primaryIntervention = 'validation'; // Default
-
-    if (primaryNeeds.includes('anxiety_management')) {
-      primaryIntervention = 'mindfulness';
-    } else if (primaryNeeds.includes('mood_enhancement')) {
-      primaryIntervention = 'behavioral_activation';
-    } else if (primaryNeeds.includes('stress_management')) {
-      primaryIntervention = 'cognitive_restructuring';
-    }
+    // Otherwise every strategy the phase allows is scored against the message and what helped this user before,
+    // both what they told us and how they rated earlier replies
+    const effectiveness = await this.getEffectiveness(userContext.userId);
+    const selection = scoreInterventions({
+      message: userMessage,
+      primaryEmotion: messageAnalysis.emotionalAnalysis.primaryEmotion,
+      emotionIntensity: messageAnalysis.emotionalAnalysis.emotionIntensity || 0,
+      therapeuticNeeds: messageAnalysis.therapeuticNeeds,
+      culturalThemes: messageAnalysis.culturalAnalysis.culturalThemes || [],
+      cognitivePatterns: messageAnalysis.textAnalysis.cognitivePatterns || [],
+      riskLevel: messageAnalysis.riskAnalysis.level,
+      allowed: THERAPEUTIC_PHASES[phase].allowedInterventions,
+      helpedBefore: interventionsFromCoping(userContext.currentState.copingStrategies || []),
+      effectiveness: effectiveness.interventions
+    });
+    const technique = this.feedback.preferredTechnique(
+      this.interventionStrategies.get(selection.chosen.type)?.techniques || [],
+      effectiveness
+    );
+    console.log(`🎯 Intervention ${selection.chosen.type} (${selection.chosen.score.toFixed(2)}) over ${
+      selection.runnersUp.map(score => `${score.type} (${score.score.toFixed(2)})`).join(', ') || 'nothing else'
+    }`);
 
     return {
-      primary: primaryIntervention,
-      secondary: ['validation', 'psychoeducation'],
+      primary: selection.chosen.type,
+      secondary: selection.runnersUp.map(score => score.type),
       approach: 'collaborative',
-      urgency: 'standard'
+      urgency: 'standard',
+      selection,
+      technique
     };
   }
 
+  // Feedback only nudges selection, so a storage failure falls back to no feedback rather than failing the reply
+  private async getEffectiveness(userId: string): Promise<BlendedEffectiveness> {
+    try {
+      return await this.feedback.getBlendedEffectiveness(userId);
+    } catch (error) {
+      console.error('Intervention feedback error:', error);
+      return { interventions: {}, techniques: {} };
+    }
+  }
+
   private async generateCulturallyAdaptedResponse(
     userMessage: string,
     messageAnalysis: any,
     interventionStrategy: any,
     userContext: UserContext,
-    conversationContext: ConversationContext
+    conversationContext: ConversationContext,
+    privacy?: PrivacyContext
   ): Promise<TherapeuticResponse> {
+    // Remembered notes travel with the message, so both share one set of placeholders
+    const recalled = await this.memory.recall(userContext.userId, userMessage, { sessionId: conversationContext.sessionId });
+
+    // Personal details leave as placeholders and are restored in the reply
+    const redaction = redactForLLM([userMessage, recalled.text], privacy);
+
     // Build culturally sensitive prompt
     const culturalContext = messageAnalysis.culturalAnalysis;
     const languagePreference = culturalContext.languagePreference;
     const culturalThemes = culturalContext.culturalThemes;
 
-    let prompt = `
-      You are a culturally sensitive AI mental health companion for Indian users.
-      
-      User message: "${userMessage}"
-      
-      Context:
-      - Language preference: ${languagePreference}
-      - Cultural themes: ${culturalThemes.join(', ')}
-      - Primary emotion: ${messageAnalysis.emotionalAnalysis.primaryEmotion}
-      - Risk level: ${messageAnalysis.riskAnalysis.level}
-      - Intervention needed: ${interventionStrategy.primary}
-      
-      Guidelines:
-      1. Respond with empathy and cultural sensitivity
-      2. Use appropriate mix of Hindi/English if language is "mixed"
-      3. Acknowledge cultural context (family, society, academic pressure)
-      4. Provide practical, culturally relevant coping strategies
-      5. Be respectful of Indian values and traditions
-      6. Keep response concise but warm (2-3 paragraphs max)
-      
-      ${this.getInterventionGuidelines(interventionStrategy.primary)}
-      
-      Generate a therapeutic response that feels natural and supportive.
-    `;
+    // Library activities only, so nothing the user wrote reaches the prompt through them
+    const activitySuggestions = interventionStrategy.primary === 'behavioral_activation'
+      ? suggestActivities({
+        messages: [
+          ...conversationContext.conversationHistory.filter(entry => entry.role === 'user').map(entry => entry.content),
+          userMessage
+        ],
+        interests: userContext.interests
+      })
+      : undefined;
+
+    const prompt = this.prompts.render('orchestrator.therapeutic_response', {
+      message: redaction.texts[0],
+      culturalThemes,
+      primaryEmotion: messageAnalysis.emotionalAnalysis.primaryEmotion,
+      riskLevel: messageAnalysis.riskAnalysis.level,
+      intervention: interventionStrategy.primary,
+      interventionGuidelines: this.getInterventionGuidelines(interventionStrategy.primary, interventionStrategy.technique, activitySuggestions),
+      memory: redaction.texts[1] || undefined,
+      phase: THERAPEUTIC_PHASES[conversationContext.therapeuticPhase].label,
+      phaseGuidance: this.getPhaseGuidance(conversationContext)
+    }, { language: languagePreference });
+
+    // Risk was already assessed on the raw message; an override attempt only changes who writes the reply
+    const injection = detectPromptInjection(userMessage);
+    if (injection.verdict !== 'clean') {
+      await this.audit.recordInjectionAttempt(injection, userMessage, {
+        source: 'orchestrator',
+        userId: userContext.userId,
+        sessionId: conversationContext.sessionId,
+        level: messageAnalysis.riskAnalysis.level
+      });
+    }
 
     try {
-      const response = await geminiAI.generateResponse(prompt, {
-        temperature: 0.7,
-        maxTokens: 300
+      const fromTemplate = injection.verdict !== 'override';
+      const response = !fromTemplate
+        ? injectionReply(languagePreference, messageAnalysis.riskAnalysis.level)
+        : await this.llm.generate(prompt.text, {
+          temperature: 0.7,
+          maxTokens: 300
+        });
+
+      // Model text never reaches the user unchecked
+      const guarded = guardResponse(restorePII(response, redaction.entities) || this.getFallbackMessage(messageAnalysis), {
+        riskLevel: messageAnalysis.riskAnalysis.level,
+        language: languagePreference as 'english' | 'hindi' | 'mixed',
+        helplines: messageAnalysis.riskAnalysis.resources?.helplines
       });
+      if (guarded.action !== 'allow') {
+        await this.audit.recordGuardedResponse(guarded, {
+          source: 'orchestrator',
+          userId: userContext.userId,
+          sessionId: conversationContext.sessionId,
+          level: messageAnalysis.riskAnalysis.level
+        });
+      }
 
       return {
-        message: response || this.getFallbackMessage(messageAnalysis),
+        message: guarded.text,
         interventionType: interventionStrategy.primary,
         culturalAdaptation: {
           language: languagePreference,
@@ -459,7 +586,9 @@ export class AIOrchestrator {
         riskAssessment: {
           level: messageAnalysis.riskAnalysis.level,
           indicators: messageAnalysis.riskAnalysis.indicators,
-          immediateActions: this.getImmediateActions(messageAnalysis.riskAnalysis)
+          immediateActions: this.getImmediateActions(messageAnalysis.riskAnalysis),
+          confidence: messageAnalysis.riskAnalysis.confidence,
+          signals: messageAnalysis.riskAnalysis.signals
         },
         followUp: {
           recommended: messageAnalysis.riskAnalysis.level !== 'none',
@@ -470,11 +599,24 @@ export class AIOrchestrator {
           selfHelp: this.getSelfHelpResources(messageAnalysis),
           professional: this.getProfessionalResources(culturalContext),
           emergency: this.getEmergencyResources()
-        }
+        },
+        promptTemplate: fromTemplate && response
+          ? { templateId: prompt.templateId, version: prompt.version, language: prompt.language }
+          : undefined,
+        therapeuticPhase: conversationContext.therapeuticPhase,
+        interventionSelection: interventionStrategy.selection,
+        technique: interventionStrategy.technique,
+        thoughtRecord: fromTemplate && interventionStrategy.primary === 'cognitive_restructuring'
+          ? prefillThoughtRecord([
+            ...conversationContext.conversationHistory.filter(entry => entry.role === 'user').map(entry => entry.content),
+            userMessage
+          ])
+          : undefined,
+        activitySuggestions: fromTemplate ? activitySuggestions : undefined
       };
     } catch (error) {
       console.error('Response generation error:', error);
-      return this.generateFallbackResponse(userMessage, userContext.userId);
+      return this.generateFallbackResponse(userMessage, userContext.userId, messageAnalysis.riskAnalysis);
     }
   }
 
@@ -515,26 +657,11 @@ export class AIOrchestrator {
   }
 
   private detectLanguageMixing(message: string): number {
-    const hindiPattern = /[\u0900-\u097F]/;
-    const englishPattern = /[a-zA-Z]/;
-
-    const hasHindi = hindiPattern.test(message);
-    const hasEnglish = englishPattern.test(message);
-
-    if (hasHindi && hasEnglish) return 0.8;
-    return 0.0;
+    return detectLanguage(message) === 'mixed' ? 0.8 : 0.0;
   }
 
   private detectLanguagePreference(message: string): 'hindi' | 'english' | 'mixed' {
-    const hindiPattern = /[\u0900-\u097F]/;
-    const englishPattern = /[a-zA-Z]/;
-
-    const hasHindi = hindiPattern.test(message);
-    const hasEnglish = englishPattern.test(message);
-
-    if (hasHindi && hasEnglish) return 'mixed';
-    if (hasHindi) return 'hindi';
-    return 'english';
+    return detectLanguage(message);
   }
 
   private detectFormalityLevel(message: string): number {
@@ -548,17 +675,21 @@ export class AIOrchestrator {
     return formalCount / Math.max(formalCount + informalCount, 1);
   }
 
-  private getInterventionGuidelines(intervention: string): string {
-    const guidelines = {
-      validation: 'Acknowledge their feelings and normalize their experience. Show understanding.',
-      cognitive_restructuring: 'Help identify negative thought patterns and suggest balanced perspectives.',
-      mindfulness: 'Suggest grounding techniques and present-moment awareness practices.',
-      crisis_intervention: 'Prioritize safety. Be direct but compassionate. Provide immediate resources.',
-      behavioral_activation: 'Encourage small, manageable activities that can improve mood.',
-      psychoeducation: 'Provide helpful information about mental health in an accessible way.'
-    };
+  private getInterventionGuidelines(intervention: string, technique?: string, activities?: Activity[]): string {
+    const { guidelines } = this.interventionStrategies.get(intervention as InterventionType) || getInterventionStrategy('validation')!;
+    const parts = [guidelines];
+    if (technique) parts.push(`Technique to use: ${technique.replace(/_/g, ' ')}.`);
+    if (activities?.length) parts.push(`Activities to suggest: ${activities.map(activity => activity.name).join('; ')}.`);
+    return parts.join(' ');
+  }
+
+  // Closure also names the practice to suggest, so the goodbye matches the homework the session ends with
+  private getPhaseGuidance(context: ConversationContext): string {
+    const guidance = THERAPEUTIC_PHASES[context.therapeuticPhase].guidance;
+    if (context.therapeuticPhase !== 'closure') return guidance;
 
-    return guidelines[intervention as keyof typeof guidelines] || guidelines.validation;
+    const [homework] = closureHomework(context.phaseProgress.interventionsUsed, 1);
+    return `${guidance} Practice to suggest: ${homework}.`;
   }
 
   private calculateEmpathyLevel(analysis: any): number {
@@ -669,10 +800,19 @@ export class AIOrchestrator {
     return fallbackMessages[emotion as keyof typeof fallbackMessages] || fallbackMessages.default;
   }
 
-  private generateFallbackResponse(message: string, userId: string): TherapeuticResponse {
+  // Used when the LLM is unavailable - the risk level must still come through so crisis UI is shown
+  private generateFallbackResponse(
+    message: string,
+    userId: string,
+    riskAssessment: CrisisAssessment
+  ): TherapeuticResponse {
+    const isCrisis = riskAssessment.level === 'severe' || riskAssessment.level === 'high';
+
     return {
-      message: "I'm here to listen and support you. Could you tell me more about how you're feeling right now?",
-      interventionType: 'validation',
+      message: isCrisis
+        ? riskAssessment.immediateResponse
+        : "I'm here to listen and support you. Could you tell me more about how you're feeling right now?",
+      interventionType: isCrisis ? 'crisis_intervention' : 'validation',
       culturalAdaptation: {
         language: 'mixed',
         culturalReferences: [],
@@ -684,13 +824,15 @@ export class AIOrchestrator {
         copingStrategies: ['deep_breathing']
       },
       riskAssessment: {
-        level: 'none',
-        indicators: [],
-        immediateActions: []
+        level: riskAssessment.level,
+        indicators: riskAssessment.indicators,
+        immediateActions: this.getImmediateActions(riskAssessment),
+        confidence: riskAssessment.confidence,
+        signals: riskAssessment.signals
       },
       followUp: {
-        recommended: false,
-        timeframe: 'as needed',
+        recommended: riskAssessment.level !== 'none',
+        timeframe: this.getFollowUpTimeframe(riskAssessment.level),
         focus: []
       },
       resources: {
@@ -702,18 +844,7 @@ export class AIOrchestrator {
   }
 
   private initializeInterventionStrategies(): void {
-    // Initialize intervention strategy mappings
-    this.interventionStrategies.set('validation', {
-      description: 'Acknowledge and validate emotions',
-      techniques: ['reflective_listening', 'emotional_validation', 'normalization']
-    });
-
-    this.interventionStrategies.set('cognitive_restructuring', {
-      description: 'Help identify and reframe negative thoughts',
-      techniques: ['thought_challenging', 'perspective_taking', 'evidence_examination']
-    });
-
-    // Add more strategies as needed
+    INTERVENTION_CATALOGUE.forEach(strategy => this.interventionStrategies.set(strategy.type, strategy));
   }
 
   private async getUserContext(userId: string): Promise<UserContext> {
@@ -734,7 +865,18 @@ export class AIOrchestrator {
       this.userProfiles.set(userId, defaultContext);
     }
 
-    return this.userProfiles.get(userId)!;
+    // Concerns, goals and protective factors come from long-term memory; risk factors stay as they are
+    const userContext = this.userProfiles.get(userId)!;
+    try {
+      Object.assign(userContext.mentalHealthHistory, await this.memory.getHistorySnapshot(userId));
+      userContext.currentState.copingStrategies = (await this.memory.getFacts(userId))
+        .filter(fact => fact.kind === 'coping_strategy')
+        .map(fact => fact.text);
+    } catch (error) {
+      console.error('Memory history error:', error);
+    }
+
+    return userContext;
   }
 
   private async getConversationContext(sessionId: string, userId: string): Promise<ConversationContext> {
@@ -743,6 +885,13 @@ export class AIOrchestrator {
         sessionId,
         conversationHistory: [],
         therapeuticPhase: 'rapport_building',
+        phaseProgress: {
+          userTurns: 0,
+          turnsInPhase: 0,
+          concerns: [],
+          interventionsUsed: [],
+          transitions: []
+        },
         culturalContext: {
           languagePreference: 'mixed',
           culturalSensitivities: [],
@@ -755,12 +904,55 @@ export class AIOrchestrator {
     return this.activeContexts.get(sessionId)!;
   }
 
-  private updateConversationContext(
+  // Applies the phase state machine to the incoming message; returns the transition if the phase changed
+  private advancePhase(context: ConversationContext, userMessage: string, analysis: any): PhaseTransition | undefined {
+    const progress = context.phaseProgress;
+    progress.userTurns += 1;
+
+    const disclosed = extractMemoryFacts(userMessage)
+      .filter(fact => fact.kind === 'stressor')
+      .map(fact => fact.text);
+    const emotionConcern = EMOTION_CONCERNS[analysis.emotionalAnalysis?.primaryEmotion];
+    if (emotionConcern) disclosed.push(emotionConcern);
+    const newConcerns = disclosed.filter(concern => !progress.concerns.includes(concern));
+    progress.concerns.push(...newConcerns);
+
+    const userMessages = context.conversationHistory
+      .filter(entry => entry.role === 'user')
+      .map(entry => entry.content);
+
+    const next = nextPhase(context.therapeuticPhase, {
+      userTurns: progress.userTurns,
+      turnsInPhase: progress.turnsInPhase,
+      concerns: progress.concerns,
+      newConcerns,
+      riskLevel: analysis.riskAnalysis?.level || 'none',
+      engagement: measureEngagement([...userMessages, userMessage]),
+      improving: reportsImprovement(userMessage),
+      closing: isClosingMessage(userMessage)
+    });
+    if (!next) return undefined;
+
+    return this.enterPhase(context, next.to, next.reason);
+  }
+
+  private enterPhase(context: ConversationContext, phase: TherapeuticPhase, reason: string): PhaseTransition {
+    const transition: PhaseTransition = { from: context.therapeuticPhase, to: phase, reason, at: new Date() };
+    context.therapeuticPhase = phase;
+    context.phaseProgress.turnsInPhase = 0;
+    context.phaseProgress.transitions.push(transition);
+    console.log(`🧭 Phase ${transition.from} → ${transition.to}: ${reason}`);
+    return transition;
+  }
+
+  private async updateConversationContext(
     context: ConversationContext,
+    userId: string,
     userMessage: string,
     response: TherapeuticResponse,
-    analysis: any
-  ): void {
+    analysis: any,
+    privacy?: PrivacyContext
+  ): Promise<void> {
     // Add to conversation history
     context.conversationHistory.push(
       {
@@ -776,16 +968,48 @@ export class AIOrchestrator {
       }
     );
 
-    // Keep history manageable
-    if (context.conversationHistory.length > 20) {
-      context.conversationHistory = context.conversationHistory.slice(-20);
+    context.phaseProgress.turnsInPhase += 1;
+    if (!context.phaseProgress.interventionsUsed.includes(response.interventionType)) {
+      context.phaseProgress.interventionsUsed.push(response.interventionType);
+    }
+
+    await this.memory.rememberFromMessage(userId, context.sessionId, userMessage, analysis.riskAnalysis?.level);
+
+    // Keep history manageable; older turns are folded into the rolling summary in batches rather than dropped
+    if (context.conversationHistory.length > HISTORY_LIMIT) {
+      const folded = context.conversationHistory.slice(0, -HISTORY_KEEP);
+      context.conversationHistory = context.conversationHistory.slice(-HISTORY_KEEP);
+      await this.memory.summarizeTurns(userId, context.sessionId, folded, privacy);
     }
 
     // Update cultural context
     context.culturalContext.languagePreference = response.culturalAdaptation.language;
   }
 
+  // Called when a session ends: the closure step sets homework from what was practised, and whatever is
+  // still in the window goes into the summary before the context is dropped
+  async closeConversation(sessionId: string, userId: string, privacy?: PrivacyContext): Promise<SessionClosure | undefined> {
+    const context = this.activeContexts.get(sessionId);
+    if (!context) return undefined;
+
+    this.activeContexts.delete(sessionId);
+    const transition = context.therapeuticPhase !== 'closure'
+      ? this.enterPhase(context, 'closure', 'Session ended')
+      : undefined;
+    const summary = await this.memory.summarizeTurns(userId, sessionId, context.conversationHistory, privacy);
+
+    return {
+      summary: summary?.text,
+      homework: closureHomework(context.phaseProgress.interventionsUsed),
+      transition
+    };
+  }
+
   // Public utility methods
+  getInterventionStrategies(): InterventionStrategy[] {
+    return Array.from(this.interventionStrategies.values());
+  }
+
   async analyzeConversationTrends(sessionId: string): Promise<any> {
     const context = this.activeContexts.get(sessionId);
     if (!context) return null;
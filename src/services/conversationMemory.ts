@@ -0,0 +1,387 @@
+// Conversational Memory for MannMitra
+// Rolling session summaries and durable facts per user, recalled into prompts under a token budget
+
+import { llmRegistry } from './llmProviders';
+import type { LLMRegistry } from './llmProvider';
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import { promptRegistry, type PromptRegistry } from './promptRegistry';
+import { SESSION_SUMMARY_SCHEMA } from './responseSchemas';
+import { riskAssessmentService } from './riskAssessment';
+import { detectPromptInjection } from '../utils/promptSafety';
+import { redactForLLM, restorePII, type PrivacyContext } from '../utils/piiRedaction';
+import { parseStructuredOutput } from '../utils/structuredOutput';
+import {
+  estimateTokens,
+  extractMemoryFacts,
+  isHarmfulMemory,
+  memoryKey,
+  type ExtractedFact,
+  type MemoryKind
+} from '../utils/memoryExtraction';
+import type { RiskLevel } from '../types';
+
+const MEMORY_FACTS = 'memoryFacts';
+const SESSION_SUMMARIES = 'sessionSummaries';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Summaries built without the LLM keep only the newest text past this length
+const MAX_FALLBACK_SUMMARY_CHARS = 800;
+
+// How each kind is introduced to the model
+const PROMPT_LABELS: Record<MemoryKind, string> = {
+  stressor: 'Stressor',
+  person: 'Person in their life',
+  goal: 'Goal',
+  coping_strategy: 'Helped before'
+};
+
+export interface MemoryFact {
+  id: string;
+  userId: string;
+  kind: MemoryKind;
+  text: string;
+  key: string;
+  // 'message' when taken from what the user wrote, 'summary' when the summariser picked it out
+  source: 'message' | 'summary';
+  mentions: number;
+  sessionIds: string[];
+  firstMentioned: Date;
+  lastMentioned: Date;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  userId: string;
+  text: string;
+  // Turns folded into the summary so far
+  turnCount: number;
+  // False when the LLM was unavailable and the summary was built from the user's own sentences
+  generated: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MemoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RecalledMemory {
+  facts: MemoryFact[];
+  summaries: SessionSummary[];
+  // Ready to pass to a prompt template as `memory`; empty when there is nothing to recall
+  text: string;
+  tokens: number;
+}
+
+export interface RecallOptions {
+  // This session's own rolling summary is recalled before earlier sessions
+  sessionId?: string;
+  tokenBudget?: number;
+}
+
+export interface ConversationMemoryOptions {
+  tokenBudget?: number;
+  // Least mentioned, longest unmentioned facts are forgotten past this
+  maxFactsPerUser?: number;
+}
+
+export class ConversationMemory {
+  private storage: StorageAdapter;
+  private llm: LLMRegistry;
+  private prompts: PromptRegistry;
+  private tokenBudget: number;
+  private maxFactsPerUser: number;
+
+  constructor(
+    storage: StorageAdapter = storageAdapter,
+    llm: LLMRegistry = llmRegistry,
+    prompts: PromptRegistry = promptRegistry,
+    options: ConversationMemoryOptions = {}
+  ) {
+    this.storage = storage;
+    this.llm = llm;
+    this.prompts = prompts;
+    this.tokenBudget = options.tokenBudget ?? 250;
+    this.maxFactsPerUser = options.maxFactsPerUser ?? 60;
+  }
+
+  // Most recently mentioned first
+  async getFacts(userId: string): Promise<MemoryFact[]> {
+    try {
+      const facts = await this.storage.list<MemoryFact>(MEMORY_FACTS);
+      return facts
+        .filter(fact => fact.userId === userId)
+        .sort((a, b) => b.lastMentioned.getTime() - a.lastMentioned.getTime());
+    } catch (error) {
+      console.error('Error loading remembered facts:', error);
+      return [];
+    }
+  }
+
+  // Most recently updated first
+  async getSummaries(userId: string): Promise<SessionSummary[]> {
+    try {
+      const summaries = await this.storage.list<SessionSummary>(SESSION_SUMMARIES);
+      return summaries
+        .filter(summary => summary.userId === userId)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    } catch (error) {
+      console.error('Error loading session summaries:', error);
+      return [];
+    }
+  }
+
+  // Override attempts are never remembered, and nothing is taken from a message at high or severe risk:
+  // what sounds like a goal or a coping strategy there is too often the crisis itself
+  async rememberFromMessage(userId: string, sessionId: string, message: string, riskLevel?: RiskLevel): Promise<MemoryFact[]> {
+    if (detectPromptInjection(message).verdict !== 'clean') {
+      return [];
+    }
+
+    const level = riskLevel || riskAssessmentService.assess(message).level;
+    if (level === 'high' || level === 'severe') {
+      return [];
+    }
+
+    const extracted = extractMemoryFacts(message);
+    try {
+      return await this.saveFacts(userId, sessionId, extracted, 'message');
+    } catch (error) {
+      console.error('Error saving remembered facts:', error);
+      return [];
+    }
+  }
+
+  // Folds turns leaving the conversation window into the session's rolling summary
+  async summarizeTurns(
+    userId: string,
+    sessionId: string,
+    turns: MemoryTurn[],
+    privacy?: Partial<PrivacyContext>
+  ): Promise<SessionSummary | undefined> {
+    if (turns.length === 0) {
+      return undefined;
+    }
+
+    let previous: SessionSummary | undefined;
+    let text: string;
+    let generated = true;
+
+    try {
+      previous = await this.storage.get<SessionSummary>(SESSION_SUMMARIES, sessionId);
+      // The summariser sees placeholders like every other prompt; the stored notes keep the real details on the device
+      const redaction = redactForLLM([previous?.text || '', ...turns.map(turn => turn.content)], privacy);
+      const prompt = this.prompts.render('memory.session_summary', {
+        previousSummary: redaction.texts[0],
+        turns: turns.map((turn, index) => ({ role: turn.role, content: redaction.texts[index + 1] }))
+      });
+
+      const response = await this.llm.generate(prompt.text, { temperature: 0.2, maxTokens: 400 });
+      const result = parseStructuredOutput<{ summary: string; facts: Array<{ kind: MemoryKind; text: string }> }>(
+        response,
+        SESSION_SUMMARY_SCHEMA
+      ).value;
+
+      text = restorePII(result.summary, redaction.entities).trim();
+      const facts: ExtractedFact[] = result.facts
+        .map(fact => ({ kind: fact.kind, text: restorePII(fact.text, redaction.entities).trim() }))
+        .filter(fact => fact.text && !isHarmfulMemory(fact.text) && detectPromptInjection(fact.text).verdict === 'clean')
+        .map(fact => ({ ...fact, key: memoryKey(fact.text) }));
+      await this.saveFacts(userId, sessionId, facts, 'summary');
+    } catch (error) {
+      console.error('Session summary error:', error);
+      text = this.buildFallbackSummary(previous?.text, turns);
+      generated = false;
+    }
+
+    const now = new Date();
+    const summary: SessionSummary = {
+      sessionId,
+      userId,
+      text,
+      turnCount: (previous?.turnCount || 0) + turns.length,
+      generated,
+      createdAt: previous?.createdAt || now,
+      updatedAt: now
+    };
+
+    try {
+      await this.storage.set(SESSION_SUMMARIES, sessionId, summary);
+      console.log(`🗂️ Folded ${turns.length} turn(s) into the summary for session ${sessionId}`);
+    } catch (error) {
+      console.error('Error saving session summary:', error);
+    }
+    return summary;
+  }
+
+  // The most relevant facts and summaries that fit the token budget, as text for a prompt
+  async recall(userId: string, message: string, options: RecallOptions = {}): Promise<RecalledMemory> {
+    const budget = options.tokenBudget ?? this.tokenBudget;
+    const recalled: RecalledMemory = { facts: [], summaries: [], text: '', tokens: 0 };
+
+    try {
+      const [facts, summaries] = await Promise.all([this.getRecallableFacts(userId), this.getSummaries(userId)]);
+      const lines: string[] = [];
+      const fits = (line: string, limit: number): boolean => {
+        const cost = estimateTokens(line) + 1;
+        if (recalled.tokens + cost > limit) return false;
+        recalled.tokens += cost;
+        lines.push(line);
+        return true;
+      };
+
+      // Summaries may use at most half the budget so facts are never crowded out
+      const current = summaries.find(summary => summary.sessionId === options.sessionId);
+      const lastSession = summaries.find(summary => summary.sessionId !== options.sessionId);
+      [current, lastSession].filter(Boolean).forEach(summary => {
+        const line = summary!.sessionId === options.sessionId
+          ? `Earlier in this conversation: ${summary!.text}`
+          : `Last conversation (${summary!.updatedAt.toLocaleDateString('en-IN')}): ${summary!.text}`;
+        if (fits(line, budget / 2)) recalled.summaries.push(summary!);
+      });
+
+      const mentioned = extractMemoryFacts(message);
+      facts
+        .map(fact => ({ fact, score: this.scoreFact(fact, message, mentioned) }))
+        .sort((a, b) => b.score - a.score)
+        .forEach(({ fact }) => {
+          if (fits(`- ${PROMPT_LABELS[fact.kind]}: ${fact.text}`, budget)) recalled.facts.push(fact);
+        });
+
+      recalled.text = lines.join('\n');
+    } catch (error) {
+      console.error('Memory recall error:', error);
+    }
+
+    return recalled;
+  }
+
+  // What has been remembered, in the shape of UserContext['mentalHealthHistory']
+  async getHistorySnapshot(userId: string): Promise<{
+    previousSessions: number;
+    primaryConcerns: string[];
+    therapeuticGoals: string[];
+    protectiveFactors: string[];
+  }> {
+    const [facts, summaries] = await Promise.all([this.getRecallableFacts(userId), this.getSummaries(userId)]);
+    const textsOf = (...kinds: MemoryKind[]) => facts.filter(fact => kinds.includes(fact.kind)).map(fact => fact.text);
+
+    return {
+      previousSessions: summaries.length,
+      primaryConcerns: textsOf('stressor'),
+      therapeuticGoals: textsOf('goal'),
+      protectiveFactors: textsOf('coping_strategy', 'person')
+    };
+  }
+
+  async deleteFact(factId: string): Promise<void> {
+    await this.storage.delete(MEMORY_FACTS, factId);
+  }
+
+  async deleteSummary(sessionId: string): Promise<void> {
+    await this.storage.delete(SESSION_SUMMARIES, sessionId);
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    const [facts, summaries] = await Promise.all([this.getFacts(userId), this.getSummaries(userId)]);
+    await Promise.all([
+      ...facts.map(fact => this.storage.delete(MEMORY_FACTS, fact.id)),
+      ...summaries.map(summary => this.storage.delete(SESSION_SUMMARIES, summary.sessionId))
+    ]);
+    console.log(`🧹 Memory cleared for ${userId}`);
+  }
+
+  private async saveFacts(
+    userId: string,
+    sessionId: string,
+    extracted: ExtractedFact[],
+    source: MemoryFact['source']
+  ): Promise<MemoryFact[]> {
+    if (extracted.length === 0) {
+      return [];
+    }
+
+    const existing = await this.getFacts(userId);
+    const now = new Date();
+    const saved: MemoryFact[] = [];
+
+    for (const fact of extracted) {
+      const match = existing.find(candidate => candidate.kind === fact.kind && candidate.key === fact.key);
+      const record: MemoryFact = match
+        ? {
+          ...match,
+          // "Sister (Anjali)" replaces a plain "Sister"
+          text: fact.text.length > match.text.length ? fact.text : match.text,
+          mentions: match.mentions + 1,
+          sessionIds: match.sessionIds.includes(sessionId) ? match.sessionIds : [...match.sessionIds, sessionId],
+          lastMentioned: now
+        }
+        : {
+          id: `memory_${userId}_${now.getTime()}_${saved.length}`,
+          userId,
+          kind: fact.kind,
+          text: fact.text,
+          key: fact.key,
+          source,
+          mentions: 1,
+          sessionIds: [sessionId],
+          firstMentioned: now,
+          lastMentioned: now
+        };
+
+      await this.storage.set(MEMORY_FACTS, record.id, record);
+      saved.push(record);
+    }
+
+    const remembered = await this.getFacts(userId);
+    if (remembered.length > this.maxFactsPerUser) {
+      const forgettable = remembered
+        .filter(fact => !saved.some(record => record.id === fact.id))
+        .sort((a, b) => a.mentions - b.mentions || a.lastMentioned.getTime() - b.lastMentioned.getTime())
+        .slice(0, remembered.length - this.maxFactsPerUser);
+      await Promise.all(forgettable.map(fact => this.storage.delete(MEMORY_FACTS, fact.id)));
+    }
+
+    return saved;
+  }
+
+  // Facts saved before the harm filter caught them stay listed for the user to delete, but never reach a prompt
+  private async getRecallableFacts(userId: string): Promise<MemoryFact[]> {
+    return (await this.getFacts(userId)).filter(fact => !isHarmfulMemory(fact.text));
+  }
+
+  // Relevance to the current message first, then how often and how recently it came up
+  private scoreFact(fact: MemoryFact, message: string, mentioned: ExtractedFact[]): number {
+    const words = new Set(memoryKey(message).split(' ').filter(word => word.length > 3));
+    const overlap = fact.key.split(' ').filter(word => words.has(word)).length;
+    const mentionedAgain = mentioned.some(candidate => candidate.kind === fact.kind && candidate.key === fact.key);
+    const ageInWeeks = (Date.now() - fact.lastMentioned.getTime()) / (7 * DAY_MS);
+
+    return (mentionedAgain ? 4 : 0) +
+      overlap * 2 +
+      Math.log2(1 + fact.mentions) +
+      (fact.kind === 'coping_strategy' ? 1 : 0) +
+      1 / (1 + ageInWeeks);
+  }
+
+  // Without the LLM the summary is the opening sentence of each user turn, newest kept when it grows too long
+  private buildFallbackSummary(previous: string | undefined, turns: MemoryTurn[]): string {
+    const said = turns
+      .filter(turn => turn.role === 'user')
+      .map(turn => turn.content.trim().split(/(?<=[.!?।])\s+/)[0])
+      // Crisis disclosures are not quoted back into later prompts
+      .filter(sentence => sentence && !isHarmfulMemory(sentence))
+      .map(sentence => `The user said: "${sentence}"`);
+
+    const text = [previous, ...said].filter(Boolean).join(' ');
+    if (text.length <= MAX_FALLBACK_SUMMARY_CHARS) {
+      return text;
+    }
+    const tail = text.slice(-MAX_FALLBACK_SUMMARY_CHARS);
+    return tail.slice(tail.indexOf(' ') + 1);
+  }
+}
+
+// Export singleton instance
+export const conversationMemory = new ConversationMemory();
@@ -0,0 +1,88 @@
+// Crisis Escalation for MannMitra
+// Risk decisions made outside a therapy session, in the companion chat and the PHQ-9 screening: audit them and schedule follow-up check-ins
+
+import { safetyAuditLog, type SafetyAuditLog } from './safetyAuditLog';
+import { followUpScheduler, type FollowUpScheduler, type FollowUpCheckIn } from './followUpScheduler';
+import { PHQ9, PHQ9_SUICIDALITY_ITEM, type ScreeningResult } from '../utils/screeningInstruments';
+import type { CrisisAssessment, RiskLevel } from '../types';
+
+export interface RiskEventContext {
+  userId?: string;
+  sessionId?: string;
+  // Crisis UI the decision put in front of the user
+  uiShown?: string[];
+}
+
+export interface RiskEventOutcome {
+  level: RiskLevel;
+  // Audit entry of the decision, so what the user does with the crisis UI can point back to it
+  decisionId?: string;
+  followUps: FollowUpCheckIn[];
+}
+
+// Any answer above "not at all" on PHQ-9 item 9 needs a same-day safety conversation
+export function screeningRiskLevel(result: ScreeningResult): RiskLevel {
+  const item9 = result.itemScores[PHQ9_SUICIDALITY_ITEM] || 0;
+  return !result.suicidalIdeation ? 'none' : item9 >= 2 ? 'severe' : 'high';
+}
+
+export class CrisisEscalationService {
+  private audit: SafetyAuditLog;
+  private followUps: FollowUpScheduler;
+
+  constructor(audit: SafetyAuditLog = safetyAuditLog, followUps: FollowUpScheduler = followUpScheduler) {
+    this.audit = audit;
+    this.followUps = followUps;
+  }
+
+  // Check-ins follow high and severe messages, the same as inside a session
+  async handleMessageRisk(assessment: CrisisAssessment, messageText: string, context: RiskEventContext): Promise<RiskEventOutcome> {
+    const isCrisis = assessment.level === 'high' || assessment.level === 'severe';
+    const followUps = isCrisis ? await this.scheduleFollowUps(assessment.level, context) : [];
+    const entry = await this.audit.recordDecision(assessment, messageText, {
+      source: 'companion',
+      userId: context.userId,
+      sessionId: context.sessionId,
+      uiShown: context.uiShown || []
+    });
+
+    return { level: assessment.level, decisionId: entry?.id, followUps };
+  }
+
+  async handleScreeningRisk(result: ScreeningResult, context: RiskEventContext): Promise<RiskEventOutcome> {
+    const item9 = result.itemScores[PHQ9_SUICIDALITY_ITEM] || 0;
+    const level = screeningRiskLevel(result);
+    const followUps = result.suicidalIdeation ? await this.scheduleFollowUps(level, context) : [];
+    const entry = await this.audit.append({
+      type: 'risk_decision',
+      source: 'screening',
+      userId: context.userId,
+      detectorVersion: `${PHQ9.id}@${PHQ9.version}`,
+      level,
+      score: item9,
+      signals: result.suicidalIdeation
+        ? [{ id: PHQ9_SUICIDALITY_ITEM, kind: 'risk', source: 'message', dimension: 'suicidal_ideation', score: item9, modifiers: [] }]
+        : [],
+      uiShown: context.uiShown || []
+    });
+
+    return { level, decisionId: entry?.id, followUps };
+  }
+
+  // Never throws: a failed schedule must not keep crisis resources off the screen
+  private async scheduleFollowUps(level: RiskLevel, context: RiskEventContext): Promise<FollowUpCheckIn[]> {
+    if (!context.userId) {
+      return [];
+    }
+
+    try {
+      return await this.followUps.scheduleForRisk(context.userId, level, context.sessionId);
+    } catch (error) {
+      console.error('Error scheduling crisis follow-ups:', error);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const crisisEscalation = new CrisisEscalationService();
@@ -72,6 +72,8 @@ export interface UserProfile {
     dataSharing: boolean;
     anonymousAnalytics: boolean;
     researchParticipation: boolean;
+    // Replace names, numbers and addresses with placeholders before messages go to a cloud LLM
+    redactPersonalInfo: boolean;
   };
 }
 
@@ -84,7 +86,7 @@ export interface WellnessAssessment {
     [key: string]: number;
   };
   totalScore: number;
-  riskLevel: 'minimal' | 'mild' | 'moderate' | 'severe';
+  riskLevel: 'minimal' | 'mild' | 'moderate' | 'moderately-severe' | 'severe';
   responses: Array<{
     questionId: string;
     response: number | string;
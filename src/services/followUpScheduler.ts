@@ -0,0 +1,341 @@
+// Crisis Follow-up Scheduler for MannMitra
+// Persists check-ins after a risk event, prompts the user when they fall due and escalates missed ones
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import { safetyAuditLog, type SafetyAuditLog } from './safetyAuditLog';
+import type { RiskLevel } from '../types';
+
+const FOLLOW_UPS = 'followUps';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export type FollowUpLevel = 'moderate' | 'high' | 'severe';
+
+export type FollowUpStatus = 'scheduled' | 'due' | 'completed' | 'missed' | 'cancelled';
+
+export interface FollowUpResponse {
+  // 1 (very low) to 5 (very good)
+  mood?: number;
+  feelingSafe: boolean;
+  note?: string;
+}
+
+export interface FollowUpCheckIn {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  riskLevel: FollowUpLevel;
+  label: 'immediate' | 'shortTerm' | 'longTerm';
+  dueAt: Date;
+  // How long the user has to answer before the check-in counts as missed
+  respondBy: Date;
+  status: FollowUpStatus;
+  createdAt: Date;
+  promptedAt?: Date;
+  respondedAt?: Date;
+  response?: FollowUpResponse;
+  escalatedAt?: Date;
+}
+
+export type FollowUpEventType = 'due' | 'missed' | 'escalate' | 'completed';
+
+export interface FollowUpEvent {
+  type: FollowUpEventType;
+  checkIn: FollowUpCheckIn;
+  reason?: string;
+}
+
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Clock that only moves when told to, so tests can step through hours of follow-ups instantly
+export class ManualClock implements Clock {
+  private current: Date;
+  private timers: Array<{ id: number; at: number; callback: () => void }> = [];
+  private nextId = 1;
+
+  constructor(start: Date = new Date()) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.timers.push({ id, at: this.current.getTime() + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  advance(ms: number): void {
+    const target = this.current.getTime() + ms;
+    let next = this.nextTimer(target);
+
+    while (next) {
+      this.timers = this.timers.filter(timer => timer !== next);
+      this.current = new Date(next.at);
+      next.callback();
+      next = this.nextTimer(target);
+    }
+
+    this.current = new Date(target);
+  }
+
+  private nextTimer(until: number) {
+    return this.timers
+      .filter(timer => timer.at <= until)
+      .sort((a, b) => a.at - b.at)[0];
+  }
+}
+
+// Check-in delays after the risk event, and how long each check-in stays open
+const FOLLOW_UP_PLAN: Record<FollowUpLevel, { respondWithinMs: number; checkIns: Array<{ label: FollowUpCheckIn['label']; delayMs: number }> }> = {
+  severe: {
+    respondWithinMs: 1 * HOUR,
+    checkIns: [
+      { label: 'immediate', delayMs: 2 * HOUR },
+      { label: 'shortTerm', delayMs: 1 * DAY },
+      { label: 'longTerm', delayMs: 7 * DAY }
+    ]
+  },
+  high: {
+    respondWithinMs: 6 * HOUR,
+    checkIns: [
+      { label: 'immediate', delayMs: 1 * DAY },
+      { label: 'shortTerm', delayMs: 3 * DAY },
+      { label: 'longTerm', delayMs: 14 * DAY }
+    ]
+  },
+  moderate: {
+    respondWithinMs: 1 * DAY,
+    checkIns: [
+      { label: 'shortTerm', delayMs: 2 * DAY },
+      { label: 'longTerm', delayMs: 7 * DAY }
+    ]
+  }
+};
+
+const LEVEL_ORDER: FollowUpLevel[] = ['moderate', 'high', 'severe'];
+
+export interface FollowUpSchedulerOptions {
+  clock?: Clock;
+  // Shows a system notification; defaults to the browser Notification API when permission was granted
+  showNotification?: (title: string, body: string) => void;
+  audit?: SafetyAuditLog;
+}
+
+function browserNotification(title: string, body: string): void {
+  if (typeof window === 'undefined' || !('Notification' in window) || Notification.permission !== 'granted') {
+    return;
+  }
+
+  try {
+    new Notification(title, { body, tag: 'mannmitra-follow-up' });
+  } catch (error) {
+    console.error('Error showing follow-up notification:', error);
+  }
+}
+
+export class FollowUpScheduler {
+  private storage: StorageAdapter;
+  private clock: Clock;
+  private showNotification: (title: string, body: string) => void;
+  private audit: SafetyAuditLog;
+  private listeners: Set<(event: FollowUpEvent) => void> = new Set();
+  private timer: unknown = null;
+
+  constructor(storage: StorageAdapter = storageAdapter, options: FollowUpSchedulerOptions = {}) {
+    this.storage = storage;
+    this.clock = options.clock || systemClock;
+    this.showNotification = options.showNotification || browserNotification;
+    this.audit = options.audit || safetyAuditLog;
+  }
+
+  // A new risk event only replaces pending check-ins when it is more serious
+  async scheduleForRisk(userId: string, riskLevel: RiskLevel, sessionId?: string): Promise<FollowUpCheckIn[]> {
+    if (!LEVEL_ORDER.includes(riskLevel as FollowUpLevel)) {
+      return [];
+    }
+
+    const level = riskLevel as FollowUpLevel;
+    const pending = (await this.getCheckIns(userId)).filter(checkIn => checkIn.status === 'scheduled');
+    const highestPending = Math.max(-1, ...pending.map(checkIn => LEVEL_ORDER.indexOf(checkIn.riskLevel)));
+
+    // Repeated messages at the same level should not keep pushing the check-ins back
+    if (highestPending >= LEVEL_ORDER.indexOf(level)) {
+      return pending;
+    }
+
+    await Promise.all(pending.map(checkIn => this.save({ ...checkIn, status: 'cancelled' })));
+
+    const now = this.clock.now();
+    const plan = FOLLOW_UP_PLAN[level];
+    const checkIns = plan.checkIns.map(({ label, delayMs }) => {
+      const dueAt = new Date(now.getTime() + delayMs);
+      return {
+        id: `followup_${userId}_${label}_${now.getTime()}`,
+        userId,
+        sessionId,
+        riskLevel: level,
+        label,
+        dueAt,
+        respondBy: new Date(dueAt.getTime() + plan.respondWithinMs),
+        status: 'scheduled' as FollowUpStatus,
+        createdAt: now
+      };
+    });
+
+    await Promise.all(checkIns.map(checkIn => this.save(checkIn)));
+    console.log(`📅 Scheduled ${checkIns.length} ${level} follow-ups for ${userId}`);
+    return checkIns;
+  }
+
+  async getCheckIns(userId: string): Promise<FollowUpCheckIn[]> {
+    const checkIns = await this.storage.list<FollowUpCheckIn>(FOLLOW_UPS);
+    return checkIns
+      .filter(checkIn => checkIn.userId === userId)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  async getDueCheckIns(userId: string): Promise<FollowUpCheckIn[]> {
+    return (await this.getCheckIns(userId)).filter(checkIn => checkIn.status === 'due');
+  }
+
+  // Missed check-ins that were escalated but never answered, so the UI keeps showing helplines
+  async getUnresolvedMisses(userId: string): Promise<FollowUpCheckIn[]> {
+    return (await this.getCheckIns(userId)).filter(checkIn => checkIn.status === 'missed');
+  }
+
+  // Moves check-ins through scheduled -> due -> missed based on the clock
+  async tick(): Promise<FollowUpEvent[]> {
+    const now = this.clock.now().getTime();
+    const events: FollowUpEvent[] = [];
+    const checkIns = await this.storage.list<FollowUpCheckIn>(FOLLOW_UPS);
+
+    for (const checkIn of checkIns) {
+      const open = checkIn.status === 'scheduled' || checkIn.status === 'due';
+
+      // Also covers the app being closed for the whole response window
+      if (open && checkIn.respondBy.getTime() <= now) {
+        const missed = { ...checkIn, status: 'missed' as FollowUpStatus, escalatedAt: new Date(now) };
+        await this.save(missed);
+        await this.audit.recordEscalation('follow_up_missed', {
+          source: 'follow_up',
+          userId: checkIn.userId,
+          sessionId: checkIn.sessionId,
+          level: checkIn.riskLevel,
+          details: { checkInId: checkIn.id, label: checkIn.label }
+        });
+        events.push({ type: 'missed', checkIn: missed });
+        events.push({ type: 'escalate', checkIn: missed, reason: 'check_in_missed' });
+      } else if (checkIn.status === 'scheduled' && checkIn.dueAt.getTime() <= now) {
+        const due = { ...checkIn, status: 'due' as FollowUpStatus, promptedAt: new Date(now) };
+        await this.save(due);
+        this.showNotification(
+          'MannMitra check-in',
+          'आप कैसे हैं? / How are you doing? Tap to check in with MannMitra.'
+        );
+        events.push({ type: 'due', checkIn: due });
+      }
+    }
+
+    events.forEach(event => this.emit(event));
+    return events;
+  }
+
+  async respond(checkInId: string, response: FollowUpResponse): Promise<FollowUpCheckIn | undefined> {
+    const checkIn = await this.storage.get<FollowUpCheckIn>(FOLLOW_UPS, checkInId);
+    if (!checkIn) {
+      return undefined;
+    }
+
+    const completed: FollowUpCheckIn = {
+      ...checkIn,
+      status: 'completed',
+      respondedAt: this.clock.now(),
+      response
+    };
+    await this.save(completed);
+    this.emit({ type: 'completed', checkIn: completed });
+
+    await this.audit.recordUserAction(response.feelingSafe ? 'follow_up_safe' : 'follow_up_not_safe', {
+      source: 'follow_up',
+      userId: checkIn.userId,
+      sessionId: checkIn.sessionId
+    });
+
+    if (!response.feelingSafe) {
+      this.emit({ type: 'escalate', checkIn: completed, reason: 'user_not_safe' });
+    }
+
+    return completed;
+  }
+
+  subscribe(listener: (event: FollowUpEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Polls on the injected clock; tests usually call tick() directly instead
+  start(intervalMs: number = 60 * 1000): void {
+    if (this.timer !== null) return;
+
+    const run = () => {
+      this.tick()
+        .catch(error => console.error('Follow-up tick error:', error))
+        .finally(() => {
+          if (this.timer !== null) {
+            this.timer = this.clock.setTimeout(run, intervalMs);
+          }
+        });
+    };
+
+    this.timer = this.clock.setTimeout(run, 0);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    const checkIns = await this.getCheckIns(userId);
+    await Promise.all(checkIns.map(checkIn => this.storage.delete(FOLLOW_UPS, checkIn.id)));
+  }
+
+  private async save(checkIn: FollowUpCheckIn): Promise<void> {
+    await this.storage.set(FOLLOW_UPS, checkIn.id, checkIn);
+  }
+
+  private emit(event: FollowUpEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Follow-up listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const followUpScheduler = new FollowUpScheduler();
@@ -1,4 +1,14 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { guardResponse, findViolations, createStreamGuard } from '../utils/responseGuard';
+import { detectPromptInjection, injectionReply } from '../utils/promptSafety';
+import { redactForLLM, restorePII, type PIIEntity, type PrivacyContext } from '../utils/piiRedaction';
+import { parseStructuredOutput, readPartialStringField, StructuredOutputError } from '../utils/structuredOutput';
+import { safetyAuditLog } from './safetyAuditLog';
+import { GEMINI_RESPONSE_SCHEMA } from './responseSchemas';
+import { promptRegistry, type PromptTemplateRef, type RenderedPrompt } from './promptRegistry';
+import { llmRegistry } from './llmProviders';
+import type { LLMGenerationOptions } from './llmProvider';
+import { getInterventionStrategy, type InterventionType } from '../utils/interventionCatalogue';
 
 // Initialize Gemini AI with proper error handling
 const API_KEY = (import.meta as any).env.VITE_GEMINI_API_KEY as string;
@@ -26,6 +36,12 @@ export interface ConversationContext {
     avatarStyle: string;
   };
   crisisLevel: 'none' | 'low' | 'moderate' | 'high' | 'severe';
+  // From UserProfile['privacy']; personal details are redacted unless this is explicitly off
+  privacy?: PrivacyContext;
+  // Notes recalled by conversationMemory, redacted together with the message
+  memory?: string;
+  // Picked before the reply is written; the prompt asks for it and the reply carries it back for feedback
+  intervention?: { type: InterventionType; technique?: string };
 }
 
 export interface AIResponse {
@@ -33,6 +49,17 @@ export interface AIResponse {
   suggestedActions: string[];
   moodAssessment: string;
   followUpQuestions: string[];
+  promptTemplate?: PromptTemplateRef;
+  // Only set when the prompt asked for them, so a rating never lands on a guessed intervention
+  interventionType?: InterventionType;
+  technique?: string;
+}
+
+export interface StreamHandlers {
+  // Called with the reply text cleared by the safety guard so far, personal details restored
+  onMessage?: (partial: string) => void;
+  // Stops the stream; whatever was already cleared becomes the reply
+  signal?: AbortSignal;
 }
 
 export class GeminiMentalHealthAI {
@@ -49,13 +76,18 @@ export class GeminiMentalHealthAI {
       throw new Error('No valid Gemini API key provided. Please add your API key to the .env file.');
     }
 
+    const boundaryReply = this.checkForInjection(userMessage, context);
+    if (boundaryReply) {
+      return boundaryReply;
+    }
+
     try {
       console.log('🚀 Making Gemini API request with key:', API_KEY?.substring(0, 10) + '...');
-      const prompt = this.buildContextualPrompt(userMessage, context);
+      const { prompt, entities } = this.buildPrompt(userMessage, context);
 
       // Use the correct API format
       const model = genAI.getGenerativeModel({ model: "gemini-pro" });
-      const result = await model.generateContent(prompt);
+      const result = await model.generateContent(prompt.text);
       const response = await result.response;
 
       console.log('✅ Gemini API response received successfully');
@@ -66,154 +98,199 @@ export class GeminiMentalHealthAI {
         throw new Error('Empty response received from Gemini AI');
       }
 
-      return this.parseAIResponse(responseText, context);
+      return {
+        ...this.restoreResponse(this.parseAIResponse(responseText, context), entities),
+        ...this.interventionRef(context),
+        promptTemplate: this.templateRef(prompt)
+      };
     } catch (error) {
       console.error('❌ Gemini AI Error:', error);
       throw error;// Re-throw to trigger fallback in component
     }
   }
 
-  private buildContextualPrompt(userMessage: string, context: ConversationContext): string {
-    const languageInstruction = this.getLanguageInstruction(context.preferredLanguage);
-
-    return `
-You are "MannMitra" (मन मित्र), an advanced AI mental health companion specifically designed for Indian youth aged 16-25. You are a licensed therapist with deep understanding of Indian culture, family dynamics, and youth challenges.
-
-CORE IDENTITY:
-- Empathetic, non-judgmental mental health professional
-- Expert in CBT, DBT, mindfulness, and culturally-adapted therapy
-- Deeply understands Indian youth struggles: academic pressure, family expectations, career anxiety, social media stress
-- Speaks naturally in ${context.preferredLanguage} with cultural sensitivity
-
-CURRENT USER CONTEXT:
-- Mood: ${context.userMood}
-- Crisis Level: ${context.crisisLevel}
-- Previous conversation context: ${context.previousMessages?.slice(-2).join(' ') || 'First interaction'}
-
-s
-CULTURAL EXPERTISE:
-- Understand "log kya kahenge" mentality and family honor concepts
-- Navigate joint family dynamics and generational conflicts
-- Address academic pressure (JEE, NEET, board exams, college admissions)
-- Handle career vs passion dilemmas common in Indian families
-- Recognize mental health stigma and provide gentle education
-- Use appropriate cultural references (festivals, traditions, values)
-- Understand economic pressures and accessibility issue
-
-THERAPEUTIC APPROACH:
-1. VALIDATION: Always validate emotions first - "Your feelings are completely valid"
-2. NORMALIZATION: Help them understand they're not alone - many Indian youth face similar challenges
-3. CULTURAL BRIDGE: Connect modern therapy with traditional Indian wisdom
-4. PRACTICAL SOLUTIONS: Provide immediately actionable coping strategies
-5. FAMILY-AWARE: Consider family dynamics in all suggestions
-6. CRISIS AWARENESS: Detect and respond appropriately to crisis indicators
-
-LANGUAGE GUIDELINES:
-${languageInstruction}
-
-CRISIS PROTOCOL:
-${context.crisisLevel !== 'none' ? `
-🚨 CRISIS LEVEL: ${context.crisisLevel}
-- Prioritize safety and immediate support
-- Provide Indian crisis helplines: Vandrevala Foundation (9999 666 555), AASRA (91-22-27546669)
-- Use gentle de-escalation techniques
-- Encourage professional help while reducing stigma
-- Follow up with safety planning
-` : ''}
-
-USER MESSAGE: "${userMessage}"
-
-RESPONSE INSTRUCTIONS:
-Generate a therapeutic response that:
-1. Shows deep empathy and cultural understanding
-2. Provides specific, actionable coping strategies tailored to Indian context
-3. Includes relevant cultural wisdom or references when appropriate
-4. Offers professional-level therapeutic insights
-5. Maintains hope and encouragement
-6. Uses natural, conversational tone in preferred language
-
-RESPONSE FORMAT (JSON):
-{
-  "message": "Your empathetic, culturally-aware therapeutic response (100-150 words)",
-  "suggestedActions": [
-    "Immediate coping strategy (culturally relevant)",
-    "Short-term action step",
-    "Long-term wellness practice"
-  ],
-  "moodAssessment": "Professional assessment of emotional state and needs",
-  "followUpQuestions": [
-    "Gentle, therapeutic follow-up question",
-    "Question to deepen understanding or encourage reflection"
-  ]
-}
+  // Same reply as generateEmpathicResponse, but the message is handed out sentence by sentence as it is written.
+  // A sentence is only shown once the stream guard clears it; a blocking match cancels the request.
+  // Streamed through the provider registry, so a provider that fails or stalls before its first chunk is failed over.
+  async streamEmpathicResponse(
+    userMessage: string,
+    context: ConversationContext,
+    handlers: StreamHandlers = {}
+  ): Promise<AIResponse> {
+    const boundaryReply = this.checkForInjection(userMessage, context);
+    if (boundaryReply) {
+      handlers.onMessage?.(boundaryReply.message);
+      return boundaryReply;
+    }
 
-Remember: You're not just an AI - you're a trusted friend and mental health professional who truly understands the unique challenges of being young in India today.
-`;
-  }
+    const { prompt, entities } = this.buildPrompt(userMessage, context);
+    const guard = createStreamGuard();
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    handlers.signal?.addEventListener('abort', stop);
 
-  private getLanguageInstruction(language: string): string {
-    switch (language) {
-      case 'hindi':
-        return `
-LANGUAGE: Respond primarily in Hindi (Devanagari script)
-- Use warm, respectful Hindi: "आप", "जी हाँ", "बिल्कुल"
-- Include comforting phrases: "सब ठीक हो जाएगा", "आप अकेले नहीं हैं", "मैं समझ सकता हूँ"
-- Use therapeutic Hindi terms: "मानसिक स्वास्थ्य", "भावनाएं", "तनाव"
-- Cultural expressions: "धैर्य रखिए", "हिम्मत मत हारिए"`;
-
-      case 'mixed':
-        return `
-LANGUAGE: Use natural Hinglish (Hindi-English code-switching)
-- Mix languages naturally: "मैं understand करता हूँ आपकी situation"
-- English for modern concepts: "stress", "anxiety", "depression", "therapy"
-- Hindi for emotions: "परेशानी", "खुशी", "दुख", "चिंता"
-- Cultural phrases: "tension mat lo", "sab theek ho jayega"
-- Examples: "आपकी feelings valid हैं", "हम together मिलकर solve करेंगे"`;
-
-      default:
-        return `
-LANGUAGE: Respond in English with Hindi warmth
-- Use simple, accessible English for Indian youth
-- Include Hindi phrases for emotional connection: "Sab theek ho jayega", "Tension mat lo"
-- Cultural terms: "beta", "yaar", "dost" (when appropriate)
-- Avoid complex psychological jargon
-- Use familiar expressions: "Don't worry", "It's okay", "I understand"`;
-    }
-  }
+    let responseText = '';
+    let streamedMessage = '';
+    let messageComplete = false;
+    let cleared = '';
+    let blocked = false;
 
-  private parseAIResponse(responseText: string, context: ConversationContext): AIResponse {
     try {
-      // Clean the response text
-      let cleanedResponse = responseText.replace(/```json\n?|\n?```/g, '').trim();
-
-      // If response doesn't start with {, try to find JSON within the text
-      if (!cleanedResponse.startsWith('{')) {
-        const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          cleanedResponse = jsonMatch[0];
+      for await (const chunk of llmRegistry.stream(prompt.text, { signal: controller.signal })) {
+        responseText += chunk;
+        const partial = readPartialStringField(responseText, 'message');
+        if (!partial || messageComplete) continue;
+
+        const update = guard.push(partial.value.slice(streamedMessage.length));
+        streamedMessage = partial.value;
+        messageComplete = partial.complete;
+        const { released } = messageComplete ? guard.end() : update;
+
+        if (update.blocked) {
+          blocked = true;
+          controller.abort();
+          break;
         }
+        if (released !== cleared) {
+          cleared = released;
+          handlers.onMessage?.(restorePII(cleared, entities));
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('❌ Companion streaming error:', error);
+        throw error;
       }
+    } finally {
+      handlers.signal?.removeEventListener('abort', stop);
+    }
 
-      const parsed = JSON.parse(cleanedResponse);
+    // Blocked mid-stream or stopped by the user: the reply is what the guard makes of the text so far
+    if (blocked || controller.signal.aborted) {
+      console.warn(blocked ? '🛑 Stream cancelled by the response guard' : '⏹️ Stream stopped by the user');
+      const shownText = blocked ? streamedMessage : cleared;
+      return {
+        message: shownText
+          ? restorePII(this.guardMessage(shownText, context), entities)
+          : this.getFallbackResponse(userMessage, context).message,
+        suggestedActions: this.generateFallbackActions(context),
+        moodAssessment: context.userMood,
+        followUpQuestions: this.generateFallbackQuestions(context),
+        promptTemplate: this.templateRef(prompt)
+      };
+    }
 
-      // Validate and structure the response
+    try {
       return {
-        message: parsed.message || this.extractMessageFromText(responseText, context),
-        suggestedActions: Array.isArray(parsed.suggestedActions) ? parsed.suggestedActions : this.getDefaultActions(context),
-        moodAssessment: parsed.moodAssessment || 'User needs supportive conversation',
-        followUpQuestions: Array.isArray(parsed.followUpQuestions) ? parsed.followUpQuestions : this.getDefaultQuestions(context)
+        ...this.restoreResponse(this.parseAIResponse(responseText, context), entities),
+        ...this.interventionRef(context),
+        promptTemplate: this.templateRef(prompt)
       };
     } catch (error) {
-      // Fallback to plain text response
+      if (!(error instanceof StructuredOutputError)) throw error;
+      // The user has already read a complete message, so it is kept rather than swapped for a fallback.
+      // A reply in plain prose instead of JSON was never shown; once guarded, the prose itself is the message
+      const plainText = readPartialStringField(responseText, 'message') ? '' : responseText.trim();
+      if (!messageComplete && !plainText) throw error;
+      console.error('❌ Gemini reply failed validation after streaming:', error);
       return {
-        message: responseText,
+        message: restorePII(this.guardMessage(messageComplete ? streamedMessage : plainText, context), entities),
         suggestedActions: this.generateFallbackActions(context),
         moodAssessment: context.userMood,
-        followUpQuestions: this.generateFallbackQuestions(context)
+        followUpQuestions: this.generateFallbackQuestions(context),
+        promptTemplate: this.templateRef(prompt)
       };
     }
   }
 
+  // Override attempts never reach the model; the user gets a gentle boundary reply instead
+  private checkForInjection(userMessage: string, context: ConversationContext): AIResponse | null {
+    const injection = detectPromptInjection(userMessage);
+    if (injection.verdict !== 'clean') {
+      safetyAuditLog.recordInjectionAttempt(injection, userMessage, { source: 'gemini', level: context.crisisLevel });
+    }
+    if (injection.verdict !== 'override') {
+      return null;
+    }
+
+    return {
+      message: this.guardMessage(injectionReply(context.preferredLanguage, context.crisisLevel), context),
+      suggestedActions: this.generateFallbackActions(context),
+      moodAssessment: context.userMood,
+      followUpQuestions: this.generateFallbackQuestions(context)
+    };
+  }
+
+  // Personal details are swapped for placeholders here and put back after the reply is parsed
+  private buildPrompt(userMessage: string, context: ConversationContext): { prompt: RenderedPrompt; entities: PIIEntity[] } {
+    const redaction = redactForLLM([userMessage, context.memory || '', ...(context.previousMessages || [])], context.privacy);
+    const [safeMessage, safeMemory, ...safeHistory] = redaction.texts;
+    if (redaction.entities.length > 0) {
+      console.log(`🔒 Redacted ${redaction.entities.length} personal detail(s) before sending to Gemini`);
+    }
+
+    const prompt = promptRegistry.render('gemini.companion', {
+      message: safeMessage,
+      history: safeHistory,
+      mood: context.userMood,
+      crisisLevel: context.crisisLevel,
+      memory: safeMemory || undefined,
+      intervention: context.intervention?.type,
+      interventionGuidelines: context.intervention ? this.interventionGuidelines(context.intervention) : undefined
+    }, { language: context.preferredLanguage });
+
+    return { prompt, entities: redaction.entities };
+  }
+
+  private interventionGuidelines(intervention: NonNullable<ConversationContext['intervention']>): string {
+    const parts = [getInterventionStrategy(intervention.type)?.guidelines || ''];
+    if (intervention.technique) parts.push(`Technique to use: ${intervention.technique.replace(/_/g, ' ')}.`);
+    return parts.filter(Boolean).join(' ');
+  }
+
+  private interventionRef(context: ConversationContext): Pick<AIResponse, 'interventionType' | 'technique'> {
+    return context.intervention ? { interventionType: context.intervention.type, technique: context.intervention.technique } : {};
+  }
+
+  private templateRef(prompt: RenderedPrompt): PromptTemplateRef {
+    return { templateId: prompt.templateId, version: prompt.version, language: prompt.language };
+  }
+
+  // Throws StructuredOutputError when the reply cannot be repaired into the schema; the component then falls back
+  private parseAIResponse(responseText: string, context: ConversationContext): AIResponse {
+    const parsed = parseStructuredOutput<AIResponse>(responseText, GEMINI_RESPONSE_SCHEMA);
+    if (parsed.repaired) {
+      console.warn('🔧 Gemini reply JSON needed repair before it validated');
+    }
+
+    return {
+      message: this.guardMessage(parsed.value.message, context),
+      suggestedActions: parsed.value.suggestedActions.filter(action => findViolations(action).length === 0),
+      moodAssessment: parsed.value.moodAssessment,
+      followUpQuestions: parsed.value.followUpQuestions.filter(question => findViolations(question).length === 0)
+    };
+  }
+
+  // Model text is checked before it reaches the user, see utils/responseGuard
+  private guardMessage(message: string, context: ConversationContext): string {
+    const guarded = guardResponse(message, { riskLevel: context.crisisLevel, language: context.preferredLanguage });
+    if (guarded.action !== 'allow') {
+      safetyAuditLog.recordGuardedResponse(guarded, { source: 'gemini', level: context.crisisLevel });
+    }
+    return guarded.text;
+  }
+
+  private restoreResponse(response: AIResponse, entities: PIIEntity[]): AIResponse {
+    if (entities.length === 0) return response;
+
+    return {
+      ...response,
+      message: restorePII(response.message, entities),
+      suggestedActions: response.suggestedActions.map(action => restorePII(action, entities)),
+      followUpQuestions: response.followUpQuestions.map(question => restorePII(question, entities))
+    };
+  }
+
   private getFallbackResponse(userMessage: string, context: ConversationContext): AIResponse {
     const fallbackMessages = {
       english: "I'm here to listen and support you. Your feelings are valid, and you're not alone in this journey.",
@@ -229,20 +306,6 @@ LANGUAGE: Respond in English with Hindi warmth
     };
   }
 
-  private extractMessageFromText(text: string, context: ConversationContext): string {
-    // Extract meaningful message from unstructured text
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
-    return sentences.slice(0, 3).join('. ').trim() + '.';
-  }
-
-  private getDefaultActions(context: ConversationContext): string[] {
-    return this.generateFallbackActions(context);
-  }
-
-  private getDefaultQuestions(context: ConversationContext): string[] {
-    return this.generateFallbackQuestions(context);
-  }
-
   private generateFallbackActions(context: ConversationContext): string[] {
     const actions = {
       english: [
@@ -283,6 +346,53 @@ LANGUAGE: Respond in English with Hindi warmth
 
     return questions[context.preferredLanguage] || questions.english;
   }
+  isConfigured(): boolean {
+    return !isDemoKey;
+  }
+
+  // Raw text generation - throws on failure so callers can fail over to another provider
+  async generateText(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    if (isDemoKey) {
+      throw new Error('No valid Gemini API key provided');
+    }
+
+    const model = genAI.getGenerativeModel({
+      model: 'gemini-pro',
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxTokens
+      }
+    });
+    const result = await model.generateContent(prompt, { signal: options.signal });
+    const response = await result.response;
+    const text = response.text();
+    if (!text) {
+      throw new Error('Empty response received from Gemini AI');
+    }
+    return text;
+  }
+
+  async *generateTextStream(prompt: string, options: LLMGenerationOptions = {}): AsyncGenerator<string> {
+    if (isDemoKey) {
+      throw new Error('No valid Gemini API key provided');
+    }
+
+    const model = genAI.getGenerativeModel({
+      model: 'gemini-pro',
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxTokens
+      }
+    });
+    const result = await model.generateContentStream(prompt, { signal: options.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
   // Generic generateResponse method for compatibility
   async generateResponse(prompt: string, options: any = {}): Promise<string> {
     try {
@@ -291,10 +401,7 @@ LANGUAGE: Respond in English with Hindi warmth
         return this.getDemoResponse(prompt);
       }
 
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
+      return await this.generateText(prompt, options);
     } catch (error) {
       console.error('Error generating response:', error);
       return this.getDemoResponse(prompt);
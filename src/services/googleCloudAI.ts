@@ -1,5 +1,9 @@
 // Browser-Compatible Google AI Integration for MannMitra
 import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { redactForLLM, restorePII, type PrivacyContext } from '../utils/piiRedaction';
+import { parseStructuredOutput } from '../utils/structuredOutput';
+import { promptRegistry, type PromptTemplateRef } from './promptRegistry';
+import { GOOGLE_CLOUD_RESPONSE_SCHEMA } from './responseSchemas';
 
 // Configuration
 const GEMINI_API_KEY = (import.meta as any).env.VITE_GEMINI_API_KEY as string || 'demo-key';
@@ -39,6 +43,8 @@ export interface MentalHealthContext {
     gad7: number;
     overallWellness: number;
   };
+  // From UserProfile['privacy']; personal details are redacted unless this is explicitly off
+  privacy?: PrivacyContext;
 }
 
 export interface AIResponse {
@@ -61,6 +67,7 @@ export interface AIResponse {
   culturalReferences: string[];
   audioResponse?: string; // Base64 encoded audio
   confidence: number;
+  promptTemplate?: PromptTemplateRef;
 }
 
 export interface VoiceAnalysis {
@@ -144,6 +151,25 @@ export class GoogleCloudMentalHealthAI {
     }
   }
 
+  isConfigured(): boolean {
+    return GEMINI_API_KEY !== 'demo-key' && !GEMINI_API_KEY.startsWith('demo-');
+  }
+
+  // Raw text generation - throws on failure so callers can fail over to another provider
+  async generateText(prompt: string): Promise<string> {
+    if (!this.isInitialized) {
+      await this.initializeServices();
+    }
+
+    const result = await this.model.generateContent(prompt);
+    const response = await result.response;
+    const text = response.text();
+    if (!text) {
+      throw new Error('Empty response received from Google AI');
+    }
+    return text;
+  }
+
   async generateEmpathicResponse(
     userMessage: string,
     context: MentalHealthContext
@@ -159,22 +185,50 @@ export class GoogleCloudMentalHealthAI {
         context.userProfile.preferredLanguage
       );
 
-      // 2. Build comprehensive prompt for Gemini
-      const prompt = this.buildAdvancedTherapeuticPrompt(translatedMessage, context);
+      // 2. Swap personal details for placeholders; they are put back in step 5
+      const redaction = redactForLLM(
+        [translatedMessage, ...context.conversationHistory.map(msg => msg.content)],
+        context.privacy
+      );
+      const [safeMessage, ...safeHistory] = redaction.texts;
+      if (redaction.entities.length > 0) {
+        console.log(`🔒 Redacted ${redaction.entities.length} personal detail(s) before sending to Google AI`);
+      }
 
-      // 3. Generate response using Vertex AI Gemini
-      const result = await this.model.generateContent(prompt);
+      // 3. Build comprehensive prompt for Gemini
+      const prompt = promptRegistry.render('google_cloud.therapeutic', {
+        message: safeMessage,
+        history: context.conversationHistory.map((msg, index) => ({ role: msg.role, content: safeHistory[index] })),
+        profile: context.userProfile,
+        state: context.currentState,
+        scores: context.assessmentScores,
+        goals: context.therapeuticGoals
+      }, { language: context.userProfile.preferredLanguage });
+
+      // 4. Generate response using Vertex AI Gemini
+      const result = await this.model.generateContent(prompt.text);
       const response = await result.response;
       const generatedText = response.text();
 
-      // 4. Parse and structure the response
-      const structuredResponse = await this.parseAndEnhanceResponse(
+      // 5. Parse and structure the response, restoring the redacted details
+      const parsedResponse = await this.parseAndEnhanceResponse(
         generatedText,
         context,
         detectedLanguage
       );
+      const structuredResponse: AIResponse = {
+        ...parsedResponse,
+        message: restorePII(parsedResponse.message, redaction.entities),
+        suggestedActions: parsedResponse.suggestedActions.map(item => ({
+          ...item,
+          action: restorePII(item.action, redaction.entities)
+        })),
+        copingStrategies: parsedResponse.copingStrategies.map(strategy => restorePII(strategy, redaction.entities)),
+        followUpQuestions: parsedResponse.followUpQuestions.map(question => restorePII(question, redaction.entities)),
+        promptTemplate: { templateId: prompt.templateId, version: prompt.version, language: prompt.language }
+      };
 
-      // 5. Generate audio response if needed
+      // 6. Generate audio response if needed
       if (context.userProfile.preferredLanguage !== 'en') {
         structuredResponse.audioResponse = await this.generateAudioResponse(
           structuredResponse.message,
@@ -217,140 +271,21 @@ export class GoogleCloudMentalHealthAI {
     }
   }
 
-  private buildAdvancedTherapeuticPrompt(message: string, context: MentalHealthContext): string {
-    return `
-You are "MannMitra" (मन मित्र), an advanced AI mental health companion specifically designed for Indian youth. You are trained in evidence-based therapeutic approaches including CBT, DBT, mindfulness, and culturally adapted interventions.
-
-COMPREHENSIVE USER CONTEXT:
-Demographics:
-- Age: ${context.userProfile.age}
-- Gender: ${context.userProfile.gender}
-- Location: ${context.userProfile.location}
-- Cultural Background: ${context.userProfile.culturalBackground}
-- Preferred Language: ${context.userProfile.preferredLanguage}
-- Previous Sessions: ${context.userProfile.previousSessions}
-
-Current Mental State:
-- Mood: ${context.currentState.mood}
-- Stress Level: ${context.currentState.stressLevel}
-- Energy Level: ${context.currentState.energyLevel}
-- Crisis Risk: ${context.currentState.crisisRisk}
-- Emotional Tone: ${context.currentState.emotionalTone}
-
-Assessment Scores:
-- PHQ-9 (Depression): ${context.assessmentScores.phq9}/27
-- GAD-7 (Anxiety): ${context.assessmentScores.gad7}/21
-- Overall Wellness: ${context.assessmentScores.overallWellness}/100
-
-Therapeutic Goals: ${context.therapeuticGoals.join(', ')}
-
-Recent Conversation History:
-${context.conversationHistory.slice(-5).map(msg => `${msg.role}: ${msg.content}`).join('\n')}
-
-CULTURAL SENSITIVITY GUIDELINES:
-- Understand Indian family dynamics, academic pressure, and social expectations
-- Be aware of mental health stigma in Indian society
-- Reference appropriate cultural concepts: dharma, karma, family honor, community support
-- Use respectful language addressing generational differences
-- Acknowledge festivals, traditions, and spiritual beliefs
-- Understand concepts like "log kya kahenge" (what will people say)
-- Be sensitive to economic disparities and accessibility issues
-
-THERAPEUTIC APPROACH:
-Based on the user's current state and history, employ:
-1. Cognitive Behavioral Therapy (CBT) techniques for thought restructuring
-2. Dialectical Behavior Therapy (DBT) skills for emotional regulation
-3. Mindfulness and meditation practices adapted for Indian context
-4. Solution-focused brief therapy for goal-oriented support
-5. Narrative therapy to help reframe personal stories
-6. Cultural adaptation of Western therapeutic models
-
-CRISIS ASSESSMENT:
-Current Risk Level: ${context.currentState.crisisRisk}
-${context.currentState.crisisRisk !== 'none' ? `
-IMPORTANT: User shows ${context.currentState.crisisRisk} crisis risk. 
-- Provide immediate safety planning
-- Offer crisis resources (Indian helplines)
-- Use de-escalation techniques
-- Encourage professional help
-- Follow up with safety checks
-` : ''}
-
-USER MESSAGE: "${message}"
-
-RESPONSE REQUIREMENTS:
-Generate a comprehensive therapeutic response in JSON format:
-
-{
-  "message": "Your empathetic, culturally sensitive response (150-200 words)",
-  "emotionalTone": "supportive|empathetic|encouraging|calming|urgent",
-  "suggestedActions": [
-    {
-      "action": "Specific actionable step",
-      "priority": "high|medium|low",
-      "category": "immediate|short_term|long_term"
-    }
-  ],
-  "copingStrategies": ["Strategy 1", "Strategy 2", "Strategy 3"],
-  "followUpQuestions": ["Question 1", "Question 2"],
-  "riskAssessment": {
-    "level": "none|low|moderate|high|severe",
-    "indicators": ["Indicator 1", "Indicator 2"],
-    "recommendedIntervention": "Specific recommendation"
-  },
-  "culturalReferences": ["Relevant cultural element or wisdom"],
-  "confidence": 0.85
-}
-
-LANGUAGE INSTRUCTIONS:
-- Primary language: ${context.userProfile.preferredLanguage}
-- If "mixed": Use natural Hinglish (Hindi-English code-switching)
-- If "hi": Respond primarily in Hindi with Devanagari script
-- If "en": Use English with occasional Hindi phrases for warmth
-- Include culturally appropriate greetings and expressions
-- Use respectful forms of address (आप, जी, etc.)
-
-THERAPEUTIC TECHNIQUES TO EMPLOY:
-1. Validation and normalization of emotions
-2. Cognitive restructuring for negative thought patterns
-3. Behavioral activation for depression
-4. Grounding techniques for anxiety
-5. Mindfulness exercises adapted for Indian context
-6. Problem-solving strategies
-7. Social support mobilization
-8. Strength-based interventions
-9. Cultural pride and identity affirmation
-10. Spiritual/philosophical integration when appropriate
-
-Remember: You are not just providing information, but engaging in a therapeutic relationship that honors the user's cultural identity while providing evidence-based mental health support.
-`;
-  }
-
   private async parseAndEnhanceResponse(
     generatedText: string,
     context: MentalHealthContext,
     originalLanguage: string
   ): Promise<AIResponse> {
     try {
-      // Try to parse JSON response
-      const cleanedResponse = generatedText.replace(/```json\n?|\n?```/g, '').trim();
-      const parsed = JSON.parse(cleanedResponse);
+      // Validated against the schema, with a repair pass for near-valid JSON
+      const parsed = parseStructuredOutput<Omit<AIResponse, 'originalLanguage'>>(generatedText, GOOGLE_CLOUD_RESPONSE_SCHEMA);
+      if (parsed.repaired) {
+        console.warn('🔧 Google AI reply JSON needed repair before it validated');
+      }
 
-      // Enhance with additional processing
       const enhanced: AIResponse = {
-        message: parsed.message,
-        originalLanguage,
-        emotionalTone: parsed.emotionalTone || 'supportive',
-        suggestedActions: parsed.suggestedActions || [],
-        copingStrategies: parsed.copingStrategies || [],
-        followUpQuestions: parsed.followUpQuestions || [],
-        riskAssessment: parsed.riskAssessment || {
-          level: 'none',
-          indicators: [],
-          recommendedIntervention: 'Continue supportive conversation'
-        },
-        culturalReferences: parsed.culturalReferences || [],
-        confidence: parsed.confidence || 0.8
+        ...parsed.value,
+        originalLanguage
       };
 
       // Translation would be handled here if needed
@@ -358,6 +293,7 @@ Remember: You are not just providing information, but engaging in a therapeutic
 
       return enhanced;
     } catch (error) {
+      // StructuredOutputError lists exactly which fields were wrong
       console.error('Error parsing AI response:', error);
       return this.getFallbackResponse(context);
     }
@@ -0,0 +1,157 @@
+// Intervention Feedback for MannMitra
+// In-chat "did this help?" feedback per intervention and technique, aggregated per user and globally for intervention selection
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import type { InterventionType } from '../utils/interventionCatalogue';
+
+const INTERVENTION_FEEDBACK = 'interventionFeedback';
+
+// Ratings a user needs before their own feedback outweighs everyone else's
+const PRIOR_STRENGTH = 3;
+
+export type FeedbackSignal =
+  | { kind: 'thumbs'; helpful: boolean }
+  // "Did this help?" from 1 (not at all) to 5 (a lot)
+  | { kind: 'rating'; rating: number }
+  // Mood slider before and after, 1 (very low) to 10 (very good)
+  | { kind: 'mood_shift'; before: number; after: number };
+
+export interface FeedbackTarget {
+  interventionType: InterventionType;
+  technique?: string;
+  sessionId?: string;
+}
+
+export interface InterventionFeedback extends FeedbackTarget {
+  id: string;
+  userId: string;
+  signal: FeedbackSignal;
+  // 0 (did not help) to 1 (helped a lot), comparable across signal kinds
+  score: number;
+  createdAt: Date;
+}
+
+export interface EffectivenessStat {
+  count: number;
+  mean: number;
+}
+
+export interface EffectivenessTable {
+  interventions: Partial<Record<InterventionType, EffectivenessStat>>;
+  techniques: Record<string, EffectivenessStat>;
+}
+
+// 0-1 per intervention and technique: the user's own feedback, pulled towards the global average while there is little of it
+export interface BlendedEffectiveness {
+  interventions: Partial<Record<InterventionType, number>>;
+  techniques: Record<string, number>;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function feedbackScore(signal: FeedbackSignal): number {
+  switch (signal.kind) {
+    case 'thumbs':
+      return signal.helpful ? 1 : 0;
+    case 'rating':
+      return (clamp(Math.round(signal.rating), 1, 5) - 1) / 4;
+    case 'mood_shift':
+      // A three point lift on the slider counts as fully helpful
+      return clamp(0.5 + (signal.after - signal.before) / 6, 0, 1);
+  }
+}
+
+function aggregate(entries: InterventionFeedback[]): EffectivenessTable {
+  const table: EffectivenessTable = { interventions: {}, techniques: {} };
+  const add = (stats: Record<string, EffectivenessStat>, key: string, score: number) => {
+    const stat = stats[key] || { count: 0, mean: 0 };
+    stats[key] = { count: stat.count + 1, mean: stat.mean + (score - stat.mean) / (stat.count + 1) };
+  };
+
+  entries.forEach(entry => {
+    add(table.interventions, entry.interventionType, entry.score);
+    if (entry.technique) add(table.techniques, entry.technique, entry.score);
+  });
+  return table;
+}
+
+function blend(own: Record<string, EffectivenessStat>, global: Record<string, EffectivenessStat>): Record<string, number> {
+  const blended: Record<string, number> = {};
+  new Set([...Object.keys(own), ...Object.keys(global)]).forEach(key => {
+    const prior = global[key]?.mean ?? 0.5;
+    const stat = own[key] || { count: 0, mean: 0 };
+    blended[key] = (stat.mean * stat.count + prior * PRIOR_STRENGTH) / (stat.count + PRIOR_STRENGTH);
+  });
+  return blended;
+}
+
+export class InterventionFeedbackService {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = storageAdapter) {
+    this.storage = storage;
+  }
+
+  async recordFeedback(userId: string, target: FeedbackTarget, signal: FeedbackSignal): Promise<InterventionFeedback> {
+    const now = new Date();
+    const entry: InterventionFeedback = {
+      id: `feedback_${userId}_${now.getTime()}_${Math.random().toString(36).substr(2, 6)}`,
+      userId,
+      ...target,
+      signal,
+      score: feedbackScore(signal),
+      createdAt: now
+    };
+
+    await this.storage.set(INTERVENTION_FEEDBACK, entry.id, entry);
+    console.log(`👍 Feedback on ${entry.interventionType}${entry.technique ? ` (${entry.technique})` : ''}: ${entry.score.toFixed(2)}`);
+    return entry;
+  }
+
+  // Newest first; every user's feedback when no user is given
+  async getFeedback(userId?: string): Promise<InterventionFeedback[]> {
+    try {
+      const entries = await this.storage.list<InterventionFeedback>(INTERVENTION_FEEDBACK);
+      return entries
+        .filter(entry => !userId || entry.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error loading intervention feedback:', error);
+      return [];
+    }
+  }
+
+  async getEffectiveness(userId?: string): Promise<EffectivenessTable> {
+    return aggregate(await this.getFeedback(userId));
+  }
+
+  async getBlendedEffectiveness(userId: string): Promise<BlendedEffectiveness> {
+    const entries = await this.getFeedback();
+    const global = aggregate(entries);
+    const own = aggregate(entries.filter(entry => entry.userId === userId));
+
+    return {
+      interventions: blend(own.interventions, global.interventions),
+      techniques: blend(own.techniques, global.techniques)
+    };
+  }
+
+  // The technique with the best blended score; techniques nobody has rated count as neutral, ties keep catalogue order
+  preferredTechnique(techniques: string[], effectiveness: BlendedEffectiveness): string | undefined {
+    return techniques.reduce<string | undefined>((best, technique) => {
+      if (best === undefined) return technique;
+      return (effectiveness.techniques[technique] ?? 0.5) > (effectiveness.techniques[best] ?? 0.5) ? technique : best;
+    }, undefined);
+  }
+
+  // The global averages are computed from stored entries, so they forget this user too
+  async deleteForUser(userId: string): Promise<void> {
+    const entries = await this.getFeedback(userId);
+    await Promise.all(entries.map(entry => this.storage.delete(INTERVENTION_FEEDBACK, entry.id)));
+  }
+}
+
+// Export singleton instance
+export const interventionFeedback = new InterventionFeedbackService();
@@ -0,0 +1,359 @@
+// LLM Provider Abstraction for MannMitra
+// One interface for every text model, with ordered failover, timeouts and health tracking
+
+export interface LLMGenerationOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // For streams this bounds the wait for the first chunk and for each chunk after it
+  timeoutMs?: number;
+  // Cancels the request, e.g. when the user stops a streamed reply or the safety guard blocks it
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  generate(prompt: string, options: LLMGenerationOptions): Promise<string>;
+  // Optional; providers without it are streamed as a single chunk
+  stream?(prompt: string, options: LLMGenerationOptions): AsyncIterable<string>;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: string;
+  latencyMs: number;
+  attempts: LLMAttempt[];
+}
+
+export interface LLMAttempt {
+  provider: string;
+  success: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  averageLatencyMs: number;
+  lastError?: string;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  cooldownUntil?: Date;
+}
+
+export interface ProviderRegistrationOptions {
+  timeoutMs?: number;
+  priority?: number;
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class LLMUnavailableError extends Error {
+  attempts: LLMAttempt[];
+
+  constructor(attempts: LLMAttempt[]) {
+    super(attempts.length > 0
+      ? `All LLM providers failed: ${attempts.map(a => `${a.provider} (${a.error})`).join(', ')}`
+      : 'No LLM providers are available');
+    this.name = 'LLMUnavailableError';
+    this.attempts = attempts;
+  }
+}
+
+interface RegisteredProvider {
+  provider: LLMProvider;
+  timeoutMs: number;
+  priority: number;
+  health: ProviderHealth;
+}
+
+export class LLMRegistry {
+  private providers: Map<string, RegisteredProvider> = new Map();
+  private registrationCount = 0;
+
+  constructor(
+    private options: {
+      defaultTimeoutMs?: number;
+      failureThreshold?: number;
+      cooldownMs?: number;
+    } = {}
+  ) {}
+
+  register(provider: LLMProvider, options: ProviderRegistrationOptions = {}): void {
+    this.providers.set(provider.name, {
+      provider,
+      timeoutMs: options.timeoutMs ?? this.options.defaultTimeoutMs ?? 15000,
+      // Later registrations go to the back of the queue unless a priority is given
+      priority: options.priority ?? ++this.registrationCount * 10,
+      health: this.createHealth(provider.name)
+    });
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  // Reorder providers explicitly; names not listed keep their relative order after the listed ones
+  setOrder(names: string[]): void {
+    const unlisted = this.getOrderedProviders().filter(entry => !names.includes(entry.provider.name));
+    names.forEach((name, index) => {
+      const entry = this.providers.get(name);
+      if (entry) entry.priority = index;
+    });
+    unlisted.forEach((entry, index) => {
+      entry.priority = names.length + index;
+    });
+  }
+
+  getProviderNames(): string[] {
+    return this.getOrderedProviders().map(entry => entry.provider.name);
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.getOrderedProviders().map(entry => ({ ...entry.health }));
+  }
+
+  resetHealth(name?: string): void {
+    this.providers.forEach(entry => {
+      if (!name || entry.provider.name === name) {
+        entry.health = this.createHealth(entry.provider.name);
+      }
+    });
+  }
+
+  // Convenience wrapper for callers that only need the text
+  async generate(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const completion = await this.complete(prompt, options);
+    return completion.text;
+  }
+
+  async complete(prompt: string, options: LLMGenerationOptions = {}): Promise<LLMCompletion> {
+    const attempts: LLMAttempt[] = [];
+    const candidates = this.getCandidates();
+
+    for (const entry of candidates) {
+      const startedAt = Date.now();
+      try {
+        const text = await this.withTimeout(
+          entry.provider.generate(prompt, options),
+          entry.provider.name,
+          options.timeoutMs ?? entry.timeoutMs,
+          options.signal
+        );
+        const latencyMs = Date.now() - startedAt;
+
+        this.recordSuccess(entry, latencyMs);
+        attempts.push({ provider: entry.provider.name, success: true, latencyMs });
+
+        return { text, provider: entry.provider.name, latencyMs, attempts };
+      } catch (error) {
+        const latencyMs = Date.now() - startedAt;
+        const message = error instanceof Error ? error.message : String(error);
+
+        // Stopped by the caller: not the provider's fault, and nothing else should be tried
+        if (options.signal?.aborted) throw error;
+        this.recordFailure(entry, message);
+        attempts.push({ provider: entry.provider.name, success: false, latencyMs, error: message });
+        console.warn(`⚠️ LLM provider ${entry.provider.name} failed, trying next:`, message);
+      }
+    }
+
+    throw new LLMUnavailableError(attempts);
+  }
+
+  // Yields text as it arrives; fails over to the next provider only until the first chunk is out,
+  // after that the reply is committed and errors - a stall between chunks included - reach the caller
+  async *stream(prompt: string, options: LLMGenerationOptions = {}): AsyncGenerator<string> {
+    const attempts: LLMAttempt[] = [];
+
+    for (const entry of this.getCandidates()) {
+      if (options.signal?.aborted) return;
+
+      const startedAt = Date.now();
+      const timeoutMs = options.timeoutMs ?? entry.timeoutMs;
+      // Each attempt gets its own signal so a timed-out request is cancelled, not just abandoned
+      const request = new AbortController();
+      const cancel = () => request.abort();
+      options.signal?.addEventListener('abort', cancel);
+      const iterator = this.openStream(entry.provider, prompt, { ...options, signal: request.signal })[Symbol.asyncIterator]();
+      const close = () => {
+        request.abort();
+        options.signal?.removeEventListener('abort', cancel);
+        // A stalled provider never settles its pending chunk, and its cleanup would queue behind it
+        iterator.return?.(undefined).catch(() => undefined);
+      };
+
+      let first: IteratorResult<string>;
+      try {
+        first = await this.withTimeout(iterator.next(), entry.provider.name, timeoutMs, options.signal);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        close();
+        // Stopped by the caller: not the provider's fault, and nothing else should be tried
+        if (options.signal?.aborted) return;
+        this.recordFailure(entry, message);
+        attempts.push({ provider: entry.provider.name, success: false, latencyMs: Date.now() - startedAt, error: message });
+        console.warn(`⚠️ LLM provider ${entry.provider.name} failed to start streaming, trying next:`, message);
+        continue;
+      }
+
+      // Time to first chunk is what the user feels, so that is the latency recorded
+      this.recordSuccess(entry, Date.now() - startedAt);
+      try {
+        for (
+          let next = first;
+          !next.done;
+          next = await this.withTimeout(iterator.next(), entry.provider.name, timeoutMs, options.signal)
+        ) {
+          if (options.signal?.aborted) return;
+          yield next.value;
+        }
+      } catch (error) {
+        if (options.signal?.aborted) return;
+        throw error;
+      } finally {
+        close();
+      }
+      return;
+    }
+
+    throw new LLMUnavailableError(attempts);
+  }
+
+  private async *openStream(provider: LLMProvider, prompt: string, options: LLMGenerationOptions): AsyncGenerator<string> {
+    if (provider.stream) {
+      yield* provider.stream(prompt, options);
+    } else {
+      yield await provider.generate(prompt, options);
+    }
+  }
+
+  private getOrderedProviders(): RegisteredProvider[] {
+    return Array.from(this.providers.values()).sort((a, b) => a.priority - b.priority);
+  }
+
+  // Healthy providers first; providers in cooldown are only tried as a last resort
+  private getCandidates(): RegisteredProvider[] {
+    const now = Date.now();
+    const available = this.getOrderedProviders().filter(entry => entry.provider.isAvailable());
+
+    const healthy = available.filter(entry =>
+      !entry.health.cooldownUntil || entry.health.cooldownUntil.getTime() <= now
+    );
+    const coolingDown = available.filter(entry => !healthy.includes(entry));
+
+    return [...healthy, ...coolingDown];
+  }
+
+  // With a signal, an abort also stops the wait, even when the provider ignores the signal
+  private withTimeout<T>(promise: Promise<T>, provider: string, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new LLMTimeoutError(provider, timeoutMs)), timeoutMs);
+      if (signal) {
+        onAbort = () => reject(new Error(`${provider} request was aborted`));
+        if (signal.aborted) onAbort();
+        signal.addEventListener('abort', onAbort);
+      }
+    });
+
+    return Promise.race([promise, timeout]).finally(() => {
+      if (timer) clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    });
+  }
+
+  private recordSuccess(entry: RegisteredProvider, latencyMs: number): void {
+    const health = entry.health;
+    const successfulRequests = health.totalRequests - health.totalFailures;
+
+    health.averageLatencyMs = (health.averageLatencyMs * successfulRequests + latencyMs) / (successfulRequests + 1);
+    health.totalRequests++;
+    health.consecutiveFailures = 0;
+    health.healthy = true;
+    health.lastSuccessAt = new Date();
+    health.cooldownUntil = undefined;
+  }
+
+  private recordFailure(entry: RegisteredProvider, errorMessage: string): void {
+    const health = entry.health;
+
+    health.totalRequests++;
+    health.totalFailures++;
+    health.consecutiveFailures++;
+    health.lastError = errorMessage;
+    health.lastFailureAt = new Date();
+
+    if (health.consecutiveFailures >= (this.options.failureThreshold ?? 3)) {
+      health.healthy = false;
+      health.cooldownUntil = new Date(Date.now() + (this.options.cooldownMs ?? 60000));
+    }
+  }
+
+  private createHealth(provider: string): ProviderHealth {
+    return {
+      provider,
+      healthy: true,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      averageLatencyMs: 0
+    };
+  }
+}
+
+// Offline provider with canned supportive replies - always available, used for local development
+export class LocalStubProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(
+    private respond: (prompt: string) => string = defaultStubResponse,
+    name: string = 'local-stub'
+  ) {
+    this.name = name;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    return this.respond(prompt);
+  }
+
+  // Word by word, so streaming UIs can be exercised offline
+  async *stream(prompt: string): AsyncGenerator<string> {
+    for (const word of this.respond(prompt).match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  }
+}
+
+function defaultStubResponse(prompt: string): string {
+  const lowerPrompt = prompt.toLowerCase();
+
+  if (lowerPrompt.includes('crisis') || lowerPrompt.includes('emergency')) {
+    return "I understand you're going through a difficult time. Please remember that help is available. If you're in immediate danger, please contact emergency services or a crisis helpline.";
+  }
+
+  if (lowerPrompt.includes('sad') || lowerPrompt.includes('depressed')) {
+    return "I hear that you're feeling sad. These feelings are valid, and it's okay to not be okay sometimes. Would you like to talk about what's been troubling you?";
+  }
+
+  if (lowerPrompt.includes('anxious') || lowerPrompt.includes('worried')) {
+    return "Anxiety can be overwhelming. Let's take this one step at a time. Have you tried any breathing exercises or grounding techniques?";
+  }
+
+  return "I'm here to listen and support you. Your mental health matters, and you're taking a positive step by reaching out.";
+}
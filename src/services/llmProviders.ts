@@ -0,0 +1,78 @@
+// Concrete LLM providers backed by the Google AI services
+// The shared registry tries them in order; the local stub is only added in development or when configured
+
+import { geminiAI } from './geminiAI';
+import { vertexAI } from './vertexAI';
+import { googleCloudAI } from './googleCloudAI';
+import { LLMRegistry, LocalStubProvider, type LLMProvider, type LLMGenerationOptions } from './llmProvider';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+
+  isAvailable(): boolean {
+    return geminiAI.isConfigured();
+  }
+
+  generate(prompt: string, options: LLMGenerationOptions): Promise<string> {
+    return geminiAI.generateText(prompt, options);
+  }
+
+  stream(prompt: string, options: LLMGenerationOptions): AsyncIterable<string> {
+    return geminiAI.generateTextStream(prompt, options);
+  }
+}
+
+export class VertexAIProvider implements LLMProvider {
+  readonly name = 'vertex';
+
+  isAvailable(): boolean {
+    return vertexAI.isConfigured();
+  }
+
+  generate(prompt: string, options: LLMGenerationOptions): Promise<string> {
+    return vertexAI.generateText(prompt, options);
+  }
+}
+
+export class GoogleCloudProvider implements LLMProvider {
+  readonly name = 'google-cloud';
+
+  isAvailable(): boolean {
+    return googleCloudAI.isConfigured();
+  }
+
+  generate(prompt: string): Promise<string> {
+    return googleCloudAI.generateText(prompt);
+  }
+}
+
+export function createDefaultRegistry(): LLMRegistry {
+  const env = (import.meta as any).env || {};
+  const registry = new LLMRegistry({ defaultTimeoutMs: 15000, failureThreshold: 3, cooldownMs: 60000 });
+
+  registry.register(new GeminiProvider(), { timeoutMs: 15000 });
+  registry.register(new VertexAIProvider(), { timeoutMs: 20000 });
+  registry.register(new GoogleCloudProvider(), { timeoutMs: 15000 });
+
+  // e.g. VITE_LLM_PROVIDER_ORDER=local-stub for fully offline development
+  const configuredOrder = ((env.VITE_LLM_PROVIDER_ORDER as string | undefined) || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  // The stub never fails, so in production it would hide outages behind canned text and keep callers'
+  // own risk-aware fallbacks from running; it is only used in development or when named explicitly
+  const stub = new LocalStubProvider();
+  if (env.DEV || configuredOrder.includes(stub.name)) {
+    registry.register(stub, { timeoutMs: 1000 });
+  }
+
+  if (configuredOrder.length > 0) {
+    registry.setOrder(configuredOrder);
+  }
+
+  return registry;
+}
+
+// Export singleton instance
+export const llmRegistry = createDefaultRegistry();
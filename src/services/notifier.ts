@@ -0,0 +1,117 @@
+// Notifiers for MannMitra
+// Delivery channels for trusted-contact alerts; SMS and email go through a configured gateway, the log notifier works offline
+
+export type NotifierChannel = 'sms' | 'email' | 'log';
+
+export interface NotifierMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface NotifierResult {
+  delivered: boolean;
+  // Message id returned by the gateway, kept in the alert audit trail
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface Notifier {
+  readonly name: string;
+  readonly channel: NotifierChannel;
+  isAvailable(): boolean;
+  send(message: NotifierMessage): Promise<NotifierResult>;
+}
+
+// Stand-in for development and demos: nothing leaves the device, so a send is never reported as delivered
+export class LogNotifier implements Notifier {
+  readonly name = 'log';
+  readonly channel: NotifierChannel = 'log';
+  readonly sent: NotifierMessage[] = [];
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async send(message: NotifierMessage): Promise<NotifierResult> {
+    this.sent.push(message);
+    console.log(`📨 [log notifier] to ${message.to}: ${message.subject}`);
+    return {
+      delivered: false,
+      providerMessageId: `log_${Date.now()}_${this.sent.length}`,
+      error: 'logged locally; no SMS or email gateway is configured'
+    };
+  }
+}
+
+// The browser cannot hold SMS or SMTP credentials, so both adapters post to a small backend gateway
+abstract class GatewayNotifier implements Notifier {
+  abstract readonly name: string;
+  abstract readonly channel: NotifierChannel;
+  private endpoint?: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(endpoint?: string, fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.endpoint = endpoint;
+    this.fetchImpl = fetchImpl;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.endpoint);
+  }
+
+  async send(message: NotifierMessage): Promise<NotifierResult> {
+    if (!this.endpoint) {
+      return { delivered: false, error: `${this.name} gateway is not configured` };
+    }
+
+    try {
+      const response = await this.fetchImpl(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(this.toPayload(message))
+      });
+
+      if (!response.ok) {
+        return { delivered: false, error: `${this.name} gateway responded ${response.status}` };
+      }
+
+      const data = await response.json().catch(() => ({}));
+      return { delivered: true, providerMessageId: data.id || data.messageId };
+    } catch (error) {
+      console.error(`${this.name} notifier error:`, error);
+      return { delivered: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  protected abstract toPayload(message: NotifierMessage): Record<string, string>;
+}
+
+export class SmsNotifier extends GatewayNotifier {
+  readonly name = 'sms';
+  readonly channel: NotifierChannel = 'sms';
+
+  // SMS has no subject line, so it is folded into the body
+  protected toPayload(message: NotifierMessage) {
+    return { to: message.to, text: `${message.subject}\n${message.body}` };
+  }
+}
+
+export class EmailNotifier extends GatewayNotifier {
+  readonly name = 'email';
+  readonly channel: NotifierChannel = 'email';
+
+  protected toPayload(message: NotifierMessage) {
+    return { to: message.to, subject: message.subject, text: message.body };
+  }
+}
+
+export function createDefaultNotifiers(): Record<NotifierChannel, Notifier> {
+  const env = (import.meta as any).env || {};
+
+  return {
+    sms: new SmsNotifier(env.VITE_SMS_GATEWAY_URL),
+    email: new EmailNotifier(env.VITE_EMAIL_GATEWAY_URL),
+    log: new LogNotifier()
+  };
+}
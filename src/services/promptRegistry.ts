@@ -0,0 +1,163 @@
+// Prompt Registry for MannMitra
+// Looks up prompt templates by id and version, renders them, and supports pinning an older version to roll back
+
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  toPromptLanguage,
+  type PromptLanguage,
+  type PromptTemplate,
+  type PromptTemplateId,
+  type PromptVariablesById
+} from './promptTemplates';
+
+// Recorded on every response generated from a template, so prompt versions can be compared later
+export interface PromptTemplateRef {
+  templateId: PromptTemplateId;
+  version: string;
+  language: PromptLanguage;
+}
+
+export interface RenderedPrompt extends PromptTemplateRef {
+  text: string;
+}
+
+export interface RenderOptions {
+  // 'hi' / 'en' / 'mixed' or 'hindi' / 'english' / 'mixed'
+  language?: string;
+  // Render this exact version instead of the active one
+  version?: string;
+}
+
+export class PromptTemplateNotFoundError extends Error {
+  constructor(templateId: string, version?: string) {
+    super(version ? `Prompt template ${templateId}@${version} is not registered` : `Prompt template ${templateId} is not registered`);
+    this.name = 'PromptTemplateNotFoundError';
+  }
+}
+
+export class MissingPromptVariableError extends Error {
+  missing: string[];
+
+  constructor(templateId: string, missing: string[]) {
+    super(`Prompt template ${templateId} is missing variables: ${missing.join(', ')}`);
+    this.name = 'MissingPromptVariableError';
+    this.missing = missing;
+  }
+}
+
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate<any>[]>();
+  private pinned = new Map<string, string>();
+
+  constructor(templates: PromptTemplate<any>[] = []) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register<K extends PromptTemplateId>(template: PromptTemplate<K>): void {
+    const versions = (this.templates.get(template.id) || []).filter(existing => existing.version !== template.version);
+    versions.push(template);
+    versions.sort((a, b) => compareVersions(a.version, b.version));
+    this.templates.set(template.id, versions);
+  }
+
+  list(): Array<{ templateId: string; activeVersion: string; versions: string[]; pinned: boolean }> {
+    return Array.from(this.templates.keys()).map(templateId => ({
+      templateId,
+      activeVersion: this.getActiveVersion(templateId),
+      versions: this.listVersions(templateId),
+      pinned: this.pinned.has(templateId)
+    }));
+  }
+
+  listVersions(templateId: string): string[] {
+    return (this.templates.get(templateId) || []).map(template => template.version);
+  }
+
+  // The pinned version if there is one, otherwise the newest
+  getActiveVersion(templateId: string): string {
+    const versions = this.listVersions(templateId);
+    if (versions.length === 0) {
+      throw new PromptTemplateNotFoundError(templateId);
+    }
+    return this.pinned.get(templateId) || versions[versions.length - 1];
+  }
+
+  get<K extends PromptTemplateId>(templateId: K, version?: string): PromptTemplate<K> {
+    const wanted = version || this.getActiveVersion(templateId);
+    const template = (this.templates.get(templateId) || []).find(candidate => candidate.version === wanted);
+    if (!template) {
+      throw new PromptTemplateNotFoundError(templateId, wanted);
+    }
+    return template;
+  }
+
+  // Roll back (or forward) to a registered version until unpinned
+  pin(templateId: PromptTemplateId, version: string): void {
+    this.get(templateId, version);
+    this.pinned.set(templateId, version);
+    console.log(`📌 Prompt template ${templateId} pinned to ${version}`);
+  }
+
+  unpin(templateId: PromptTemplateId): void {
+    this.pinned.delete(templateId);
+  }
+
+  render<K extends PromptTemplateId>(
+    templateId: K,
+    variables: PromptVariablesById[K],
+    options: RenderOptions = {}
+  ): RenderedPrompt {
+    const template = this.get(templateId, options.version);
+
+    const missing = template.requiredVariables.filter(name => variables?.[name] === undefined || variables?.[name] === null);
+    if (missing.length > 0) {
+      throw new MissingPromptVariableError(templateId, missing);
+    }
+
+    const language = toPromptLanguage(options.language);
+    const instructions = template.languageVariants[language] || template.languageVariants.mixed;
+
+    return {
+      templateId,
+      version: template.version,
+      language,
+      text: template.render(variables, { code: language, instructions })
+    };
+  }
+}
+
+export function createDefaultPromptRegistry(): PromptRegistry {
+  const registry = new PromptRegistry(DEFAULT_PROMPT_TEMPLATES);
+
+  // e.g. VITE_PROMPT_VERSIONS=gemini.companion@1.0.0 to roll a bad prompt back without a code change
+  const configuredPins = (import.meta as any).env?.VITE_PROMPT_VERSIONS as string | undefined;
+  if (configuredPins) {
+    configuredPins.split(',').map(pin => pin.trim()).filter(Boolean).forEach(pin => {
+      const [templateId, version] = pin.split('@');
+      try {
+        registry.pin(templateId as PromptTemplateId, version);
+      } catch (error) {
+        console.error('Prompt version pin error:', error);
+      }
+    });
+  }
+
+  return registry;
+}
+
+export function formatTemplateRef(ref?: PromptTemplateRef): string | undefined {
+  return ref ? `${ref.templateId}@${ref.version}` : undefined;
+}
+
+// Export singleton instance
+export const promptRegistry = createDefaultPromptRegistry();
@@ -1,5 +1,6 @@
 // Real Google AI Integration - Browser Compatible
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { promptRegistry, type PromptTemplateRef } from './promptRegistry';
 
 // Configuration
 const GEMINI_API_KEY = (import.meta as any).env.VITE_GEMINI_API_KEY as string;
@@ -19,6 +20,7 @@ export interface MentalHealthResponse {
   culturalReferences: string[];
   confidence: number;
   isRealAI: boolean;
+  promptTemplate?: PromptTemplateRef;
 }
 
 export interface ConversationContext {
@@ -71,41 +73,26 @@ export class RealGoogleAI {
     }
 
     try {
-      const prompt = this.buildMentalHealthPrompt(userMessage, context);
-      const result = await this.model.generateContent(prompt);
+      const prompt = promptRegistry.render('google.companion', {
+        message: userMessage,
+        mood: context.currentMood,
+        stressLevel: context.stressLevel,
+        crisisLevel: context.crisisLevel,
+        interests: context.userInterests
+      }, { language: context.language });
+      const result = await this.model.generateContent(prompt.text);
       const response = await result.response;
 
-      return this.parseResponse(response.text(), context);
+      return {
+        ...this.parseResponse(response.text(), context),
+        promptTemplate: { templateId: prompt.templateId, version: prompt.version, language: prompt.language }
+      };
     } catch (error) {
       console.error('Google AI API Error:', error);
       return this.getFallbackResponse(context);
     }
   }
 
-  private buildMentalHealthPrompt(userMessage: string, context: ConversationContext): string {
-    return `
-You are MannMitra, an AI mental health companion for Indian youth. Respond empathetically and culturally sensitively.
-
-Context:
-- Language preference: ${context.language}
-- Current mood: ${context.currentMood}
-- Stress level: ${context.stressLevel}
-- Crisis level: ${context.crisisLevel}
-- User interests: ${context.userInterests.join(', ')}
-
-User message: "${userMessage}"
-
-Provide a JSON response with:
-{
-  "message": "Empathetic response in ${context.language} language",
-  "suggestedActions": ["Action 1", "Action 2", "Action 3"],
-  "riskAssessment": "Assessment of user's mental state",
-  "culturalReferences": ["Relevant cultural wisdom or phrases"],
-  "confidence": 0.8
-}
-`;
-  }
-
   private parseResponse(responseText: string, context: ConversationContext): MentalHealthResponse {
     try {
       const cleanedResponse = responseText.replace(/```json\n?|\n?```/g, '').trim();
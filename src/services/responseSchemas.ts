@@ -0,0 +1,123 @@
+// Response Schemas for MannMitra
+// JSON Schemas the models are asked to follow; replies are validated against them before any field is used
+
+import type { JSONSchema } from '../utils/structuredOutput';
+
+const RISK_LEVELS = ['none', 'low', 'moderate', 'high', 'severe'];
+
+const stringList = (minItems: number, maxItems: number): JSONSchema => ({
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  minItems,
+  maxItems
+});
+
+// orchestrator.text_analysis
+export const TEXT_ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    themes: { ...stringList(0, 8), default: [] },
+    emotions: { ...stringList(0, 8), default: [] },
+    cognitivePatterns: { ...stringList(0, 8), default: [] },
+    behavioralIndicators: { ...stringList(0, 8), default: [] },
+    strengths: { ...stringList(0, 8), default: [] }
+  },
+  required: ['themes', 'emotions', 'cognitivePatterns', 'behavioralIndicators', 'strengths']
+};
+
+// geminiAI AIResponse
+export const GEMINI_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string', minLength: 1, description: 'Empathetic, culturally aware reply, 100-150 words' },
+    suggestedActions: { ...stringList(1, 5), description: 'Immediate, short-term and long-term steps' },
+    moodAssessment: { type: 'string', minLength: 1 },
+    followUpQuestions: { ...stringList(1, 3), description: 'Gentle questions that invite reflection' }
+  },
+  required: ['message', 'suggestedActions', 'moodAssessment', 'followUpQuestions']
+};
+
+// vertexAI generateMentalHealthResponse
+export const VERTEX_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string', minLength: 1, description: 'Empathetic, culturally sensitive reply, 150-200 words' },
+    suggestedActions: stringList(1, 5),
+    riskAssessment: { type: 'string', minLength: 1 },
+    culturalReferences: { ...stringList(0, 3), default: [] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: ['message', 'suggestedActions', 'riskAssessment', 'culturalReferences', 'confidence']
+};
+
+// googleCloudAI AIResponse
+export const GOOGLE_CLOUD_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string', minLength: 1, description: 'Empathetic, culturally sensitive reply, 150-200 words' },
+    emotionalTone: {
+      type: 'string',
+      enum: ['supportive', 'empathetic', 'encouraging', 'calming', 'urgent'],
+      default: 'supportive'
+    },
+    suggestedActions: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 5,
+      items: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', minLength: 1 },
+          priority: { type: 'string', enum: ['high', 'medium', 'low'], default: 'medium' },
+          category: { type: 'string', enum: ['immediate', 'short_term', 'long_term'], default: 'short_term' }
+        },
+        required: ['action', 'priority', 'category']
+      }
+    },
+    copingStrategies: stringList(1, 5),
+    followUpQuestions: stringList(1, 3),
+    riskAssessment: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: RISK_LEVELS },
+        indicators: { ...stringList(0, 5), default: [] },
+        recommendedIntervention: { type: 'string', minLength: 1 }
+      },
+      required: ['level', 'indicators', 'recommendedIntervention']
+    },
+    culturalReferences: { ...stringList(0, 3), default: [] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: [
+    'message',
+    'emotionalTone',
+    'suggestedActions',
+    'copingStrategies',
+    'followUpQuestions',
+    'riskAssessment',
+    'culturalReferences',
+    'confidence'
+  ]
+};
+
+// conversationMemory rolling session summary
+export const SESSION_SUMMARY_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1, description: 'Notes on what the user talked about and what helped, 2-4 sentences' },
+    facts: {
+      type: 'array',
+      maxItems: 8,
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['stressor', 'person', 'goal', 'coping_strategy'] },
+          text: { type: 'string', minLength: 1 }
+        },
+        required: ['kind', 'text']
+      }
+    }
+  },
+  required: ['summary', 'facts']
+};
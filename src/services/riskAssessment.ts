@@ -0,0 +1,175 @@
+// Unified Risk Assessment for MannMitra
+// One scoring pipeline for every chat surface, so a message gets the same level everywhere
+
+import type { CrisisAssessment, RiskLevel, RiskSignal } from '../types';
+import { evaluateCrisisRules } from '../utils/crisisRules';
+import { CRISIS_RULES, PROTECTIVE_RULES, getRecommendedHelplines } from '../utils/crisisDetection';
+
+export interface RiskContext {
+  // Output of emotion detection for the same turn (text, voice or facial)
+  emotionalAnalysis?: {
+    intensity?: number;
+    valence?: number;
+  };
+  // Risk factors already known from the user's history
+  riskHistory?: string[];
+  // Used to rank helplines the user can actually reach
+  location?: {
+    state?: string;
+  };
+  preferredLanguage?: string;
+}
+
+// Bump whenever rules, weights or thresholds change, so audited decisions can be replayed against the right detector
+export const RISK_DETECTOR_VERSION = 'risk-rules/1.3.0';
+
+const LEVEL_THRESHOLDS: Array<{ level: RiskLevel; minScore: number }> = [
+  { level: 'severe', minScore: 15 },
+  { level: 'high', minScore: 10 },
+  { level: 'moderate', minScore: 5 },
+  { level: 'low', minScore: 2 }
+];
+
+const LEVEL_RESPONSES: Record<RiskLevel, { confidence: number; recommendedAction: string; immediateResponse: string }> = {
+  severe: {
+    confidence: 0.9,
+    recommendedAction: 'immediate_intervention',
+    immediateResponse: 'मुझे आपकी बहुत चिंता है। कृपया तुरंत किसी professional से बात करें। / I\'m very concerned about you. Please talk to a professional immediately.'
+  },
+  high: {
+    confidence: 0.8,
+    recommendedAction: 'crisis_resources',
+    immediateResponse: 'आप अकेले नहीं हैं। मदद उपलब्ध है। / You are not alone. Help is available.'
+  },
+  moderate: {
+    confidence: 0.6,
+    recommendedAction: 'supportive_resources',
+    immediateResponse: 'मैं समझ सकता हूं यह कठिन समय है। आइए कुछ सहायक तकनीकें try करते हैं। / I understand this is a difficult time. Let\'s try some supportive techniques.'
+  },
+  low: {
+    confidence: 0.4,
+    recommendedAction: 'monitoring',
+    immediateResponse: 'आपकी भावनाएं समझ में आती हैं। मैं यहां आपको सुनने के लिए हूं। / Your feelings are understandable. I\'m here to listen.'
+  },
+  none: {
+    confidence: 0,
+    recommendedAction: '',
+    immediateResponse: ''
+  }
+};
+
+export class RiskAssessmentService {
+  assess(message: string, context: RiskContext = {}): CrisisAssessment {
+    const { dimensions, trace } = evaluateCrisisRules(message, [...CRISIS_RULES, ...PROTECTIVE_RULES]);
+
+    const signals: RiskSignal[] = trace.map(entry => ({
+      id: entry.ruleId,
+      kind: entry.dimension === 'protective' ? 'protective' : 'risk',
+      source: 'message',
+      dimension: entry.dimension,
+      evidence: entry.matchedText,
+      score: entry.score,
+      modifiers: [...entry.modifiers]
+    }));
+
+    signals.push(...this.assessEmotionalSignals(context));
+    signals.push(...this.assessHistorySignals(context));
+
+    const riskSignals = signals.filter(signal => signal.kind === 'risk' && signal.score > 0);
+    const score = Math.round(riskSignals.reduce((sum, signal) => sum + signal.score, 0) * 10) / 10;
+    const level = this.levelForScore(score);
+    const assessedAt = new Date();
+
+    const assessment: CrisisAssessment = {
+      level,
+      ...LEVEL_RESPONSES[level],
+      score,
+      dimensions: { ...dimensions },
+      signals,
+      indicators: Array.from(new Set(riskSignals.map(signal => signal.id))),
+      protectiveFactors: Array.from(new Set(
+        trace.filter(entry => entry.dimension === 'protective' && !entry.negated).map(entry => entry.ruleId)
+      )),
+      triggeredKeywords: trace.filter(entry => entry.score > 0).map(entry => entry.phrase),
+      resources: { helplines: [] },
+      assessedAt,
+      detectorVersion: RISK_DETECTOR_VERSION
+    };
+
+    riskSignals.forEach(signal => {
+      if (signal.source !== 'message') {
+        assessment.dimensions[signal.dimension] = (assessment.dimensions[signal.dimension] || 0) + signal.score;
+      }
+    });
+
+    if (level !== 'none' && level !== 'low') {
+      const helplines = getRecommendedHelplines(assessment, {
+        state: context.location?.state,
+        language: context.preferredLanguage,
+        at: assessedAt
+      });
+      assessment.resources.helplines = helplines.map(helpline => ({
+        name: helpline.name,
+        number: helpline.number,
+        availability: helpline.availability,
+        openNow: helpline.openNow
+      }));
+    }
+
+    return assessment;
+  }
+
+  levelForScore(score: number): RiskLevel {
+    return LEVEL_THRESHOLDS.find(threshold => score >= threshold.minScore)?.level || 'none';
+  }
+
+  private assessEmotionalSignals(context: RiskContext): RiskSignal[] {
+    const intensity = context.emotionalAnalysis?.intensity ?? 0;
+    const valence = context.emotionalAnalysis?.valence ?? 0;
+
+    if (intensity > 0.8 && valence < -0.5) {
+      return [{
+        id: 'severe_emotional_distress',
+        kind: 'risk',
+        source: 'emotion',
+        dimension: 'distress',
+        evidence: `intensity ${intensity.toFixed(2)}, valence ${valence.toFixed(2)}`,
+        score: 5,
+        modifiers: []
+      }];
+    }
+
+    if (intensity > 0.6) {
+      return [{
+        id: 'elevated_emotional_intensity',
+        kind: 'risk',
+        source: 'emotion',
+        dimension: 'distress',
+        evidence: `intensity ${intensity.toFixed(2)}`,
+        score: 2,
+        modifiers: []
+      }];
+    }
+
+    return [];
+  }
+
+  private assessHistorySignals(context: RiskContext): RiskSignal[] {
+    if (!context.riskHistory || context.riskHistory.length === 0) {
+      return [];
+    }
+
+    return [{
+      id: 'known_risk_factors',
+      kind: 'risk',
+      source: 'history',
+      dimension: 'history',
+      evidence: context.riskHistory.join(', '),
+      score: 2,
+      modifiers: []
+    }];
+  }
+}
+
+// Export singleton instance
+export const riskAssessmentService = new RiskAssessmentService();
@@ -0,0 +1,318 @@
+// Safety Audit Log for MannMitra
+// Append-only, hash-chained record of every risk decision, what the user was shown and what they did next
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import type { GuardResult } from '../utils/responseGuard';
+import type { InjectionAssessment } from '../utils/promptSafety';
+import type { CrisisAssessment, RiskLevel, RiskSignal } from '../types';
+
+const SAFETY_AUDIT = 'safetyAudit';
+
+// previousHash of the first entry in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type SafetyAuditEventType =
+  // A detector produced a risk level for some input
+  | 'risk_decision'
+  // Crisis UI put in front of the user because of a decision
+  | 'ui_shown'
+  // What the user did with that UI
+  | 'user_action'
+  // Something the system did on its own: follow-up missed, trusted contact alerted
+  | 'escalation'
+  // An LLM reply was blocked or rewritten by the response guard
+  | 'response_guarded'
+  // A user message tried to override the companion's instructions
+  | 'input_flagged';
+
+export type SafetyAuditSource =
+  | 'companion'
+  | 'chatbot'
+  | 'session'
+  | 'orchestrator'
+  | 'gemini'
+  | 'vertex'
+  | 'screening'
+  | 'follow_up'
+  | 'contact_alert';
+
+// Raw evidence is left out on purpose: it is the user's own text, and the input hash is enough to match it later
+export type SafetyAuditSignal = Pick<RiskSignal, 'id' | 'kind' | 'source' | 'dimension' | 'score' | 'modifiers'>;
+
+export interface SafetyAuditEntry {
+  sequence: number;
+  id: string;
+  recordedAt: Date;
+  type: SafetyAuditEventType;
+  source: SafetyAuditSource;
+  userId?: string;
+  sessionId?: string;
+  // Links ui_shown, user_action and escalation entries back to the decision that caused them
+  decisionId?: string;
+  inputHash?: string;
+  detectorVersion?: string;
+  level?: RiskLevel;
+  score?: number;
+  signals?: SafetyAuditSignal[];
+  uiShown?: string[];
+  userAction?: string;
+  details?: Record<string, string | number | boolean>;
+  previousHash: string;
+  hash: string;
+}
+
+export type SafetyAuditInput = Omit<SafetyAuditEntry, 'sequence' | 'id' | 'recordedAt' | 'previousHash' | 'hash'>;
+
+export interface SafetyAuditContext {
+  source: SafetyAuditSource;
+  userId?: string;
+  sessionId?: string;
+  decisionId?: string;
+}
+
+export interface SafetyAuditVerification {
+  valid: boolean;
+  checked: number;
+  // Sequence number of the first entry that does not fit the chain
+  brokenAt?: number;
+  reason?: string;
+}
+
+export interface ReplayedDecision {
+  decision: SafetyAuditEntry;
+  explanation: string;
+  // ui_shown, user_action and escalation entries that point at this decision
+  outcomes: SafetyAuditEntry[];
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Stable JSON: sorted keys, dates as ISO strings, undefined fields dropped, so a stored entry always re-hashes the same
+function canonicalize(value: any): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashEntry(entry: Omit<SafetyAuditEntry, 'hash'>): Promise<string> {
+  return sha256Hex(canonicalize(entry));
+}
+
+export class SafetyAuditLog {
+  private storage: StorageAdapter;
+  private head: Promise<{ sequence: number; hash: string }> | null = null;
+  // Appends run one at a time so two quick decisions cannot fork the chain
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(storage: StorageAdapter = storageAdapter) {
+    this.storage = storage;
+  }
+
+  // Never throws, nor do the record helpers built on it: a failing audit write must not block crisis UI
+  append(input: SafetyAuditInput): Promise<SafetyAuditEntry | undefined> {
+    return this.enqueue(async () => input);
+  }
+
+  recordDecision(
+    assessment: CrisisAssessment,
+    input: string,
+    context: SafetyAuditContext & { uiShown?: string[] }
+  ): Promise<SafetyAuditEntry | undefined> {
+    return this.enqueue(async () => ({
+      ...context,
+      type: 'risk_decision',
+      inputHash: await sha256Hex(input.trim()),
+      detectorVersion: assessment.detectorVersion,
+      level: assessment.level,
+      score: assessment.score,
+      signals: assessment.signals.map(({ id, kind, source, dimension, score, modifiers }) => ({
+        id, kind, source, dimension, score, modifiers
+      })),
+      uiShown: context.uiShown
+    }));
+  }
+
+  recordUiShown(uiShown: string[], context: SafetyAuditContext): Promise<SafetyAuditEntry | undefined> {
+    return this.append({ ...context, type: 'ui_shown', uiShown });
+  }
+
+  recordUserAction(userAction: string, context: SafetyAuditContext): Promise<SafetyAuditEntry | undefined> {
+    return this.append({ ...context, type: 'user_action', userAction });
+  }
+
+  recordEscalation(
+    action: string,
+    context: SafetyAuditContext & { level?: RiskLevel; details?: SafetyAuditEntry['details'] }
+  ): Promise<SafetyAuditEntry | undefined> {
+    return this.append({ ...context, type: 'escalation', userAction: action });
+  }
+
+  // Only the rule ids and categories are kept; the rejected model text may quote the user
+  recordGuardedResponse(
+    result: Pick<GuardResult, 'action' | 'violations' | 'reasons'>,
+    context: SafetyAuditContext & { level?: RiskLevel }
+  ): Promise<SafetyAuditEntry | undefined> {
+    console.warn(`🛡️ Response ${result.action === 'block' ? 'blocked' : 'rewritten'} by safety guard:`, result.reasons);
+
+    return this.append({
+      ...context,
+      type: 'response_guarded',
+      userAction: result.action,
+      details: {
+        categories: Array.from(new Set(result.violations.map(violation => violation.category))).join(','),
+        rules: result.violations.map(violation => violation.ruleId).join(',')
+      }
+    });
+  }
+
+  recordInjectionAttempt(
+    assessment: InjectionAssessment,
+    input: string,
+    context: SafetyAuditContext & { level?: RiskLevel }
+  ): Promise<SafetyAuditEntry | undefined> {
+    return this.enqueue(async () => ({
+      ...context,
+      type: 'input_flagged',
+      inputHash: await sha256Hex(input.trim()),
+      score: assessment.score,
+      userAction: assessment.verdict,
+      details: {
+        categories: Array.from(new Set(assessment.signals.map(signal => signal.category))).join(','),
+        rules: assessment.signals.map(signal => signal.ruleId).join(',')
+      }
+    }));
+  }
+
+  async getEntries(filter: { userId?: string; sessionId?: string } = {}): Promise<SafetyAuditEntry[]> {
+    const entries = await this.storage.list<SafetyAuditEntry>(SAFETY_AUDIT);
+    return entries
+      .filter(entry => !filter.userId || entry.userId === filter.userId)
+      .filter(entry => !filter.sessionId || entry.sessionId === filter.sessionId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // Recomputes every hash; any edited, removed or reordered entry breaks the chain from that point on
+  async verify(): Promise<SafetyAuditVerification> {
+    const entries = await this.getEntries();
+    let previousHash = GENESIS_HASH;
+
+    for (let index = 0; index < entries.length; index++) {
+      const { hash, ...entry } = entries[index];
+
+      if (entry.sequence !== index) {
+        return { valid: false, checked: index, brokenAt: index, reason: `expected sequence ${index}, found ${entry.sequence}` };
+      }
+      if (entry.previousHash !== previousHash) {
+        return { valid: false, checked: index, brokenAt: index, reason: 'previous hash does not match' };
+      }
+      if (await hashEntry(entry) !== hash) {
+        return { valid: false, checked: index, brokenAt: index, reason: 'entry contents were modified' };
+      }
+
+      previousHash = hash;
+    }
+
+    return { valid: true, checked: entries.length };
+  }
+
+  // "Why was / wasn't this user escalated": each decision with its reasoning and what followed it
+  async replay(filter: { userId?: string; sessionId?: string } = {}): Promise<ReplayedDecision[]> {
+    const entries = await this.getEntries(filter);
+
+    return entries
+      .filter(entry => entry.type === 'risk_decision')
+      .map(decision => ({
+        decision,
+        explanation: this.explainDecision(decision),
+        outcomes: entries.filter(entry => entry.decisionId === decision.id)
+      }));
+  }
+
+  explainDecision(entry: SafetyAuditEntry): string {
+    const signals = entry.signals || [];
+    const fired = signals.filter(signal => signal.kind === 'risk' && signal.score > 0);
+    const discounted = signals.filter(signal => signal.modifiers.length > 0);
+    const escalated = entry.level === 'high' || entry.level === 'severe';
+
+    const parts = [
+      `${escalated ? 'Escalated' : 'Not escalated'}: level ${entry.level} (score ${entry.score ?? 0}) from ${entry.source}` +
+        (entry.detectorVersion ? ` using ${entry.detectorVersion}` : ''),
+      fired.length > 0
+        ? `signals: ${fired.map(signal => `${signal.id} +${signal.score} [${signal.source}]`).join(', ')}`
+        : 'no risk signals fired'
+    ];
+
+    if (discounted.length > 0) {
+      parts.push(`discounted: ${discounted.map(signal => `${signal.id} (${signal.modifiers.join('; ')})`).join(', ')}`);
+    }
+    if (entry.uiShown && entry.uiShown.length > 0) {
+      parts.push(`shown: ${entry.uiShown.join(', ')}`);
+    }
+
+    return parts.join('; ');
+  }
+
+  // Building the entry runs inside the same error handling, so a failed input hash
+  // (crypto.subtle is missing outside a secure context) is logged like a failed write
+  private enqueue(build: () => Promise<SafetyAuditInput>): Promise<SafetyAuditEntry | undefined> {
+    const result = this.queue.then(async () => this.appendNow(await build()));
+    this.queue = result.catch(() => undefined);
+
+    return result.catch(error => {
+      console.error('Error writing safety audit entry:', error);
+      this.head = null;
+      return undefined;
+    });
+  }
+
+  private async appendNow(input: SafetyAuditInput): Promise<SafetyAuditEntry> {
+    const head = await this.getHead();
+    const sequence = head.sequence + 1;
+    const recordedAt = new Date();
+
+    const unsigned: Omit<SafetyAuditEntry, 'hash'> = {
+      ...input,
+      sequence,
+      id: `audit_${sequence}_${recordedAt.getTime()}`,
+      recordedAt,
+      previousHash: head.hash
+    };
+    const entry: SafetyAuditEntry = { ...unsigned, hash: await hashEntry(unsigned) };
+
+    await this.storage.set(SAFETY_AUDIT, String(sequence).padStart(10, '0'), entry);
+    this.head = Promise.resolve({ sequence, hash: entry.hash });
+    return entry;
+  }
+
+  private getHead(): Promise<{ sequence: number; hash: string }> {
+    if (!this.head) {
+      this.head = this.storage.list<SafetyAuditEntry>(SAFETY_AUDIT).then(entries => {
+        const last = entries.reduce<SafetyAuditEntry | undefined>(
+          (latest, entry) => (!latest || entry.sequence > latest.sequence ? entry : latest),
+          undefined
+        );
+        return last ? { sequence: last.sequence, hash: last.hash } : { sequence: -1, hash: GENESIS_HASH };
+      });
+    }
+    return this.head;
+  }
+}
+
+// Export singleton instance
+export const safetyAuditLog = new SafetyAuditLog();
@@ -0,0 +1,293 @@
+// Safety Plan Service for MannMitra
+// Stanley-Brown style safety plans, stored per user so they stay editable, printable and available offline
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import { CRISIS_HELPLINES } from '../utils/helplines';
+
+const SAFETY_PLANS = 'safetyPlans';
+
+export interface SafetyPlanContact {
+  name: string;
+  phone: string;
+  relationship?: string;
+}
+
+export interface SafetyPlanProfessional {
+  name: string;
+  phone: string;
+  availability: string;
+}
+
+export interface SafetyPlan {
+  userId: string;
+  // Step 1: thoughts, moods or situations that mean a crisis may be building
+  warningSigns: string[];
+  // Step 2: things I can do on my own to take my mind off problems
+  copingStrategies: string[];
+  // Step 3: people and places that help me get my mind off things
+  distractionPeople: SafetyPlanContact[];
+  distractionPlaces: string[];
+  // Step 4: people I can ask for help
+  trustedContacts: SafetyPlanContact[];
+  // Step 5: professionals and helplines I can contact
+  professionalContacts: SafetyPlanProfessional[];
+  // Step 6: making my surroundings safer
+  meansRestriction: string[];
+  reasonsForLiving: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SafetyPlanListSection =
+  | 'warningSigns'
+  | 'copingStrategies'
+  | 'distractionPlaces'
+  | 'meansRestriction'
+  | 'reasonsForLiving';
+
+export type SafetyPlanContactSection = 'distractionPeople' | 'trustedContacts';
+
+export const SAFETY_PLAN_SECTIONS: Array<{
+  key: SafetyPlanListSection | SafetyPlanContactSection | 'professionalContacts';
+  title: string;
+  prompt: string;
+}> = [
+  {
+    key: 'warningSigns',
+    title: 'चेतावनी के संकेत / Warning signs',
+    prompt: 'What thoughts, feelings or situations tell you things are getting worse?'
+  },
+  {
+    key: 'copingStrategies',
+    title: 'खुद से संभालने के तरीके / Things I can do on my own',
+    prompt: 'What helps you feel a little calmer without contacting anyone?'
+  },
+  {
+    key: 'distractionPeople',
+    title: 'साथ रहने वाले लोग / People who help me take my mind off things',
+    prompt: 'Who can you spend time with when you need a distraction?'
+  },
+  {
+    key: 'distractionPlaces',
+    title: 'जगहें / Places that help',
+    prompt: 'Where can you go to be around others or feel safer?'
+  },
+  {
+    key: 'trustedContacts',
+    title: 'मदद के लिए लोग / People I can ask for help',
+    prompt: 'Who would you call or message if you were not safe?'
+  },
+  {
+    key: 'professionalContacts',
+    title: 'Professional सहायता / Helplines and professionals',
+    prompt: 'Helplines and professionals you can reach in a crisis.'
+  },
+  {
+    key: 'meansRestriction',
+    title: 'सुरक्षित माहौल / Making my surroundings safer',
+    prompt: 'What can you remove, lock away or hand to someone else?'
+  },
+  {
+    key: 'reasonsForLiving',
+    title: 'जीने की वजहें / Reasons for living',
+    prompt: 'What matters most to you and is worth staying safe for?'
+  }
+];
+
+export const COPING_SUGGESTIONS = [
+  'Slow 4-7-8 breathing',
+  'Go for a walk',
+  'Listen to my favourite music',
+  'Write in my journal',
+  'Take a cold shower or splash water on my face',
+  'भजन या प्रार्थना / Prayer or bhajan'
+];
+
+const DEFAULT_MEANS_RESTRICTION = [
+  'Give medicines to a family member to keep',
+  'Keep sharp objects out of my room',
+  'Avoid being alone on terraces, bridges or railway tracks when I feel this way'
+];
+
+export class SafetyPlanService {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = storageAdapter) {
+    this.storage = storage;
+  }
+
+  async getPlan(userId: string): Promise<SafetyPlan | undefined> {
+    try {
+      return await this.storage.get<SafetyPlan>(SAFETY_PLANS, userId);
+    } catch (error) {
+      console.error('Error loading safety plan:', error);
+      return undefined;
+    }
+  }
+
+  async getOrCreatePlan(userId: string): Promise<SafetyPlan> {
+    const existing = await this.getPlan(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const plan = this.createDefaultPlan(userId);
+    await this.storage.set(SAFETY_PLANS, userId, plan);
+    return plan;
+  }
+
+  // Professional contacts and means-restriction steps are pre-filled; everything else is in the user's own words
+  createDefaultPlan(userId: string): SafetyPlan {
+    const now = new Date();
+
+    return {
+      userId,
+      warningSigns: [],
+      copingStrategies: [],
+      distractionPeople: [],
+      distractionPlaces: [],
+      trustedContacts: [],
+      professionalContacts: CRISIS_HELPLINES.map(helpline => ({
+        name: helpline.name,
+        phone: helpline.number,
+        availability: helpline.availability
+      })),
+      meansRestriction: [...DEFAULT_MEANS_RESTRICTION],
+      reasonsForLiving: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  async savePlan(plan: SafetyPlan): Promise<SafetyPlan> {
+    const cleanList = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+    const cleanContacts = <T extends { name: string; phone: string }>(contacts: T[]) =>
+      contacts.filter(contact => contact.name.trim() || contact.phone.trim());
+
+    const saved: SafetyPlan = {
+      ...plan,
+      warningSigns: cleanList(plan.warningSigns),
+      copingStrategies: cleanList(plan.copingStrategies),
+      distractionPlaces: cleanList(plan.distractionPlaces),
+      meansRestriction: cleanList(plan.meansRestriction),
+      reasonsForLiving: cleanList(plan.reasonsForLiving),
+      distractionPeople: cleanContacts(plan.distractionPeople),
+      trustedContacts: cleanContacts(plan.trustedContacts),
+      professionalContacts: cleanContacts(plan.professionalContacts),
+      updatedAt: new Date()
+    };
+
+    await this.storage.set(SAFETY_PLANS, plan.userId, saved);
+    console.log(`🛡️ Safety plan saved for ${plan.userId}`);
+    return saved;
+  }
+
+  async deletePlan(userId: string): Promise<void> {
+    await this.storage.delete(SAFETY_PLANS, userId);
+  }
+
+  // Share of the six Stanley-Brown steps that have at least one entry
+  getCompletion(plan: SafetyPlan): number {
+    const steps = [
+      plan.warningSigns.length > 0,
+      plan.copingStrategies.length > 0,
+      plan.distractionPeople.length > 0 || plan.distractionPlaces.length > 0,
+      plan.trustedContacts.length > 0,
+      plan.professionalContacts.length > 0,
+      plan.meansRestriction.length > 0
+    ];
+
+    return steps.filter(Boolean).length / steps.length;
+  }
+
+  // Short text version for crisis responses; empty steps fall back to general guidance
+  summarize(plan: SafetyPlan): string[] {
+    const contactList = (contacts: SafetyPlanContact[]) =>
+      contacts.map(contact => `${contact.name} (${contact.phone})`).join(', ');
+
+    return [
+      plan.warningSigns.length > 0
+        ? `Recognize warning signs: ${plan.warningSigns.join(', ')}`
+        : 'Recognize warning signs early',
+      plan.copingStrategies.length > 0
+        ? `Use coping strategies: ${plan.copingStrategies.join(', ')}`
+        : 'Use coping strategies: deep breathing, grounding techniques',
+      plan.trustedContacts.length > 0
+        ? `Contact a trusted person: ${contactList(plan.trustedContacts)}`
+        : 'Contact support person when feeling overwhelmed',
+      plan.professionalContacts.length > 0
+        ? `Call a helpline: ${plan.professionalContacts.slice(0, 2).map(contact => `${contact.name} (${contact.phone})`).join(', ')}`
+        : 'Contact mental health professional if symptoms worsen',
+      ...plan.meansRestriction.map(step => `Make surroundings safer: ${step}`)
+    ];
+  }
+
+  renderPrintableHtml(plan: SafetyPlan): string {
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+    const renderItems = (items: string[]) => items.length > 0
+      ? `<ul>${items.map(item => `<li>${escape(item)}</li>`).join('')}</ul>`
+      : '<p class="empty">________________________________</p>';
+
+    const sectionItems = (key: typeof SAFETY_PLAN_SECTIONS[number]['key']): string[] => {
+      if (key === 'distractionPeople' || key === 'trustedContacts') {
+        return plan[key].map(contact =>
+          `${contact.name}${contact.relationship ? ` (${contact.relationship})` : ''}: ${contact.phone}`
+        );
+      }
+      if (key === 'professionalContacts') {
+        return plan.professionalContacts.map(contact => `${contact.name}: ${contact.phone} (${contact.availability})`);
+      }
+      return plan[key];
+    };
+
+    const sections = SAFETY_PLAN_SECTIONS.map((section, index) => `
+      <section>
+        <h2>${index + 1}. ${escape(section.title)}</h2>
+        ${renderItems(sectionItems(section.key))}
+      </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="hi">
+<head>
+  <meta charset="utf-8" />
+  <title>My Safety Plan - MannMitra</title>
+  <style>
+    body { font-family: 'Noto Sans', 'Noto Sans Devanagari', sans-serif; max-width: 720px; margin: 2rem auto; color: #1f2937; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1rem; margin: 1.25rem 0 0.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+    ul { margin: 0; padding-left: 1.25rem; }
+    .empty { color: #9ca3af; }
+    .meta, .footer { font-size: 0.8rem; color: #6b7280; }
+  </style>
+</head>
+<body>
+  <h1>मेरी सुरक्षा योजना / My Safety Plan</h1>
+  <p class="meta">Last updated ${escape(plan.updatedAt.toLocaleDateString('en-IN'))}</p>
+  ${sections}
+  <p class="footer">If you are in immediate danger, call 112 or go to the nearest hospital emergency.</p>
+</body>
+</html>`;
+  }
+
+  // Opens the printable page in a new window and triggers the browser print dialog
+  printPlan(plan: SafetyPlan): void {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      console.error('Unable to open print window - is a popup blocker active?');
+      return;
+    }
+
+    printWindow.document.write(this.renderPrintableHtml(plan));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  }
+}
+
+// Export singleton instance
+export const safetyPlanService = new SafetyPlanService();
@@ -0,0 +1,95 @@
+// Scripted LLM Provider - deterministic fake model for offline regression tests
+// Replies are chosen by matching the prompt against an ordered list of rules
+
+import type { LLMProvider, LLMGenerationOptions } from './llmProvider';
+
+export interface ScriptedRule {
+  // A string matches case-insensitively anywhere in the prompt
+  match: string | RegExp;
+  response: string | ((prompt: string, callIndex: number) => string);
+  // Optional limit on how many times this rule may fire
+  times?: number;
+}
+
+export interface ScriptedCall {
+  prompt: string;
+  options: LLMGenerationOptions;
+  ruleIndex: number;
+  response: string;
+}
+
+export class ScriptedProviderMissError extends Error {
+  constructor(prompt: string) {
+    super(`No scripted rule matched prompt: ${prompt.trim().substring(0, 80)}...`);
+    this.name = 'ScriptedProviderMissError';
+  }
+}
+
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name: string;
+  private calls: ScriptedCall[] = [];
+  private ruleUsage: number[];
+
+  constructor(
+    private rules: ScriptedRule[],
+    private options: {
+      name?: string;
+      // Used when no rule matches; without it an unmatched prompt throws
+      defaultResponse?: string;
+    } = {}
+  ) {
+    this.name = options.name || 'scripted';
+    this.ruleUsage = rules.map(() => 0);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async generate(prompt: string, options: LLMGenerationOptions = {}): Promise<string> {
+    const ruleIndex = this.rules.findIndex((rule, index) =>
+      (rule.times === undefined || this.ruleUsage[index] < rule.times) && this.matches(rule.match, prompt)
+    );
+
+    if (ruleIndex === -1) {
+      if (this.options.defaultResponse === undefined) {
+        throw new ScriptedProviderMissError(prompt);
+      }
+      this.calls.push({ prompt, options, ruleIndex, response: this.options.defaultResponse });
+      return this.options.defaultResponse;
+    }
+
+    const rule = this.rules[ruleIndex];
+    const response = typeof rule.response === 'function'
+      ? rule.response(prompt, this.ruleUsage[ruleIndex])
+      : rule.response;
+
+    this.ruleUsage[ruleIndex]++;
+    this.calls.push({ prompt, options, ruleIndex, response });
+    return response;
+  }
+
+  // The scripted reply in small pieces, split mid-word so consumers cannot rely on chunk boundaries
+  async *stream(prompt: string, options: LLMGenerationOptions = {}): AsyncGenerator<string> {
+    const response = await this.generate(prompt, options);
+    for (let i = 0; i < response.length; i += 7) {
+      yield response.slice(i, i + 7);
+    }
+  }
+
+  getCalls(): ScriptedCall[] {
+    return [...this.calls];
+  }
+
+  reset(): void {
+    this.calls = [];
+    this.ruleUsage = this.rules.map(() => 0);
+  }
+
+  private matches(match: string | RegExp, prompt: string): boolean {
+    if (typeof match === 'string') {
+      return prompt.toLowerCase().includes(match.toLowerCase());
+    }
+    return match.test(prompt);
+  }
+}
@@ -1,8 +1,31 @@
 // Intelligent Session Management for MannMitra
 // Tracks user progress, adapts AI responses, and manages therapeutic journey
 
-import { aiOrchestrator } from './aiOrchestrator';
+import { aiOrchestrator, type AIOrchestrator } from './aiOrchestrator';
 import { emotionDetection } from './emotionDetection';
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import { riskAssessmentService } from './riskAssessment';
+import { SafetyPlanService, type SafetyPlan } from './safetyPlan';
+import { safetyAuditLog, type SafetyAuditLog } from './safetyAuditLog';
+import { TrustedContactsService, type TrustedContact } from './trustedContacts';
+import { followUpScheduler, type FollowUpScheduler, type FollowUpCheckIn } from './followUpScheduler';
+import { ConversationMemory } from './conversationMemory';
+import { ThoughtRecordService } from './thoughtRecords';
+import { ActivityPlannerService, type ActivityInput, type ScheduledActivity } from './activityPlanner';
+import {
+  InterventionFeedbackService,
+  type FeedbackSignal,
+  type InterventionFeedback
+} from './interventionFeedback';
+import type { PromptTemplateRef } from './promptRegistry';
+import type { PhaseTransition } from '../utils/therapeuticPhases';
+import { INTERVENTION_CATALOGUE, type InterventionSelection } from '../utils/interventionCatalogue';
+import type { CrisisAssessment, RiskLevel, RiskSignal } from '../types';
+
+// Storage collections used by the session manager
+const ACTIVE_SESSIONS = 'activeSessions';
+const THERAPEUTIC_PLANS = 'therapeuticPlans';
+const SESSION_HISTORY = 'sessionHistory';
 
 export interface UserSession {
   sessionId: string;
@@ -19,6 +42,8 @@ export interface UserSession {
   culturalContext: CulturalSessionContext;
   riskAssessments: RiskAssessment[];
   outcomes: SessionOutcome;
+  // From UserPreferences['interests']; seeds activity suggestions
+  interests?: string[];
 }
 
 export interface SessionInteraction {
@@ -29,7 +54,13 @@ export interface SessionInteraction {
     emotionalState?: any;
     confidence?: number;
     interventionType?: string;
+    technique?: string;
+    // 0-1 from the user's feedback on this response, see recordFeedback
     effectiveness?: number;
+    // Kept with each AI response so outcomes can be compared across prompt versions
+    promptTemplate?: PromptTemplateRef;
+    // Scores behind the chosen intervention and its runners-up
+    interventionSelection?: InterventionSelection;
   };
 }
 
@@ -57,7 +88,7 @@ export interface ProgressMetrics {
 
 export interface AIAdaptation {
   timestamp: Date;
-  adaptationType: 'tone' | 'language' | 'intervention' | 'cultural_reference' | 'complexity';
+  adaptationType: 'tone' | 'language' | 'intervention' | 'cultural_reference' | 'complexity' | 'phase';
   previousValue: any;
   newValue: any;
   reason: string;
@@ -75,13 +106,14 @@ export interface CulturalSessionContext {
 
 export interface RiskAssessment {
   timestamp: Date;
-  level: 'none' | 'low' | 'moderate' | 'high' | 'severe';
+  level: RiskLevel;
   indicators: string[];
   protectiveFactors: string[];
   interventions: string[];
   followUpRequired: boolean;
   professionalReferral: boolean;
   confidence?: number;
+  signals?: RiskSignal[];
 }
 
 export interface SessionOutcome {
@@ -109,12 +141,36 @@ export interface TherapeuticPlan {
 }
 
 export class SessionManager {
+  // In-memory cache of active sessions; the storage adapter is the source of truth
   private activeSessions: Map<string, UserSession> = new Map();
-  private userPlans: Map<string, TherapeuticPlan> = new Map();
-  private sessionHistory: Map<string, UserSession[]> = new Map();
   private realTimeAnalysis: Map<string, any> = new Map();
-
-  constructor() {
+  private storage: StorageAdapter;
+  private orchestrator: AIOrchestrator;
+  private safetyPlans: SafetyPlanService;
+  private followUps: FollowUpScheduler;
+  private trustedContacts: TrustedContactsService;
+  private memory: ConversationMemory;
+  private feedback: InterventionFeedbackService;
+  private thoughtRecords: ThoughtRecordService;
+  private activities: ActivityPlannerService;
+  private audit: SafetyAuditLog;
+
+  constructor(
+    storage: StorageAdapter = storageAdapter,
+    orchestrator: AIOrchestrator = aiOrchestrator,
+    followUps: FollowUpScheduler = followUpScheduler,
+    audit: SafetyAuditLog = safetyAuditLog
+  ) {
+    this.storage = storage;
+    this.orchestrator = orchestrator;
+    this.safetyPlans = new SafetyPlanService(storage);
+    this.followUps = followUps;
+    this.trustedContacts = new TrustedContactsService(storage, { audit });
+    this.memory = new ConversationMemory(storage);
+    this.feedback = new InterventionFeedbackService(storage);
+    this.thoughtRecords = new ThoughtRecordService(storage);
+    this.activities = new ActivityPlannerService(storage);
+    this.audit = audit;
     console.log('📊 Session Manager initialized');
   }
 
@@ -126,6 +182,7 @@ export class SessionManager {
       goals?: string[];
       culturalContext?: Partial<CulturalSessionContext>;
       riskLevel?: string;
+      interests?: string[];
     } = {}
   ): Promise<string> {
     const sessionId = this.generateSessionId();
@@ -147,10 +204,13 @@ export class SessionManager {
       aiAdaptations: [],
       culturalContext: this.initializeCulturalContext(options.culturalContext),
       riskAssessments: [],
-      outcomes: this.initializeOutcomes()
+      outcomes: this.initializeOutcomes(),
+      interests: options.interests
     };
+    await this.refreshCopingSkillsUsage(session);
 
     this.activeSessions.set(sessionId, session);
+    await this.persistActiveSession(session);
     
     // Start real-time monitoring if needed
     if (sessionType === 'video' || sessionType === 'voice') {
@@ -171,8 +231,10 @@ export class SessionManager {
     aiResponse: any;
     sessionInsights: any;
     adaptations: AIAdaptation[];
+    // Present when risk is high or severe, so the UI can put the user's own plan in front of them
+    safetyPlan?: SafetyPlan;
   }> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.loadActiveSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -199,24 +261,36 @@ export class SessionManager {
       }
 
       // Assess risk level
-      const riskAssessment = await this.assessCurrentRisk(session, userMessage, emotionalAnalysis);
-      session.riskAssessments.push(riskAssessment);
+      const crisisAssessment = riskAssessmentService.assess(userMessage, { emotionalAnalysis });
+      session.riskAssessments.push(this.toRiskRecord(crisisAssessment));
+      const isCrisis = crisisAssessment.level === 'high' || crisisAssessment.level === 'severe';
+      await this.audit.recordDecision(crisisAssessment, userMessage, {
+        source: 'session',
+        userId: session.userId,
+        sessionId,
+        uiShown: isCrisis ? ['safety_plan'] : []
+      });
 
       // Determine AI adaptations needed
       const adaptations = await this.determineAIAdaptations(session, emotionalAnalysis);
 
       // Generate AI response using orchestrator
-      const aiResponse = await aiOrchestrator.generateTherapeuticResponse(
+      const aiResponse = await this.orchestrator.generateTherapeuticResponse(
         userMessage,
         session.userId,
         {
           session,
           emotionalAnalysis,
-          riskAssessment,
-          adaptations
+          riskAssessment: crisisAssessment,
+          adaptations,
+          interests: session.interests
         }
       );
 
+      if (aiResponse.phaseTransition) {
+        adaptations.push(this.recordPhaseTransition(session, aiResponse.phaseTransition));
+      }
+
       // Record AI response
       this.recordInteraction(session, {
         timestamp: new Date(),
@@ -224,7 +298,10 @@ export class SessionManager {
         content: aiResponse.message,
         metadata: {
           interventionType: aiResponse.interventionType,
-          confidence: aiResponse.riskAssessment?.confidence || 0.8
+          technique: aiResponse.technique,
+          confidence: aiResponse.riskAssessment?.confidence || 0.8,
+          promptTemplate: aiResponse.promptTemplate,
+          interventionSelection: aiResponse.interventionSelection
         }
       });
 
@@ -234,10 +311,26 @@ export class SessionManager {
       // Generate session insights
       const sessionInsights = this.generateSessionInsights(session);
 
+      await this.persistActiveSession(session);
+
+      let safetyPlan: SafetyPlan | undefined;
+      if (isCrisis) {
+        // Without the plan the reply still carries the crisis response; the plan is only left off
+        safetyPlan = await this.safetyPlans.getOrCreatePlan(session.userId).catch(error => {
+          console.error('Error loading safety plan:', error);
+          return undefined;
+        });
+        // A failed schedule must not cost the user the crisis reply that was already generated
+        await this.followUps.scheduleForRisk(session.userId, crisisAssessment.level, sessionId).catch(error => {
+          console.error('Error scheduling crisis follow-ups:', error);
+        });
+      }
+
       return {
         aiResponse,
         sessionInsights,
-        adaptations
+        adaptations,
+        safetyPlan
       };
     } catch (error) {
       console.error('Interaction processing error:', error);
@@ -250,8 +343,9 @@ export class SessionManager {
     sessionSummary: any;
     progressReport: any;
     recommendations: string[];
+    outcomes: SessionOutcome;
   }> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.loadActiveSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -263,28 +357,117 @@ export class SessionManager {
     session.endTime = new Date();
     session.duration = session.endTime.getTime() - session.startTime.getTime();
 
+    // Closure step: homework for the user, and the rest of the conversation folded into long-term memory
+    const closure = await this.orchestrator.closeConversation(sessionId, session.userId);
+    if (closure?.transition) {
+      this.recordPhaseTransition(session, closure.transition);
+    }
+
     // Generate comprehensive session analysis
-    const sessionSummary = await this.generateSessionSummary(session);
+    const sessionSummary = {
+      ...await this.generateSessionSummary(session),
+      closingSummary: closure?.summary
+    };
     const progressReport = await this.generateProgressReport(session);
     const recommendations = await this.generateRecommendations(session);
+    this.finalizeOutcomes(session, recommendations, closure?.homework || []);
 
     // Update therapeutic plan
     await this.updateTherapeuticPlan(session.userId, session);
 
     // Store session in history
-    this.storeSessionHistory(session);
+    await this.storeSessionHistory(session);
 
     // Remove from active sessions
     this.activeSessions.delete(sessionId);
+    await this.storage.delete(ACTIVE_SESSIONS, sessionId);
 
     console.log(`✅ Session ${sessionId} completed`);
     return {
       sessionSummary,
       progressReport,
-      recommendations
+      recommendations,
+      outcomes: session.outcomes
     };
   }
 
+  // In-chat feedback on the latest AI response; it measures that response and the adaptations made for it,
+  // and feeds intervention selection for this user and everyone else
+  async recordFeedback(sessionId: string, signal: FeedbackSignal): Promise<InterventionFeedback | undefined> {
+    const session = await this.loadActiveSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const responseIndex = session.interactions.map(i => i.type).lastIndexOf('ai_response');
+    const response = session.interactions[responseIndex];
+    if (!response?.metadata.interventionType) {
+      return undefined;
+    }
+
+    const entry = await this.feedback.recordFeedback(session.userId, {
+      interventionType: response.metadata.interventionType as InterventionFeedback['interventionType'],
+      technique: response.metadata.technique,
+      sessionId
+    }, signal);
+    response.metadata.effectiveness = entry.score;
+
+    // Adaptations made since the user message this response answered
+    const turnStart = session.interactions
+      .slice(0, responseIndex)
+      .reverse()
+      .find(i => i.type === 'user_message')?.timestamp || session.startTime;
+    session.aiAdaptations
+      .filter(adaptation => adaptation.timestamp >= turnStart && adaptation.timestamp <= response.timestamp)
+      .forEach(adaptation => { adaptation.effectiveness = entry.score; });
+
+    const rated = session.interactions.filter(i => i.metadata.effectiveness !== undefined);
+    session.progressMetrics.sessionSatisfaction =
+      rated.reduce((sum, i) => sum + i.metadata.effectiveness!, 0) / rated.length;
+
+    await this.persistActiveSession(session);
+    return entry;
+  }
+
+  // Schedules an activity the companion suggested in chat, e.g. from aiResponse.activitySuggestions
+  async scheduleActivity(
+    sessionId: string,
+    activity: ActivityInput,
+    scheduledFor: Date,
+    predictedMood: number
+  ): Promise<ScheduledActivity> {
+    const session = await this.loadActiveSession(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const scheduled = await this.activities.scheduleActivity(session.userId, activity, scheduledFor, predictedMood, {
+      source: 'chat',
+      sessionId
+    });
+    this.recordInteraction(session, {
+      timestamp: new Date(),
+      type: 'action_taken',
+      content: `Scheduled activity: ${scheduled.name}`,
+      metadata: { interventionType: 'behavioral_activation' }
+    });
+    await this.persistActiveSession(session);
+    return scheduled;
+  }
+
+  // Completion goes through here rather than the planner so the user's active sessions pick it up
+  async completeActivity(userId: string, activityId: string, actualMood: number): Promise<ScheduledActivity | undefined> {
+    const activity = await this.activities.completeActivity(activityId, actualMood);
+    await this.refreshActiveSessions(userId);
+    return activity;
+  }
+
+  async skipActivity(userId: string, activityId: string): Promise<ScheduledActivity | undefined> {
+    const activity = await this.activities.skipActivity(activityId);
+    await this.refreshActiveSessions(userId);
+    return activity;
+  }
+
   // Crisis intervention management
   async handleCrisisIntervention(
     sessionId: string,
@@ -294,9 +477,11 @@ export class SessionManager {
     immediateActions: string[];
     professionalContacts: any[];
     safetyPlan: string[];
-    followUpSchedule: any;
+    followUpSchedule: FollowUpCheckIn[];
+    // Consented contacts the UI can offer to alert; sending still needs the user's confirmation
+    trustedContacts: TrustedContact[];
   }> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.loadActiveSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
@@ -315,20 +500,35 @@ export class SessionManager {
     session.riskAssessments.push(crisisAssessment);
 
     // Generate crisis response
-    const immediateActions = this.generateImmediateActions(crisisLevel, indicators);
+    const trustedContacts = crisisLevel === 'severe' || crisisLevel === 'high'
+      ? await this.trustedContacts.getAlertableContacts(session.userId)
+      : [];
+    const immediateActions = this.generateImmediateActions(crisisLevel, indicators, trustedContacts);
     const professionalContacts = this.getProfessionalContacts(session.culturalContext);
     const safetyPlan = await this.generateSafetyPlan(session, crisisLevel);
-    const followUpSchedule = this.createFollowUpSchedule(crisisLevel);
+    const followUpSchedule = await this.followUps.scheduleForRisk(session.userId, crisisLevel, sessionId);
 
     // Update interventions
     crisisAssessment.interventions = [...immediateActions, ...safetyPlan];
+    await this.persistActiveSession(session);
+    await this.audit.recordEscalation('crisis_intervention', {
+      source: 'session',
+      userId: session.userId,
+      sessionId,
+      level: crisisLevel,
+      details: {
+        followUpsScheduled: followUpSchedule.length,
+        trustedContactsOffered: trustedContacts.length
+      }
+    });
 
     console.log(`🚨 Crisis intervention activated for session ${sessionId}`);
     return {
       immediateActions,
       professionalContacts,
       safetyPlan,
-      followUpSchedule
+      followUpSchedule,
+      trustedContacts
     };
   }
 
@@ -337,8 +537,43 @@ export class SessionManager {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private async loadActiveSession(sessionId: string): Promise<UserSession | undefined> {
+    const cached = this.activeSessions.get(sessionId);
+    if (cached) return cached;
+
+    try {
+      // Resume sessions that were active before a reload
+      const stored = await this.storage.get<UserSession>(ACTIVE_SESSIONS, sessionId);
+      if (stored) {
+        this.activeSessions.set(sessionId, stored);
+      }
+      return stored;
+    } catch (error) {
+      console.error('Failed to load session from storage:', error);
+      return undefined;
+    }
+  }
+
+  private async persistActiveSession(session: UserSession): Promise<void> {
+    try {
+      await this.storage.set(ACTIVE_SESSIONS, session.sessionId, session);
+    } catch (error) {
+      console.error('Failed to persist session:', error);
+    }
+  }
+
+  private async getSessionHistory(userId: string): Promise<UserSession[]> {
+    try {
+      return (await this.storage.get<UserSession[]>(SESSION_HISTORY, userId)) || [];
+    } catch (error) {
+      console.error('Failed to load session history:', error);
+      return [];
+    }
+  }
+
   private async getTherapeuticPlan(userId: string): Promise<TherapeuticPlan> {
-    if (!this.userPlans.has(userId)) {
+    const storedPlan = await this.storage.get<TherapeuticPlan>(THERAPEUTIC_PLANS, userId);
+    if (!storedPlan) {
       const defaultPlan: TherapeuticPlan = {
         userId,
         createdDate: new Date(),
@@ -352,9 +587,10 @@ export class SessionManager {
         progressMilestones: {},
         adaptiveStrategies: ['language_mixing', 'cultural_references']
       };
-      this.userPlans.set(userId, defaultPlan);
+      await this.storage.set(THERAPEUTIC_PLANS, userId, defaultPlan);
+      return defaultPlan;
     }
-    return this.userPlans.get(userId)!;
+    return storedPlan;
   }
 
   private initializeProgressMetrics(): ProgressMetrics {
@@ -407,6 +643,23 @@ export class SessionManager {
     this.realTimeAnalysis.delete(sessionId);
   }
 
+  // Coping skills usage follows how many of the last two weeks' due activities were done; unchanged when none were due
+  private async refreshCopingSkillsUsage(session: UserSession): Promise<void> {
+    const since = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000);
+    const summary = await this.activities.getSummary(session.userId, since);
+    if (summary.completionRate !== undefined) {
+      session.progressMetrics.copingSkillsUsage = summary.completionRate;
+    }
+  }
+
+  private async refreshActiveSessions(userId: string): Promise<void> {
+    const sessions = Array.from(this.activeSessions.values()).filter(session => session.userId === userId);
+    for (const session of sessions) {
+      await this.refreshCopingSkillsUsage(session);
+      await this.persistActiveSession(session);
+    }
+  }
+
   private recordInteraction(session: UserSession, interaction: SessionInteraction): void {
     session.interactions.push(interaction);
     if (session.interactions.length > 100) {
@@ -436,51 +689,17 @@ export class SessionManager {
     }
   }
 
-  private async assessCurrentRisk(
-    session: UserSession,
-    userMessage: string,
-    emotionalAnalysis: any
-  ): Promise<RiskAssessment> {
-    const indicators: string[] = [];
-    const protectiveFactors: string[] = [];
-
-    const lowerMessage = userMessage.toLowerCase();
-    const crisisKeywords = [
-      'suicide', 'kill myself', 'end it all', 'no point', 'give up',
-      'आत्महत्या', 'मरना चाहता', 'जीने का मन नहीं'
-    ];
-
-    if (crisisKeywords.some(keyword => lowerMessage.includes(keyword))) {
-      indicators.push('suicidal_ideation');
-    }
-
-    if (emotionalAnalysis.intensity > 0.8 && emotionalAnalysis.valence < -0.5) {
-      indicators.push('severe_emotional_distress');
-    }
-
-    if (lowerMessage.includes('family') || lowerMessage.includes('friends')) {
-      protectiveFactors.push('social_support');
-    }
-
-    let level: RiskAssessment['level'] = 'none';
-    if (indicators.includes('suicidal_ideation')) {
-      level = 'severe';
-    } else if (indicators.length > 1) {
-      level = 'high';
-    } else if (indicators.length > 0) {
-      level = 'moderate';
-    } else if (emotionalAnalysis.intensity > 0.6) {
-      level = 'low';
-    }
-
+  private toRiskRecord(assessment: CrisisAssessment): RiskAssessment {
     return {
-      timestamp: new Date(),
-      level,
-      indicators,
-      protectiveFactors,
+      timestamp: assessment.assessedAt,
+      level: assessment.level,
+      indicators: assessment.indicators,
+      protectiveFactors: assessment.protectiveFactors,
       interventions: [],
-      followUpRequired: level !== 'none',
-      professionalReferral: level === 'severe'
+      followUpRequired: assessment.level !== 'none',
+      professionalReferral: assessment.level === 'severe',
+      confidence: assessment.confidence,
+      signals: assessment.signals
     };
   }
 
@@ -516,6 +735,20 @@ export class SessionManager {
     return adaptations;
   }
 
+  private recordPhaseTransition(session: UserSession, transition: PhaseTransition): AIAdaptation {
+    const adaptation: AIAdaptation = {
+      timestamp: transition.at,
+      adaptationType: 'phase',
+      previousValue: transition.from,
+      newValue: transition.to,
+      reason: transition.reason,
+      // Not known when the phase changes; neutral until outcomes are measured
+      effectiveness: 0.5
+    };
+    session.aiAdaptations.push(adaptation);
+    return adaptation;
+  }
+
   private updateProgressMetrics(
     session: UserSession,
     aiResponse: any,
@@ -637,23 +870,14 @@ export class SessionManager {
   }
 
   private identifySkillsDeveloped(session: UserSession): string[] {
-    const skills: string[] = [];
     const interventions = session.interactions
       .filter(i => i.type === 'ai_response')
       .map(i => i.metadata.interventionType)
       .filter(Boolean);
 
-    if (interventions.includes('mindfulness')) {
-      skills.push('Mindfulness techniques');
-    }
-    if (interventions.includes('cognitive_restructuring')) {
-      skills.push('Cognitive restructuring');
-    }
-    if (interventions.includes('validation')) {
-      skills.push('Self-validation');
-    }
-
-    return skills;
+    return INTERVENTION_CATALOGUE
+      .filter(strategy => strategy.skill && interventions.includes(strategy.type))
+      .map(strategy => strategy.skill!);
   }
 
   private assessEmotionalGrowth(session: UserSession): any {
@@ -701,6 +925,28 @@ export class SessionManager {
     return recommendations;
   }
 
+  private finalizeOutcomes(session: UserSession, recommendations: string[], homework: string[]): void {
+    const trend = this.calculateEmotionalTrend(session.emotionalJourney);
+    const riskLevels = session.riskAssessments.map(r => r.level);
+    const lastRiskLevel = riskLevels[riskLevels.length - 1] || 'none';
+
+    let riskStatus: SessionOutcome['riskStatus'] = 'resolved';
+    if (riskLevels.some(level => level === 'high' || level === 'severe')) {
+      riskStatus = 'escalated';
+    } else if (lastRiskLevel !== 'none') {
+      riskStatus = 'monitoring';
+    }
+
+    session.outcomes = {
+      ...session.outcomes,
+      overallMood: trend === 'improving' ? 'improved' : trend === 'declining' ? 'declined' : 'stable',
+      skillsPracticed: this.identifySkillsDeveloped(session),
+      nextSessionRecommendations: recommendations,
+      homeworkAssigned: homework,
+      riskStatus
+    };
+  }
+
   private async identifyProtectiveFactors(session: UserSession): Promise<string[]> {
     const factors: string[] = [];
     const messages = session.interactions
@@ -722,17 +968,18 @@ export class SessionManager {
     return factors;
   }
 
-  private generateImmediateActions(crisisLevel: string, indicators: string[]): string[] {
+  private generateImmediateActions(crisisLevel: string, indicators: string[], trustedContacts: TrustedContact[] = []): string[] {
     const actions: string[] = [];
+    const contactNames = trustedContacts.map(contact => contact.name).join(', ');
     
     if (crisisLevel === 'severe') {
       actions.push('Contact emergency services immediately');
       actions.push('Do not leave the person alone');
       actions.push('Remove any means of self-harm');
-      actions.push('Contact family/trusted person');
+      actions.push(contactNames ? `Offer to alert trusted contacts: ${contactNames}` : 'Contact family/trusted person');
     } else if (crisisLevel === 'high') {
       actions.push('Schedule immediate professional consultation');
-      actions.push('Activate support network');
+      actions.push(contactNames ? `Offer to alert trusted contacts: ${contactNames}` : 'Activate support network');
       actions.push('Implement safety planning');
     } else if (crisisLevel === 'moderate') {
       actions.push('Increase session frequency');
@@ -767,46 +1014,14 @@ export class SessionManager {
   }
 
   private async generateSafetyPlan(session: UserSession, crisisLevel: string): Promise<string[]> {
-    const plan: string[] = [];
-    
-    plan.push('Recognize warning signs: ' + session.riskAssessments
-      .flatMap(r => r.indicators)
-      .join(', '));
-    
-    plan.push('Use coping strategies: deep breathing, grounding techniques');
-    plan.push('Contact support person when feeling overwhelmed');
-    plan.push('Contact mental health professional if symptoms worsen');
-    
-    if (crisisLevel === 'severe' || crisisLevel === 'high') {
+    const safetyPlan = await this.safetyPlans.getOrCreatePlan(session.userId);
+    const plan = this.safetyPlans.summarize(safetyPlan);
+
+    if ((crisisLevel === 'severe' || crisisLevel === 'high') && safetyPlan.meansRestriction.length === 0) {
       plan.push('Remove or secure potential means of harm');
     }
-    
-    return plan;
-  }
 
-  private createFollowUpSchedule(crisisLevel: string): any {
-    const schedule = {
-      immediate: null as Date | null,
-      shortTerm: null as Date | null,
-      longTerm: null as Date | null
-    };
-    
-    const now = new Date();
-    
-    if (crisisLevel === 'severe') {
-      schedule.immediate = new Date(now.getTime() + 2 * 60 * 60 * 1000);
-      schedule.shortTerm = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-      schedule.longTerm = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    } else if (crisisLevel === 'high') {
-      schedule.immediate = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-      schedule.shortTerm = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
-      schedule.longTerm = new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000);
-    } else if (crisisLevel === 'moderate') {
-      schedule.shortTerm = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
-      schedule.longTerm = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    }
-    
-    return schedule;
+    return plan;
   }
 
   private async updateTherapeuticPlan(userId: string, session: UserSession): Promise<void> {
@@ -820,25 +1035,19 @@ export class SessionManager {
       }
     });
     
-    if (session.progressMetrics.therapeuticAlliance > 0.7) {
+    if (session.progressMetrics.therapeuticAlliance > 0.7 &&
+        !plan.adaptiveStrategies.includes('maintain_current_approach')) {
       plan.adaptiveStrategies.push('maintain_current_approach');
     }
     
-    this.userPlans.set(userId, plan);
+    await this.storage.set(THERAPEUTIC_PLANS, userId, plan);
   }
 
-  private storeSessionHistory(session: UserSession): void {
-    const userId = session.userId;
-    if (!this.sessionHistory.has(userId)) {
-      this.sessionHistory.set(userId, []);
-    }
-    
-    const userHistory = this.sessionHistory.get(userId)!;
+  private async storeSessionHistory(session: UserSession): Promise<void> {
+    const userHistory = await this.getSessionHistory(session.userId);
     userHistory.push(session);
     
-    if (userHistory.length > 50) {
-      this.sessionHistory.set(userId, userHistory.slice(-50));
-    }
+    await this.storage.set(SESSION_HISTORY, session.userId, userHistory.slice(-50));
   }
 
   // Public utility methods
@@ -851,12 +1060,33 @@ export class SessionManager {
   }
 
   async exportUserData(userId: string): Promise<any> {
-    const sessions = this.sessionHistory.get(userId) || [];
-    const plan = this.userPlans.get(userId);
+    const sessions = await this.getSessionHistory(userId);
+    const plan = await this.storage.get<TherapeuticPlan>(THERAPEUTIC_PLANS, userId);
+    const safetyPlan = await this.safetyPlans.getPlan(userId);
+    const followUps = await this.followUps.getCheckIns(userId);
+    const trustedContacts = await this.trustedContacts.getContacts(userId);
+    const contactAlerts = await this.trustedContacts.getAlertHistory(userId);
+    const safetyAudit = await this.audit.getEntries({ userId });
+    const [memoryFacts, sessionSummaries] = await Promise.all([
+      this.memory.getFacts(userId),
+      this.memory.getSummaries(userId)
+    ]);
+    const interventionFeedback = await this.feedback.getFeedback(userId);
+    const thoughtRecords = await this.thoughtRecords.getRecords(userId);
+    const scheduledActivities = await this.activities.getActivities(userId);
     
     return {
       userId,
       therapeuticPlan: plan,
+      safetyPlan,
+      followUps,
+      trustedContacts,
+      contactAlerts,
+      safetyAudit,
+      memory: { facts: memoryFacts, sessionSummaries },
+      interventionFeedback,
+      thoughtRecords,
+      scheduledActivities,
       sessionHistory: sessions.map(session => ({
         sessionId: session.sessionId,
         startTime: session.startTime,
@@ -876,16 +1106,29 @@ export class SessionManager {
         this.activeSessions.delete(sessionId);
       }
     }
+
+    const storedSessions = await this.storage.list<UserSession>(ACTIVE_SESSIONS);
+    await Promise.all(storedSessions
+      .filter(session => session.userId === userId)
+      .map(session => this.storage.delete(ACTIVE_SESSIONS, session.sessionId)));
     
-    this.sessionHistory.delete(userId);
-    this.userPlans.delete(userId);
+    await this.storage.delete(SESSION_HISTORY, userId);
+    await this.storage.delete(THERAPEUTIC_PLANS, userId);
+    await this.safetyPlans.deletePlan(userId);
+    await this.followUps.deleteForUser(userId);
+    await this.trustedContacts.deleteForUser(userId);
+    await this.memory.deleteForUser(userId);
+    await this.feedback.deleteForUser(userId);
+    await this.thoughtRecords.deleteForUser(userId);
+    await this.activities.deleteForUser(userId);
+    // The safety audit log is append-only and holds input hashes rather than message text, so it is kept
     
     console.log(`🗑️ User data deleted for ${userId}`);
   }
   // Get user progress for dashboard
   async getUserProgress(userId: string, timeframe: 'week' | 'month' | 'year' = 'month'): Promise<any> {
     try {
-      const sessions = this.sessionHistory.get(userId) || [];
+      const sessions = await this.getSessionHistory(userId);
       const now = new Date();
       let startDate: Date;
 
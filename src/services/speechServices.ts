@@ -2,6 +2,8 @@
 // Note: For production, these would use Google Cloud APIs with proper authentication
 // For demo purposes, we'll use Web Speech API with fallbacks
 
+import { detectLanguage as detectHinglishLanguage } from '../utils/hinglish';
+
 // Web Speech API type declarations
 declare global {
   interface Window {
@@ -131,16 +133,7 @@ export class SpeechService {
   }
 
   private detectLanguage(text: string): string {
-    // Simple language detection based on script
-    const hindiPattern = /[\u0900-\u097F]/;
-    const englishPattern = /[a-zA-Z]/;
-    
-    const hasHindi = hindiPattern.test(text);
-    const hasEnglish = englishPattern.test(text);
-    
-    if (hasHindi && hasEnglish) return 'mixed';
-    if (hasHindi) return 'hindi';
-    return 'english';
+    return detectHinglishLanguage(text);
   }
 
   private analyzeEmotionalTone(text: string): VoiceAnalysis['emotionalTone'] {
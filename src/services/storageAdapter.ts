@@ -0,0 +1,179 @@
+// Persistent Storage Adapters for MannMitra
+// Pluggable key-value storage so therapeutic data survives page reloads
+
+export interface StorageAdapter {
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  set<T>(collection: string, key: string, value: T): Promise<void>;
+  delete(collection: string, key: string): Promise<void>;
+  list<T>(collection: string): Promise<T[]>;
+}
+
+interface StoredRecord {
+  collection: string;
+  key: string;
+  value: any;
+  updatedAt: string;
+}
+
+const DATE_MARKER = '$date';
+
+// Dates are tagged explicitly so they come back as Date objects instead of ISO strings
+export function toStorable(value: any): any {
+  if (value instanceof Date) {
+    return { [DATE_MARKER]: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => toStorable(item));
+  }
+  if (value && typeof value === 'object') {
+    const result: any = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      if (entry !== undefined && typeof entry !== 'function') {
+        result[key] = toStorable(entry);
+      }
+    });
+    return result;
+  }
+  return value;
+}
+
+export function fromStorable<T = any>(value: any): T {
+  if (Array.isArray(value)) {
+    return value.map(item => fromStorable(item)) as any;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === DATE_MARKER) {
+      return new Date(value[DATE_MARKER]) as any;
+    }
+    const result: any = {};
+    keys.forEach(key => {
+      result[key] = fromStorable(value[key]);
+    });
+    return result;
+  }
+  return value;
+}
+
+// In-memory adapter - used in tests and when IndexedDB is unavailable
+export class InMemoryStorageAdapter implements StorageAdapter {
+  private collections: Map<string, Map<string, any>> = new Map();
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const stored = this.collections.get(collection)?.get(key);
+    return stored === undefined ? undefined : fromStorable<T>(stored);
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    // Round-trip through the storable format so callers never share references with the store
+    this.collections.get(collection)!.set(key, toStorable(value));
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    this.collections.get(collection)?.delete(key);
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    const entries = this.collections.get(collection);
+    if (!entries) return [];
+    return Array.from(entries.values()).map(stored => fromStorable<T>(stored));
+  }
+
+  clear(): void {
+    this.collections.clear();
+  }
+}
+
+// IndexedDB adapter - all collections share one object store keyed by [collection, key]
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'records';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName: string = 'mannmitra') {}
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const record = await this.runRequest<StoredRecord | undefined>('readonly', store =>
+      store.get([collection, key])
+    );
+    return record ? fromStorable<T>(record.value) : undefined;
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    const record: StoredRecord = {
+      collection,
+      key,
+      value: toStorable(value),
+      updatedAt: new Date().toISOString()
+    };
+    await this.runRequest('readwrite', store => store.put(record));
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete([collection, key]));
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    const records = await this.runRequest<StoredRecord[]>('readonly', store =>
+      store.index('collection').getAll(collection)
+    );
+    return records.map(record => fromStorable<T>(record.value));
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, IndexedDBStorageAdapter.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IndexedDBStorageAdapter.STORE_NAME)) {
+            const store = db.createObjectStore(IndexedDBStorageAdapter.STORE_NAME, {
+              keyPath: ['collection', 'key']
+            });
+            store.createIndex('collection', 'collection', { unique: false });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBStorageAdapter.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(IndexedDBStorageAdapter.STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined' && indexedDB !== null;
+}
+
+// Prefer IndexedDB in the browser, fall back to memory elsewhere
+export function createStorageAdapter(databaseName: string = 'mannmitra'): StorageAdapter {
+  if (isIndexedDBAvailable()) {
+    return new IndexedDBStorageAdapter(databaseName);
+  }
+  console.warn('⚠️ IndexedDB not available. Session data will not persist across reloads');
+  return new InMemoryStorageAdapter();
+}
+
+// Shared adapter instance for services that persist data
+export const storageAdapter = createStorageAdapter();
@@ -0,0 +1,92 @@
+// Thought Records for MannMitra
+// Saved CBT thought records per user, with the distortion trends shown on the dashboard
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import {
+  distortionTrends,
+  averageRelief,
+  type ThoughtRecordDraft,
+  type DistortionTrend
+} from '../utils/thoughtRecord';
+
+const THOUGHT_RECORDS = 'thoughtRecords';
+
+export interface ThoughtRecord extends ThoughtRecordDraft {
+  id: string;
+  userId: string;
+  // Chat session the record was started from, if any
+  sessionId?: string;
+  createdAt: Date;
+}
+
+export interface ThoughtRecordInsights {
+  total: number;
+  trends: DistortionTrend[];
+  // Average drop from the first emotion rating to the re-rating; undefined with no records
+  averageRelief?: number;
+}
+
+export class ThoughtRecordService {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = storageAdapter) {
+    this.storage = storage;
+  }
+
+  async saveRecord(userId: string, draft: ThoughtRecordDraft, sessionId?: string): Promise<ThoughtRecord> {
+    const now = new Date();
+    const clean = (value: string) => value.trim();
+    const record: ThoughtRecord = {
+      ...draft,
+      situation: clean(draft.situation),
+      automaticThought: clean(draft.automaticThought),
+      emotion: clean(draft.emotion),
+      evidenceFor: clean(draft.evidenceFor),
+      evidenceAgainst: clean(draft.evidenceAgainst),
+      balancedThought: clean(draft.balancedThought),
+      distortions: Array.from(new Set(draft.distortions)),
+      id: `thought_${userId}_${now.getTime()}_${Math.random().toString(36).substr(2, 6)}`,
+      userId,
+      sessionId,
+      createdAt: now
+    };
+
+    await this.storage.set(THOUGHT_RECORDS, record.id, record);
+    console.log(`📓 Thought record saved for ${userId} (${record.distortions.length} distortion(s))`);
+    return record;
+  }
+
+  // Newest first
+  async getRecords(userId: string): Promise<ThoughtRecord[]> {
+    try {
+      const records = await this.storage.list<ThoughtRecord>(THOUGHT_RECORDS);
+      return records
+        .filter(record => record.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error loading thought records:', error);
+      return [];
+    }
+  }
+
+  async deleteRecord(recordId: string): Promise<void> {
+    await this.storage.delete(THOUGHT_RECORDS, recordId);
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    const records = await this.getRecords(userId);
+    await Promise.all(records.map(record => this.storage.delete(THOUGHT_RECORDS, record.id)));
+  }
+
+  async getInsights(userId: string, now: Date = new Date()): Promise<ThoughtRecordInsights> {
+    const records = await this.getRecords(userId);
+    return {
+      total: records.length,
+      trends: distortionTrends(records, now),
+      averageRelief: averageRelief(records)
+    };
+  }
+}
+
+// Export singleton instance
+export const thoughtRecords = new ThoughtRecordService();
@@ -0,0 +1,322 @@
+// Trusted Contacts Service for MannMitra
+// People the user has chosen to alert in a crisis; nothing is sent without per-contact consent and the user's confirmation
+
+import { storageAdapter, type StorageAdapter } from './storageAdapter';
+import { createDefaultNotifiers, type Notifier, type NotifierChannel, type NotifierMessage, type NotifierResult } from './notifier';
+import { safetyAuditLog, type SafetyAuditLog } from './safetyAuditLog';
+import { CRISIS_HELPLINES } from '../utils/helplines';
+import type { RiskLevel } from '../types';
+
+const TRUSTED_CONTACTS = 'trustedContacts';
+const CONTACT_ALERTS = 'contactAlerts';
+
+export type ContactChannel = 'sms' | 'email';
+
+export interface TrustedContact {
+  id: string;
+  userId: string;
+  name: string;
+  relationship?: string;
+  phone?: string;
+  email?: string;
+  channel: ContactChannel;
+  // The user confirms this person has agreed to receive crisis alerts
+  consent: {
+    granted: boolean;
+    grantedAt?: Date;
+    revokedAt?: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TrustedContactInput = Pick<TrustedContact, 'userId' | 'name' | 'relationship' | 'phone' | 'email' | 'channel'> & {
+  id?: string;
+};
+
+export type ContactAlertStatus = 'sent' | 'failed' | 'blocked';
+
+// One record per attempted alert, kept so the user can see exactly who was told what and when
+export interface ContactAlert {
+  id: string;
+  userId: string;
+  contactId: string;
+  contactName: string;
+  channel: ContactChannel;
+  // Which notifier actually handled it; 'log' means nothing left the device
+  notifier: NotifierChannel;
+  to: string;
+  riskLevel: RiskLevel;
+  subject: string;
+  body: string;
+  status: ContactAlertStatus;
+  error?: string;
+  providerMessageId?: string;
+  confirmedAt: Date;
+  attemptedAt: Date;
+}
+
+export interface ContactAlertRequest {
+  userId: string;
+  userName: string;
+  contactIds: string[];
+  riskLevel: RiskLevel;
+  // Must be true: set only from an explicit "Yes, send" action by the user
+  confirmed: boolean;
+  personalNote?: string;
+}
+
+export interface TrustedContactsOptions {
+  notifiers?: Partial<Record<NotifierChannel, Notifier>>;
+  // Use the log notifier when the SMS or email gateway is not configured; defaults to on only in development
+  fallbackToLog?: boolean;
+  audit?: SafetyAuditLog;
+}
+
+export class ContactAlertNotConfirmedError extends Error {
+  constructor() {
+    super('Trusted contacts can only be alerted after the user confirms');
+    this.name = 'ContactAlertNotConfirmedError';
+  }
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/[\s\-()]/g, '');
+}
+
+export function isValidPhone(phone: string): boolean {
+  return /^(\+91|0)?[6-9]\d{9}$|^\+\d{10,14}$/.test(normalizePhone(phone));
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+export class TrustedContactsService {
+  private storage: StorageAdapter;
+  private notifiers: Partial<Record<NotifierChannel, Notifier>>;
+  private fallbackToLog: boolean;
+  private audit: SafetyAuditLog;
+
+  constructor(storage: StorageAdapter = storageAdapter, options: TrustedContactsOptions = {}) {
+    this.storage = storage;
+    this.notifiers = options.notifiers || createDefaultNotifiers();
+    this.fallbackToLog = options.fallbackToLog ?? Boolean(((import.meta as any).env || {}).DEV);
+    this.audit = options.audit || safetyAuditLog;
+  }
+
+  async getContacts(userId: string): Promise<TrustedContact[]> {
+    try {
+      const contacts = await this.storage.list<TrustedContact>(TRUSTED_CONTACTS);
+      return contacts
+        .filter(contact => contact.userId === userId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Error loading trusted contacts:', error);
+      return [];
+    }
+  }
+
+  // Contacts who have consented and can be reached on their chosen channel
+  async getAlertableContacts(userId: string): Promise<TrustedContact[]> {
+    return (await this.getContacts(userId)).filter(contact =>
+      contact.consent.granted && Boolean(this.addressFor(contact))
+    );
+  }
+
+  // Editing details keeps consent; a new contact always starts without it
+  async saveContact(input: TrustedContactInput): Promise<TrustedContact> {
+    const problems = this.validate(input);
+    if (problems.length > 0) {
+      throw new Error(`Invalid trusted contact: ${problems.join(', ')}`);
+    }
+
+    const now = new Date();
+    const existing = input.id ? await this.storage.get<TrustedContact>(TRUSTED_CONTACTS, input.id) : undefined;
+    const contact: TrustedContact = {
+      ...existing,
+      ...input,
+      id: existing?.id || `contact_${input.userId}_${now.getTime()}`,
+      phone: input.phone ? normalizePhone(input.phone) : undefined,
+      email: input.email?.trim() || undefined,
+      consent: existing?.consent || { granted: false },
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    await this.storage.set(TRUSTED_CONTACTS, contact.id, contact);
+    return contact;
+  }
+
+  async setConsent(contactId: string, granted: boolean): Promise<TrustedContact | undefined> {
+    const contact = await this.storage.get<TrustedContact>(TRUSTED_CONTACTS, contactId);
+    if (!contact) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const updated: TrustedContact = {
+      ...contact,
+      consent: granted
+        ? { granted: true, grantedAt: now }
+        : { ...contact.consent, granted: false, revokedAt: now },
+      updatedAt: now
+    };
+
+    await this.storage.set(TRUSTED_CONTACTS, contactId, updated);
+    return updated;
+  }
+
+  async removeContact(contactId: string): Promise<void> {
+    await this.storage.delete(TRUSTED_CONTACTS, contactId);
+  }
+
+  validate(input: TrustedContactInput): string[] {
+    const problems: string[] = [];
+
+    if (!input.name?.trim()) problems.push('name is required');
+    if (input.phone && !isValidPhone(input.phone)) problems.push('phone number is not valid');
+    if (input.email && !isValidEmail(input.email)) problems.push('email address is not valid');
+    if (input.channel === 'sms' && !input.phone) problems.push('SMS alerts need a phone number');
+    if (input.channel === 'email' && !input.email) problems.push('email alerts need an email address');
+
+    return problems;
+  }
+
+  // Pre-written so the user only has to confirm, not compose, while in distress
+  buildAlertMessage(userName: string, personalNote?: string): Omit<NotifierMessage, 'to'> {
+    const teleManas = CRISIS_HELPLINES.find(helpline => helpline.number === '14416');
+    const note = personalNote?.trim() ? `\n\n"${personalNote.trim()}" - ${userName}` : '';
+
+    return {
+      subject: `MannMitra: ${userName} को आपकी ज़रूरत है / ${userName} needs your support`,
+      body: [
+        `${userName} ने आपको MannMitra पर अपने भरोसेमंद व्यक्ति के रूप में चुना है। वे अभी मुश्किल समय से गुज़र रहे हैं और चाहते हैं कि आप उनसे संपर्क करें। कृपया जल्द से जल्द उन्हें call करें या उनके पास जाएँ।`,
+        `${userName} chose you as a trusted contact on MannMitra. They are going through a difficult time right now and asked us to let you know. Please call or visit them as soon as you can.`,
+        `तुरंत खतरा हो तो 112 पर call करें। / If they are in immediate danger, call 112.` +
+          (teleManas ? `\n${teleManas.name} (${teleManas.availability}): ${teleManas.number}` : '')
+      ].join('\n\n') + note
+    };
+  }
+
+  // Sends to each selected contact; contacts without consent are recorded as blocked rather than sent
+  async sendAlerts(request: ContactAlertRequest): Promise<ContactAlert[]> {
+    if (!request.confirmed) {
+      throw new ContactAlertNotConfirmedError();
+    }
+
+    const confirmedAt = new Date();
+    const message = this.buildAlertMessage(request.userName, request.personalNote);
+    const contacts = (await this.getContacts(request.userId))
+      .filter(contact => request.contactIds.includes(contact.id));
+
+    const alerts: ContactAlert[] = [];
+    for (const contact of contacts) {
+      const alert = await this.sendAlert(contact, message, request.riskLevel, confirmedAt);
+      alerts.push(alert);
+      // The alert has already gone out; a record that cannot be saved must not hide that from the user
+      try {
+        await this.storage.set(CONTACT_ALERTS, alert.id, alert);
+        await this.audit.recordEscalation('trusted_contact_alert', {
+          source: 'contact_alert',
+          userId: request.userId,
+          level: request.riskLevel,
+          details: { contactId: contact.id, channel: alert.notifier, status: alert.status }
+        });
+      } catch (error) {
+        console.error('Error recording trusted contact alert:', error);
+      }
+    }
+
+    const sent = alerts.filter(alert => alert.status === 'sent').length;
+    console.log(`📣 Trusted contact alerts: ${sent}/${alerts.length} sent for ${request.userId}`);
+    return alerts;
+  }
+
+  async getAlertHistory(userId: string): Promise<ContactAlert[]> {
+    try {
+      const alerts = await this.storage.list<ContactAlert>(CONTACT_ALERTS);
+      return alerts
+        .filter(alert => alert.userId === userId)
+        .sort((a, b) => b.attemptedAt.getTime() - a.attemptedAt.getTime());
+    } catch (error) {
+      console.error('Error loading contact alert history:', error);
+      return [];
+    }
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    const [contacts, alerts] = await Promise.all([this.getContacts(userId), this.getAlertHistory(userId)]);
+    await Promise.all([
+      ...contacts.map(contact => this.storage.delete(TRUSTED_CONTACTS, contact.id)),
+      ...alerts.map(alert => this.storage.delete(CONTACT_ALERTS, alert.id))
+    ]);
+  }
+
+  private async sendAlert(
+    contact: TrustedContact,
+    message: Omit<NotifierMessage, 'to'>,
+    riskLevel: RiskLevel,
+    confirmedAt: Date
+  ): Promise<ContactAlert> {
+    const attemptedAt = new Date();
+    const to = this.addressFor(contact) || '';
+    const notifier = this.notifierFor(contact.channel);
+    const alert: ContactAlert = {
+      id: `alert_${contact.id}_${attemptedAt.getTime()}`,
+      userId: contact.userId,
+      contactId: contact.id,
+      contactName: contact.name,
+      channel: contact.channel,
+      notifier: notifier?.channel || contact.channel,
+      to,
+      riskLevel,
+      subject: message.subject,
+      body: message.body,
+      status: 'failed',
+      confirmedAt,
+      attemptedAt
+    };
+
+    if (!contact.consent.granted) {
+      return { ...alert, status: 'blocked', error: 'contact has not consented to alerts' };
+    }
+    if (!to) {
+      return { ...alert, error: `no ${contact.channel} address for contact` };
+    }
+    if (!notifier) {
+      return { ...alert, error: `no ${contact.channel} notifier configured` };
+    }
+
+    let result: NotifierResult;
+    try {
+      result = await notifier.send({ ...message, to });
+    } catch (error) {
+      // One contact's notifier failing leaves the others to be tried
+      return { ...alert, error: error instanceof Error ? error.message : String(error) };
+    }
+    // A logged alert never reached the contact, whatever the notifier reports
+    const delivered = result.delivered && notifier.channel !== 'log';
+    return {
+      ...alert,
+      status: delivered ? 'sent' : 'failed',
+      error: result.error,
+      providerMessageId: result.providerMessageId
+    };
+  }
+
+  private addressFor(contact: TrustedContact): string | undefined {
+    return contact.channel === 'sms' ? contact.phone : contact.email;
+  }
+
+  private notifierFor(channel: ContactChannel): Notifier | undefined {
+    const notifier = this.notifiers[channel];
+    if (notifier?.isAvailable()) {
+      return notifier;
+    }
+    return this.fallbackToLog ? this.notifiers.log : undefined;
+  }
+}
+
+// Export singleton instance
+export const trustedContactsService = new TrustedContactsService();
@@ -1,6 +1,15 @@
 // Vertex AI REST API Integration for Browser
 // This uses the Vertex AI REST API which is more powerful than the basic Gemini API
 
+import { guardResponse, findViolations } from '../utils/responseGuard';
+import { detectPromptInjection, injectionReply } from '../utils/promptSafety';
+import { redactForLLM, restorePII, type PrivacyContext } from '../utils/piiRedaction';
+import { parseStructuredOutput } from '../utils/structuredOutput';
+import { safetyAuditLog } from './safetyAuditLog';
+import { VERTEX_RESPONSE_SCHEMA } from './responseSchemas';
+import { promptRegistry, type PromptTemplateRef } from './promptRegistry';
+import type { RiskLevel } from '../types';
+
 export interface VertexAIConfig {
   projectId: string;
   location: string;
@@ -20,6 +29,7 @@ export interface VertexAIRequest {
     topK?: number;
     maxOutputTokens?: number;
     candidateCount?: number;
+    responseMimeType?: string;
   };
   safetySettings?: Array<{
     category: string;
@@ -85,6 +95,30 @@ export class VertexAIService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.config.apiKey &&
+      this.config.apiKey !== 'your-vertex-ai-key' &&
+      this.config.projectId !== 'your-project-id';
+  }
+
+  // Raw text generation - throws on failure so callers can fail over to another provider
+  async generateText(prompt: string, options: { temperature?: number; maxTokens?: number } = {}): Promise<string> {
+    const request: VertexAIRequest = {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        maxOutputTokens: options.maxTokens ?? 1024
+      }
+    };
+
+    const response = await this.generateContent('gemini-1.5-pro-preview-0409', request);
+    const text = response.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error('No response generated');
+    }
+    return text;
+  }
+
   async generateMentalHealthResponse(
     userMessage: string,
     context: {
@@ -95,6 +129,8 @@ export class VertexAIService {
       conversationHistory: string[];
       userInterests: string[];
       crisisLevel: string;
+      // From UserProfile['privacy']; personal details are redacted unless this is explicitly off
+      privacy?: PrivacyContext;
     }
   ): Promise<{
     message: string;
@@ -102,14 +138,44 @@ export class VertexAIService {
     riskAssessment: string;
     culturalReferences: string[];
     confidence: number;
+    promptTemplate?: PromptTemplateRef;
   }> {
-    const prompt = this.buildMentalHealthPrompt(userMessage, context);
+    // Override attempts never reach the model; the user gets a gentle boundary reply instead
+    const injection = detectPromptInjection(userMessage);
+    if (injection.verdict !== 'clean') {
+      safetyAuditLog.recordInjectionAttempt(injection, userMessage, {
+        source: 'vertex',
+        level: context.crisisLevel as RiskLevel
+      });
+    }
+    if (injection.verdict === 'override') {
+      return {
+        ...this.getFallbackResponse(context),
+        message: this.guardMessage(injectionReply(this.guardLanguage(context), context.crisisLevel as RiskLevel), context)
+      };
+    }
+
+    // Personal details are swapped for placeholders here and put back after the reply is parsed
+    const redaction = redactForLLM([userMessage, ...context.conversationHistory], context.privacy);
+    const [safeMessage, ...safeHistory] = redaction.texts;
+    if (redaction.entities.length > 0) {
+      console.log(`🔒 Redacted ${redaction.entities.length} personal detail(s) before sending to Vertex AI`);
+    }
+    const prompt = promptRegistry.render('vertex.companion', {
+      message: safeMessage,
+      history: safeHistory,
+      culturalBackground: context.culturalBackground,
+      mood: context.currentMood,
+      stressLevel: context.stressLevel,
+      crisisLevel: context.crisisLevel,
+      interests: context.userInterests
+    }, { language: context.language });
 
     const request: VertexAIRequest = {
       contents: [
         {
           role: 'user',
-          parts: [{ text: prompt }]
+          parts: [{ text: prompt.text }]
         }
       ],
       generationConfig: {
@@ -117,7 +183,9 @@ export class VertexAIService {
         topP: 0.8,
         topK: 40,
         maxOutputTokens: 2048,
-        candidateCount: 1
+        candidateCount: 1,
+        // Ask the model for JSON directly; the reply is still validated against the schema
+        responseMimeType: 'application/json'
       },
       safetySettings: [
         {
@@ -147,89 +215,60 @@ export class VertexAIService {
       }
 
       const generatedText = response.candidates[0].content.parts[0].text;
-      return this.parseResponse(generatedText, context);
+      const parsed = this.parseResponse(generatedText, context);
+      return {
+        ...parsed,
+        message: restorePII(parsed.message, redaction.entities),
+        suggestedActions: parsed.suggestedActions.map((action: string) => restorePII(action, redaction.entities)),
+        promptTemplate: { templateId: prompt.templateId, version: prompt.version, language: prompt.language }
+      };
     } catch (error) {
       console.error('Mental health response generation failed:', error);
       return this.getFallbackResponse(context);
     }
   }
 
-  private buildMentalHealthPrompt(userMessage: string, context: any): string {
-    return `
-You are "MannMitra" (मन मित्र), an advanced AI mental health companion specifically designed for Indian youth. You are trained in evidence-based therapeutic approaches and culturally sensitive support.
-
-CULTURAL CONTEXT:
-- Target audience: Indian youth (ages 16-25)
-- Cultural background: ${context.culturalBackground}
-- Language preference: ${context.language}
-- Current emotional state: ${context.currentMood}
-- Stress level: ${context.stressLevel}
-- Crisis risk level: ${context.crisisLevel}
-
-USER INTERESTS: ${context.userInterests.join(', ')}
-
-CONVERSATION HISTORY:
-${context.conversationHistory.slice(-3).join('\n')}
-
-CURRENT USER MESSAGE: "${userMessage}"
-
-THERAPEUTIC GUIDELINES:
-1. Use evidence-based approaches (CBT, DBT, mindfulness)
-2. Be culturally sensitive to Indian family dynamics and social pressures
-3. Address academic stress, career anxiety, and social expectations
-4. Reference appropriate cultural concepts when helpful
-5. Provide practical, actionable coping strategies
-6. Assess and respond to crisis indicators appropriately
-
-LANGUAGE INSTRUCTIONS:
-${context.language === 'hi' ?
-        '- Respond primarily in Hindi with Devanagari script\n- Use respectful forms (आप, जी)\n- Include cultural expressions and wisdom' :
-        context.language === 'mixed' ?
-          '- Use natural Hinglish (Hindi-English code-switching)\n- Switch languages as feels natural\n- Use English for technical terms, Hindi for emotional expressions' :
-          '- Respond in English with occasional Hindi phrases for warmth\n- Include culturally relevant expressions'
-      }
-
-CRISIS RESPONSE:
-${context.crisisLevel !== 'none' ? `
-⚠️ CRISIS LEVEL: ${context.crisisLevel}
-- Provide immediate safety planning and support
-- Offer Indian crisis helplines: Vandrevala Foundation (9999 666 555), AASRA (91-22-27546669)
-- Use de-escalation techniques
-- Encourage professional help
-` : ''}
-
-RESPONSE FORMAT (JSON):
-{
-  "message": "Your empathetic, culturally sensitive response (150-200 words)",
-  "suggestedActions": ["Immediate action 1", "Short-term action 2", "Long-term action 3"],
-  "riskAssessment": "Assessment of user's current risk level and recommended interventions",
-  "culturalReferences": ["Relevant cultural wisdom or concept"],
-  "confidence": 0.85
-}
-
-Generate a therapeutic response that combines professional mental health support with deep cultural understanding.
-`;
-  }
-
   private parseResponse(generatedText: string, context: any) {
     try {
-      // Clean and parse JSON response
-      const cleanedText = generatedText.replace(/```json\n?|\n?```/g, '').trim();
-      const parsed = JSON.parse(cleanedText);
+      const parsed = parseStructuredOutput<{
+        message: string;
+        suggestedActions: string[];
+        riskAssessment: string;
+        culturalReferences: string[];
+        confidence: number;
+      }>(generatedText, VERTEX_RESPONSE_SCHEMA);
+      if (parsed.repaired) {
+        console.warn('🔧 Vertex AI reply JSON needed repair before it validated');
+      }
 
       return {
-        message: parsed.message || generatedText,
-        suggestedActions: parsed.suggestedActions || [],
-        riskAssessment: parsed.riskAssessment || 'Continue supportive conversation',
-        culturalReferences: parsed.culturalReferences || [],
-        confidence: parsed.confidence || 0.8
+        message: this.guardMessage(parsed.value.message, context),
+        suggestedActions: parsed.value.suggestedActions.filter(action => findViolations(action).length === 0),
+        riskAssessment: parsed.value.riskAssessment,
+        culturalReferences: parsed.value.culturalReferences,
+        confidence: parsed.value.confidence
       };
     } catch (error) {
+      // StructuredOutputError lists exactly which fields were wrong
       console.error('Failed to parse AI response:', error);
       return this.getFallbackResponse(context);
     }
   }
 
+  // Model text is checked before it reaches the user, see utils/responseGuard
+  private guardMessage(message: string, context: any): string {
+    const riskLevel = (context.crisisLevel || 'none') as RiskLevel;
+    const guarded = guardResponse(message, { riskLevel, language: this.guardLanguage(context) });
+    if (guarded.action !== 'allow') {
+      safetyAuditLog.recordGuardedResponse(guarded, { source: 'vertex', level: riskLevel });
+    }
+    return guarded.text;
+  }
+
+  private guardLanguage(context: any): 'hindi' | 'english' | 'mixed' {
+    return context.language === 'hi' ? 'hindi' : context.language === 'en' ? 'english' : 'mixed';
+  }
+
   private getFallbackResponse(context: any) {
     const fallbackMessages = {
       hi: "मैं यहाँ आपको सुनने और सहारा देने के लिए हूँ। आपकी भावनाएं सही हैं, और इस सफर में आप अकेले नहीं हैं।",
@@ -1,6 +1,8 @@
 // Advanced Voice Analysis Service for Mental Health Assessment
 // Analyzes speech patterns, tone, and linguistic features for emotional insights
 
+import { detectLanguage as detectHinglishLanguage } from '../utils/hinglish';
+
 export interface VoiceAnalysisResult {
   transcript: string;
   confidence: number;
@@ -329,15 +331,8 @@ export class VoiceAnalysisService {
   }
 
   private detectLanguage(text: string): string {
-    const hindiPattern = /[\u0900-\u097F]/;
-    const englishPattern = /[a-zA-Z]/;
-    
-    const hasHindi = hindiPattern.test(text);
-    const hasEnglish = englishPattern.test(text);
-    
-    if (hasHindi && hasEnglish) return 'mixed';
-    if (hasHindi) return 'hindi';
-    return 'english';
+    // Speech transcripts of Hindi often come back in Latin script, so this checks vocabulary as well as script
+    return detectHinglishLanguage(text);
   }
 
   private analyzeCulturalContext(text: string, language: string): VoiceAnalysisResult['culturalContext'] {
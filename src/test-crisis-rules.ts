@@ -0,0 +1,188 @@
+// Crisis rule engine regression corpus
+// Messages scored straight through the rule engine with the shipped crisis rules - checks negation, hypotheticals,
+// speech about someone else and imminence dimension by dimension, with the assessed risk level alongside
+
+import { evaluateCrisisRules, type CrisisDimension } from './utils/crisisRules';
+import { CRISIS_RULES } from './utils/crisisDetection';
+import { riskAssessmentService } from './services/riskAssessment';
+import type { RiskLevel } from './types';
+
+export interface CrisisRuleCase {
+  name: string;
+  message: string;
+  expect: {
+    level: RiskLevel;
+    // Exact dimension scores; dimensions not listed must score 0
+    dimensions: Partial<Record<CrisisDimension, number>>;
+    // Substrings expected among the modifiers of the trace, e.g. 'negated by "never"'
+    modifiers?: string[];
+  };
+}
+
+export interface CrisisRuleResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+export const crisisRuleCorpus: CrisisRuleCase[] = [
+  // Negation
+  {
+    name: 'Negated ideation counts only a little',
+    message: 'I would never kill myself',
+    expect: { level: 'low', dimensions: { ideation: 2 }, modifiers: ['negated by "never"'] }
+  },
+  {
+    name: 'Negation without an apostrophe is still negation',
+    message: 'I wont hurt myself, I promise',
+    expect: { level: 'low', dimensions: { self_harm: 2 }, modifiers: ['negated by "wont"'] }
+  },
+  {
+    name: 'Hindi postposed negation',
+    message: 'suicide nahi karunga',
+    expect: { level: 'low', dimensions: { ideation: 2 }, modifiers: ['negated by "nahi"'] }
+  },
+  {
+    name: 'An interjected "no" at the start is not a negation',
+    message: 'No I want to die',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: 'An interjected "no more" is not a negation',
+    message: "can't take it no more I want to die",
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: '"no" before a noun phrase is a negation',
+    message: 'I have no intention to kill myself',
+    expect: { level: 'low', dimensions: { ideation: 2 }, modifiers: ['negated by "no"'] }
+  },
+  {
+    name: 'A rhetorical "why not" is not a negation',
+    message: 'why not end it all',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: 'A missing apostrophe does not hide the phrase',
+    message: 'I dont want to live anymore',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: 'Romanized "jeena nahi" is ideation, not a negation',
+    message: 'mujhe ab jeena nahi hai',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: 'Devanagari "जीना नहीं" is ideation',
+    message: 'मुझे अब जीना नहीं है',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  // Hypotheticals
+  {
+    name: 'A "what if" question is discounted',
+    message: 'what if I kill myself',
+    expect: { level: 'moderate', dimensions: { ideation: 5 }, modifiers: ['hypothetical ("what if")'] }
+  },
+  {
+    name: 'A film plot is discounted, timing included',
+    message: 'In the movie he says he wants to end it all tonight',
+    expect: { level: 'moderate', dimensions: { ideation: 5, temporal: 2.5 }, modifiers: ['hypothetical ("in the movie")'] }
+  },
+  {
+    name: 'A joke before a comma does not discount what follows',
+    message: 'just kidding, I want to die',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: '"Not joking" is emphasis, not a hypothetical',
+    message: 'I am not joking I want to kill myself',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  {
+    name: '"mazak nahi" is emphasis, not a hypothetical',
+    message: 'mazak nahi kar raha main marna chahta hoon',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  // Speech about someone else
+  {
+    name: 'A friend wanting to die is not the user\'s ideation',
+    message: 'My friend wants to kill herself and I am scared',
+    expect: { level: 'none', dimensions: {} }
+  },
+  {
+    name: 'Telling someone about one\'s own ideation still counts in full',
+    message: 'I told my friend I want to die',
+    expect: { level: 'high', dimensions: { ideation: 10 } }
+  },
+  // Imminence
+  {
+    name: 'Intent with a time attached is severe',
+    message: 'I want to kill myself tonight',
+    expect: { level: 'severe', dimensions: { ideation: 10, temporal: 5 } }
+  },
+  {
+    name: 'A comma does not separate intent from its timing',
+    message: 'I want to end my life, not tomorrow, today',
+    expect: { level: 'severe', dimensions: { ideation: 10, temporal: 6 }, modifiers: ['negated by "not"'] }
+  },
+  {
+    name: 'Romanized intent with a time after a comma',
+    message: 'mujhe marna hai, aaj raat',
+    expect: { level: 'severe', dimensions: { ideation: 10, temporal: 5 } }
+  },
+  {
+    name: 'A time in another sentence is not imminence',
+    message: 'I want to die. I will see my friends tonight',
+    expect: { level: 'high', dimensions: { ideation: 10 }, modifiers: ['no ideation/self_harm context in the same clause'] }
+  },
+  {
+    name: 'A time on its own is not a risk',
+    message: 'tonight I am going out with friends',
+    expect: { level: 'none', dimensions: {} }
+  },
+  {
+    name: 'Idiomatic "kill me" with a time stays below high',
+    message: 'This exam will kill me today',
+    expect: { level: 'moderate', dimensions: { ideation: 4, temporal: 5 } }
+  }
+];
+
+function runCrisisRuleCase(testCase: CrisisRuleCase): CrisisRuleResult {
+  const { expect } = testCase;
+  const failures: string[] = [];
+  const result = evaluateCrisisRules(testCase.message, CRISIS_RULES);
+  const level = riskAssessmentService.assess(testCase.message).level;
+
+  if (level !== expect.level) {
+    failures.push(`level ${level} !== ${expect.level}`);
+  }
+  (Object.keys(result.dimensions) as CrisisDimension[]).forEach(dimension => {
+    const expected = expect.dimensions[dimension] || 0;
+    if (result.dimensions[dimension] !== expected) {
+      failures.push(`${dimension} ${result.dimensions[dimension]} !== ${expected}`);
+    }
+  });
+  const modifiers = result.trace.flatMap(entry => entry.modifiers);
+  expect.modifiers?.forEach(modifier => {
+    if (!modifiers.some(found => found.includes(modifier))) {
+      failures.push(`no "${modifier}" modifier in [${modifiers.join('; ')}]`);
+    }
+  });
+
+  return { name: testCase.name, passed: failures.length === 0, failures };
+}
+
+export function runCrisisRuleCorpus(corpus: CrisisRuleCase[] = crisisRuleCorpus): CrisisRuleResult[] {
+  console.log('🧪 Running crisis rule corpus...');
+
+  const results = corpus.map(runCrisisRuleCase);
+  results.forEach(result => {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.name}`);
+    result.failures.forEach(failure => console.log(`   - ${failure}`));
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  console.log(`📊 Overall: ${passed}/${results.length} crisis rule cases passed`);
+
+  return results;
+}
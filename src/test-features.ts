@@ -7,6 +7,11 @@ import { aiOrchestrator } from './services/aiOrchestrator';
 import { sessionManager } from './services/sessionManager';
 import { voiceAnalysis } from './services/voiceAnalysis';
 import { speechServices } from './services/speechServices';
+import { PHQ9, GAD7, scoreInstrument } from './utils/screeningInstruments';
+import { scoreQuestionnaire } from './utils/questionnaire';
+import { QUESTIONNAIRES } from './questionnaires';
+import { prefillThoughtRecord, distortionTrends } from './utils/thoughtRecord';
+import { suggestActivities, activationSummary } from './utils/behavioralActivation';
 
 export async function testAllFeatures() {
   console.log('🧪 Starting comprehensive feature tests...');
@@ -17,7 +22,10 @@ export async function testAllFeatures() {
     aiOrchestrator: false,
     sessionManager: false,
     voiceAnalysis: false,
-    speechServices: false
+    speechServices: false,
+    screeningInstruments: false,
+    thoughtRecords: false,
+    activityPlanner: false
   };
 
   // Test Gemini AI
@@ -85,6 +93,78 @@ export async function testAllFeatures() {
     console.log('❌ Speech Services error:', error);
   }
 
+  // Test Screening Instruments (scoring and severity bands)
+  try {
+    console.log('Testing Screening Instruments...');
+    const answersFor = (instrument: typeof PHQ9, values: number[]) =>
+      Object.fromEntries(instrument.items.map((item, index) => [item.id, values[index]]));
+    const phq9 = scoreInstrument(PHQ9, answersFor(PHQ9, [2, 2, 2, 2, 2, 2, 2, 1, 1, 2]));
+    const gad7 = scoreInstrument(GAD7, answersFor(GAD7, [1, 1, 1, 1, 0, 0, 0]));
+    // PSS-10 items 4, 5, 7 and 8 are reverse scored
+    const pss10 = scoreQuestionnaire(QUESTIONNAIRES.pss10, answersFor(QUESTIONNAIRES.pss10, [4, 4, 4, 0, 0, 4, 0, 0, 4, 4]));
+    if (phq9.totalScore !== 16 || phq9.severity !== 'moderately-severe' || !phq9.suicidalIdeation) {
+      throw new Error(`Unexpected PHQ-9 result: ${JSON.stringify(phq9)}`);
+    }
+    if (gad7.totalScore !== 4 || gad7.severity !== 'minimal' || gad7.followUpRecommended) {
+      throw new Error(`Unexpected GAD-7 result: ${JSON.stringify(gad7)}`);
+    }
+    if (pss10.total !== 40 || pss10.band.id !== 'high') {
+      throw new Error(`Unexpected PSS-10 result: ${JSON.stringify(pss10)}`);
+    }
+    console.log('✅ Screening Instruments working:', { phq9: phq9.severity, gad7: gad7.severity, pss10: pss10.band.id });
+    results.screeningInstruments = true;
+  } catch (error) {
+    console.log('❌ Screening Instruments error:', error);
+  }
+
+  // Test Thought Records (prefill from chat and distortion trends)
+  try {
+    console.log('Testing Thought Records...');
+    const draft = prefillThoughtRecord([
+      'My boards are next week and I am so stressed',
+      'Everyone will think I am a failure if I do not get 90 percent'
+    ]);
+    if (!draft.situation.includes('boards') || !draft.distortions.includes('mind_reading') || !draft.distortions.includes('labeling')) {
+      throw new Error(`Unexpected prefill: ${JSON.stringify(draft)}`);
+    }
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const trends = distortionTrends([
+      { distortions: ['labeling'], createdAt: daysAgo(2) },
+      { distortions: ['labeling', 'catastrophizing'], createdAt: daysAgo(35) },
+      { distortions: ['labeling'], createdAt: daysAgo(40) }
+    ]);
+    const labeling = trends.find(trend => trend.id === 'labeling');
+    if (labeling?.recent !== 1 || labeling.previous !== 2 || labeling.trend !== 'decreasing') {
+      throw new Error(`Unexpected trends: ${JSON.stringify(trends)}`);
+    }
+    console.log('✅ Thought Records working:', { distortions: draft.distortions, labeling: labeling.trend });
+    results.thoughtRecords = true;
+  } catch (error) {
+    console.log('❌ Thought Records error:', error);
+  }
+
+  // Test Activity Planner (suggestions from interests and mood summaries)
+  try {
+    console.log('Testing Activity Planner...');
+    const suggestions = suggestActivities({ interests: ['music'], messages: ['I used to go cycling every weekend'] });
+    if (suggestions[0]?.id !== 'play_sport' || !suggestions.some(activity => activity.kind === 'mastery')) {
+      throw new Error(`Unexpected suggestions: ${suggestions.map(activity => activity.id).join(', ')}`);
+    }
+    const now = new Date();
+    const summary = activationSummary([
+      { scheduledFor: now, status: 'done', predictedMood: 4, actualMood: 7 },
+      { scheduledFor: now, status: 'skipped', predictedMood: 5 },
+      { scheduledFor: new Date(now.getTime() + 24 * 60 * 60 * 1000), status: 'planned', predictedMood: 5 }
+    ], now);
+    if (summary.completionRate !== 0.5 || summary.moodLift !== 3) {
+      throw new Error(`Unexpected summary: ${JSON.stringify(summary)}`);
+    }
+    console.log('✅ Activity Planner working:', { suggestions: suggestions.map(activity => activity.id), moodLift: summary.moodLift });
+    results.activityPlanner = true;
+  } catch (error) {
+    console.log('❌ Activity Planner error:', error);
+  }
+
   console.log('🎯 Test Results Summary:');
   console.table(results);
 
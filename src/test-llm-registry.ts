@@ -0,0 +1,234 @@
+// LLM registry streaming scenarios
+// Scripted providers exercise failover, chunk timeouts and cancellation - no network or API keys needed
+
+import { LLMRegistry, LLMTimeoutError, LLMUnavailableError, type LLMProvider } from './services/llmProvider';
+
+export interface RegistryStreamResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+interface RegistryStreamScenario {
+  name: string;
+  run: (failures: string[]) => Promise<void>;
+}
+
+// Yields the given chunks, optionally throwing or stalling before a chunk; stalls never resolve.
+// A stall at the first chunk also stalls generate, and the last request's signal is kept for inspection
+function scriptedProvider(
+  name: string,
+  chunks: string[],
+  behaviour: { failAt?: number; stallAt?: number } = {}
+): LLMProvider & { opened: number; signal?: AbortSignal } {
+  return {
+    name,
+    opened: 0,
+    isAvailable: () => true,
+    async generate(_prompt, options) {
+      this.signal = options.signal;
+      if (behaviour.stallAt === 0) await new Promise<never>(() => undefined);
+      return chunks.join('');
+    },
+    async *stream(_prompt, options) {
+      this.opened++;
+      this.signal = options.signal;
+      for (let index = 0; index <= chunks.length; index++) {
+        if (index === behaviour.failAt) throw new Error(`${name} connection reset`);
+        if (index === behaviour.stallAt) await new Promise<never>(() => undefined);
+        if (index < chunks.length) yield chunks[index];
+      }
+    }
+  };
+}
+
+async function collect(stream: AsyncIterable<string>, onChunk?: (chunk: string) => void): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+    onChunk?.(chunk);
+  }
+  return chunks;
+}
+
+function expectEqual(failures: string[], label: string, actual: unknown, expected: unknown): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${label}: ${JSON.stringify(actual)} !== ${JSON.stringify(expected)}`);
+  }
+}
+
+const registryStreamScenarios: RegistryStreamScenario[] = [
+  {
+    name: 'Streams chunks from the first healthy provider',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 200 });
+      const primary = scriptedProvider('primary', ['Main ', 'yahan ', 'hoon.']);
+      const backup = scriptedProvider('backup', ['backup']);
+      registry.register(primary);
+      registry.register(backup);
+
+      expectEqual(failures, 'chunks', await collect(registry.stream('prompt')), ['Main ', 'yahan ', 'hoon.']);
+      expectEqual(failures, 'backup opened', backup.opened, 0);
+    }
+  },
+  {
+    name: 'A provider that stalls before its first chunk times out and fails over',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 50 });
+      registry.register(scriptedProvider('stalled', ['never'], { stallAt: 0 }));
+      registry.register(scriptedProvider('backup', ['I hear ', 'you.']));
+
+      expectEqual(failures, 'chunks', await collect(registry.stream('prompt')), ['I hear ', 'you.']);
+      const stalled = registry.getHealth().find(health => health.provider === 'stalled');
+      expectEqual(failures, 'stalled failures', stalled?.totalFailures, 1);
+      if (!stalled?.lastError?.includes('did not respond within 50ms')) {
+        failures.push(`stalled provider error was "${stalled?.lastError}"`);
+      }
+    }
+  },
+  {
+    name: 'A provider that errors before its first chunk fails over',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 200 });
+      registry.register(scriptedProvider('broken', ['never'], { failAt: 0 }));
+      registry.register(scriptedProvider('backup', ['Still ', 'here.']));
+
+      expectEqual(failures, 'chunks', await collect(registry.stream('prompt')), ['Still ', 'here.']);
+      expectEqual(failures, 'broken failures', registry.getHealth().find(health => health.provider === 'broken')?.totalFailures, 1);
+    }
+  },
+  {
+    name: 'An error after the first chunk reaches the caller without failover',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 200 });
+      const backup = scriptedProvider('backup', ['backup']);
+      registry.register(scriptedProvider('flaky', ['Hello ', 'there'], { failAt: 1 }));
+      registry.register(backup);
+
+      const received: string[] = [];
+      try {
+        await collect(registry.stream('prompt'), chunk => received.push(chunk));
+        failures.push('the stream did not throw');
+      } catch (error) {
+        expectEqual(failures, 'error', error instanceof Error ? error.message : String(error), 'flaky connection reset');
+      }
+      expectEqual(failures, 'chunks before the error', received, ['Hello ']);
+      expectEqual(failures, 'backup opened', backup.opened, 0);
+    }
+  },
+  {
+    name: 'A provider that stalls after its first chunk times out and is cancelled',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 50 });
+      const stalling = scriptedProvider('stalling', ['Hello ', 'there'], { stallAt: 1 });
+      const backup = scriptedProvider('backup', ['backup']);
+      registry.register(stalling);
+      registry.register(backup);
+
+      const received: string[] = [];
+      try {
+        await collect(registry.stream('prompt'), chunk => received.push(chunk));
+        failures.push('the stream did not throw');
+      } catch (error) {
+        if (!(error instanceof LLMTimeoutError)) failures.push(`expected LLMTimeoutError, got ${error}`);
+      }
+      expectEqual(failures, 'chunks before the stall', received, ['Hello ']);
+      expectEqual(failures, 'request aborted', stalling.signal?.aborted, true);
+      expectEqual(failures, 'backup opened', backup.opened, 0);
+    }
+  },
+  {
+    name: 'Aborting mid-stream stops the chunks',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 200 });
+      registry.register(scriptedProvider('primary', ['One. ', 'Two. ', 'Three.']));
+      const controller = new AbortController();
+
+      const chunks = await collect(registry.stream('prompt', { signal: controller.signal }), () => controller.abort());
+      expectEqual(failures, 'chunks', chunks, ['One. ']);
+    }
+  },
+  {
+    name: 'Aborting before the first chunk ends the stream without blaming the provider',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 5000 });
+      const backup = scriptedProvider('backup', ['backup']);
+      registry.register(scriptedProvider('slow', ['late'], { stallAt: 0 }));
+      registry.register(backup);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      const startedAt = Date.now();
+      expectEqual(failures, 'chunks', await collect(registry.stream('prompt', { signal: controller.signal })), []);
+      if (Date.now() - startedAt > 1000) failures.push('the stream kept waiting after the abort');
+      expectEqual(failures, 'slow failures', registry.getHealth().find(health => health.provider === 'slow')?.totalFailures, 0);
+      expectEqual(failures, 'backup opened', backup.opened, 0);
+    }
+  },
+  {
+    name: 'Aborting a completion stops the wait without trying the next provider',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 5000 });
+      const backup = scriptedProvider('backup', ['backup']);
+      registry.register(scriptedProvider('slow', ['late'], { stallAt: 0 }));
+      registry.register(backup);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      const startedAt = Date.now();
+      try {
+        await registry.complete('prompt', { signal: controller.signal });
+        failures.push('the completion did not throw');
+      } catch (error) {
+        if (error instanceof LLMUnavailableError) failures.push('the abort was reported as every provider failing');
+      }
+      if (Date.now() - startedAt > 1000) failures.push('the completion kept waiting after the abort');
+      expectEqual(failures, 'slow failures', registry.getHealth().find(health => health.provider === 'slow')?.totalFailures, 0);
+      expectEqual(failures, 'backup asked', backup.signal, undefined);
+    }
+  },
+  {
+    name: 'Every provider failing before a chunk throws LLMUnavailableError',
+    run: async failures => {
+      const registry = new LLMRegistry({ defaultTimeoutMs: 50 });
+      registry.register(scriptedProvider('broken', ['never'], { failAt: 0 }));
+      registry.register(scriptedProvider('stalled', ['never'], { stallAt: 0 }));
+
+      try {
+        await collect(registry.stream('prompt'));
+        failures.push('the stream did not throw');
+      } catch (error) {
+        if (!(error instanceof LLMUnavailableError)) {
+          failures.push(`expected LLMUnavailableError, got ${error}`);
+        } else {
+          expectEqual(failures, 'attempts', error.attempts.map(attempt => attempt.provider), ['broken', 'stalled']);
+        }
+      }
+    }
+  }
+];
+
+export async function runLLMRegistryScenarios(scenarios: RegistryStreamScenario[] = registryStreamScenarios): Promise<RegistryStreamResult[]> {
+  console.log('🧪 Running LLM registry streaming scenarios...');
+
+  const results: RegistryStreamResult[] = [];
+  for (const scenario of scenarios) {
+    const failures: string[] = [];
+    try {
+      await scenario.run(failures);
+    } catch (error) {
+      failures.push(`threw ${error instanceof Error ? error.message : String(error)}`);
+    }
+    results.push({ name: scenario.name, passed: failures.length === 0, failures });
+  }
+
+  results.forEach(result => {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.name}`);
+    result.failures.forEach(failure => console.log(`   - ${failure}`));
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  console.log(`📊 Overall: ${passed}/${results.length} registry scenarios passed`);
+
+  return results;
+}
@@ -0,0 +1,142 @@
+// PII redaction regression corpus
+// Messages run through the redactor before they reach an LLM: personal details must go, the feelings around them must stay
+
+import { redactPII, restorePII, type PIIType } from './utils/piiRedaction';
+
+export interface RedactionCorpusCase {
+  name: string;
+  message: string;
+  expect: {
+    // Entity types that must be found; an empty list means nothing may be redacted
+    types: PIIType[];
+    // Text that must be gone from what the model sees
+    removes?: string[];
+    // Text that must still reach the model
+    keeps?: string[];
+  };
+}
+
+export interface RedactionCorpusResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+export const piiRedactionCorpus: RedactionCorpusCase[] = [
+  {
+    name: 'Street address is redacted up to the next clause',
+    message: 'I live at 14 Gandhi Nagar, Pune and I cannot sleep',
+    expect: { types: ['address'], removes: ['14 Gandhi Nagar', 'Pune'], keeps: ['and I cannot sleep'] }
+  },
+  {
+    name: 'Address with pincode is fully redacted',
+    message: 'I live at 12 MG Road, Koramangala, Bengaluru - 560034',
+    expect: { types: ['pincode', 'address'], removes: ['MG Road', 'Koramangala', '560034'] }
+  },
+  {
+    name: 'Sector address keeps the rest of the sentence',
+    message: 'I live in Sector 15, Noida but my parents are in Patna',
+    expect: { types: ['address'], removes: ['Sector 15'], keeps: ['but my parents are in Patna'] }
+  },
+  {
+    name: 'Hinglish address stops at the conjunction',
+    message: 'mera ghar 12 MG road pe hai aur wahan bahut shor hai',
+    expect: { types: ['address'], removes: ['12 MG road'], keeps: ['aur wahan bahut shor hai'] }
+  },
+  {
+    name: 'Flat number keeps the feeling after it',
+    message: 'Flat 302, Shanti Apartments, Andheri East and I feel so alone',
+    expect: { types: ['address'], removes: ['Flat 302', 'Andheri East'], keeps: ['and I feel so alone'] }
+  },
+  {
+    name: 'A floor is not an address',
+    message: 'I live on the 3rd floor and I feel alone',
+    expect: { types: [], keeps: ['I live on the 3rd floor and I feel alone'] }
+  },
+  {
+    name: 'Living at home is not an address',
+    message: 'I live at home with my parents and feel watched all the time',
+    expect: { types: [], keeps: ['I live at home with my parents'] }
+  },
+  {
+    name: 'Title Case venting is not an institution',
+    message: 'Yesterday I Went To School And Cried',
+    expect: { types: [], keeps: ['Yesterday I Went To School And Cried'] }
+  },
+  {
+    name: 'Title Case dislike is not an institution',
+    message: 'I Hate School So Much Right Now',
+    expect: { types: [], keeps: ['I Hate School'] }
+  },
+  {
+    name: 'Lowercase school talk is left alone',
+    message: 'i went to school today and cried in the washroom',
+    expect: { types: [], keeps: ['went to school today and cried'] }
+  },
+  {
+    name: 'College after a connector is redacted',
+    message: "I study at St. Xavier's College and nobody talks to me",
+    expect: { types: ['institution'], removes: ["St. Xavier's College"], keeps: ['and nobody talks to me'] }
+  },
+  {
+    name: 'Known school prefix is redacted at the start of a message',
+    message: 'Delhi Public School was hard for me',
+    expect: { types: ['institution'], removes: ['Delhi Public School'], keeps: ['was hard for me'] }
+  },
+  {
+    name: 'Institute of ... name is redacted',
+    message: 'I joined the Indian Institute of Technology Delhi last year and feel lost',
+    expect: { types: ['institution'], removes: ['Indian Institute of Technology Delhi'], keeps: ['feel lost'] }
+  },
+  {
+    name: 'Hinglish school name is redacted',
+    message: 'main Kendriya Vidyalaya mein padhta hoon aur bahut akela lagta hai',
+    expect: { types: ['institution'], removes: ['Kendriya Vidyalaya'], keeps: ['bahut akela lagta hai'] }
+  }
+];
+
+function runRedactionCase(testCase: RedactionCorpusCase): RedactionCorpusResult {
+  const { expect } = testCase;
+  const failures: string[] = [];
+  const result = redactPII(testCase.message);
+  const found = result.entities.map(entity => entity.type);
+
+  if (expect.types.length === 0 && found.length > 0) {
+    failures.push(`nothing should be redacted, got ${result.entities.map(entity => `${entity.type}="${entity.value}"`).join(', ')}`);
+  }
+  expect.types.forEach(type => {
+    if (!found.includes(type)) {
+      failures.push(`no ${type} found in "${result.text}"`);
+    }
+  });
+  expect.removes?.forEach(text => {
+    if (result.text.includes(text)) {
+      failures.push(`"${text}" reaches the model`);
+    }
+  });
+  expect.keeps?.forEach(text => {
+    if (!result.text.includes(text)) {
+      failures.push(`"${text}" was lost: "${result.text}"`);
+    }
+  });
+  if (restorePII(result.text, result.entities) !== testCase.message) {
+    failures.push('restored text does not match the original message');
+  }
+
+  return { name: testCase.name, passed: failures.length === 0, failures };
+}
+
+export function runPIIRedactionCorpus(corpus: RedactionCorpusCase[] = piiRedactionCorpus): RedactionCorpusResult[] {
+  console.log('🧪 Running PII redaction corpus...');
+
+  const results = corpus.map(runRedactionCase);
+  results.forEach(result => {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.name}`);
+    result.failures.forEach(failure => console.log(`   - ${failure}`));
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  console.log(`📊 Overall: ${passed}/${results.length} redaction cases passed`);
+
+  return results;
+}
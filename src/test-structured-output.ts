@@ -0,0 +1,224 @@
+// Structured output regression corpus
+// Valid, near-valid and broken model replies run through schema validation and repair - no network or API keys needed
+
+import { parseStructuredOutput, readPartialStringField, StructuredOutputError, type JSONSchema } from './utils/structuredOutput';
+import {
+  GEMINI_RESPONSE_SCHEMA,
+  GOOGLE_CLOUD_RESPONSE_SCHEMA,
+  TEXT_ANALYSIS_SCHEMA,
+  VERTEX_RESPONSE_SCHEMA
+} from './services/responseSchemas';
+
+export interface StructuredOutputCase {
+  name: string;
+  output: string;
+  schema: JSONSchema;
+  expect: {
+    outcome: 'valid' | 'repaired' | 'error';
+    stage?: StructuredOutputError['stage'];
+    // Issue paths the error must report
+    issuePaths?: string[];
+    // Dotted paths into the parsed value, e.g. "suggestedActions.0.priority"
+    values?: Record<string, unknown>;
+  };
+}
+
+const GEMINI_REPLY = {
+  message: 'Exams can feel overwhelming. Let us slow down together.',
+  suggestedActions: ['Take five slow breaths', 'Plan one small study block'],
+  moodAssessment: 'Anxious but reaching out',
+  followUpQuestions: ['Which subject worries you most?']
+};
+
+export const structuredOutputCorpus: StructuredOutputCase[] = [
+  {
+    name: 'Valid JSON passes untouched',
+    output: JSON.stringify(GEMINI_REPLY),
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'valid', values: { 'followUpQuestions.0': 'Which subject worries you most?' } }
+  },
+  {
+    name: 'Markdown fence and surrounding prose are dropped',
+    output: `Here is my response:\n\`\`\`json\n${JSON.stringify(GEMINI_REPLY, null, 2)}\n\`\`\`\nTake care!`,
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { 'suggestedActions.1': 'Plan one small study block' } }
+  },
+  {
+    name: 'Trailing commas and comments are removed',
+    output: `{
+      "message": "I hear you.", // opening
+      "suggestedActions": ["Drink some water", "Step outside for five minutes",],
+      /* assessment */ "moodAssessment": "Tired",
+      "followUpQuestions": ["How did you sleep?",],
+    }`,
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { moodAssessment: 'Tired' } }
+  },
+  {
+    name: 'Single quotes and unquoted keys are fixed',
+    output: `{message: 'Main samajh sakta hoon, yeh mushkil hai.', suggestedActions: ['Ek glass paani piyo'], moodAssessment: 'Stressed', followUpQuestions: ['Aaj kya hua?']}`,
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { 'suggestedActions.0': 'Ek glass paani piyo' } }
+  },
+  {
+    name: 'Smart quotes and raw newlines inside strings are fixed',
+    output: '{“message”: “First line\nsecond line”, "suggestedActions": ["Rest"], "moodAssessment": "Low", "followUpQuestions": ["Want to talk?"]}',
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { message: 'First line\nsecond line' } }
+  },
+  {
+    name: 'Reply cut off mid-array is closed',
+    output: '{"message": "You are not alone in this.", "moodAssessment": "Lonely", "followUpQuestions": ["Who do you usually talk to?"], "suggestedActions": ["Call a friend", "Write down how you feel',
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { 'suggestedActions.1': 'Write down how you feel' } }
+  },
+  {
+    name: 'Single string where a list is expected becomes a list',
+    output: JSON.stringify({ ...GEMINI_REPLY, followUpQuestions: 'What helped last time?' }),
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { 'followUpQuestions.0': 'What helped last time?' } }
+  },
+  {
+    name: 'Numeric string confidence and missing defaults are coerced',
+    output: '{"message": "Sab theek ho jayega.", "suggestedActions": ["Walk for ten minutes"], "riskAssessment": "Low risk", "confidence": "0.9"}',
+    schema: VERTEX_RESPONSE_SCHEMA,
+    expect: { outcome: 'repaired', values: { confidence: 0.9, culturalReferences: [] } }
+  },
+  {
+    name: 'Python literals are converted',
+    output: "{'themes': ['exams'], 'emotions': ['worry'], 'cognitivePatterns': [], 'behavioralIndicators': [], 'strengths': ['asks for help'], 'urgent': False}",
+    schema: TEXT_ANALYSIS_SCHEMA,
+    expect: { outcome: 'repaired', values: { urgent: false, 'strengths.0': 'asks for help' } }
+  },
+  {
+    name: 'Bare action strings become structured actions with defaults',
+    output: JSON.stringify({
+      message: 'That sounds exhausting.',
+      emotionalTone: 'Supportive',
+      suggestedActions: ['Take a short walk', { action: 'Talk to your sister', priority: 'high', category: 'immediate' }],
+      copingStrategies: ['Box breathing'],
+      followUpQuestions: ['How are you sleeping?'],
+      riskAssessment: { level: 'low', indicators: ['fatigue'], recommendedIntervention: 'Behavioral activation' },
+      confidence: 0.8
+    }),
+    schema: GOOGLE_CLOUD_RESPONSE_SCHEMA,
+    expect: {
+      outcome: 'repaired',
+      values: {
+        emotionalTone: 'supportive',
+        'suggestedActions.0.action': 'Take a short walk',
+        'suggestedActions.0.priority': 'medium',
+        'suggestedActions.1.priority': 'high'
+      }
+    }
+  },
+  {
+    name: 'Missing message fails validation',
+    output: JSON.stringify({ ...GEMINI_REPLY, message: undefined }),
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'error', stage: 'validate', issuePaths: ['$.message'] }
+  },
+  {
+    name: 'Empty follow-up questions fail validation',
+    output: JSON.stringify({ ...GEMINI_REPLY, followUpQuestions: [] }),
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'error', stage: 'validate', issuePaths: ['$.followUpQuestions'] }
+  },
+  {
+    name: 'Unknown risk level fails validation',
+    output: JSON.stringify({
+      message: 'I am here.',
+      emotionalTone: 'calming',
+      suggestedActions: [{ action: 'Breathe slowly' }],
+      copingStrategies: ['Grounding'],
+      followUpQuestions: ['Are you safe right now?'],
+      riskAssessment: { level: 'extreme', indicators: [], recommendedIntervention: 'Helpline' },
+      confidence: 0.7
+    }),
+    schema: GOOGLE_CLOUD_RESPONSE_SCHEMA,
+    expect: { outcome: 'error', stage: 'validate', issuePaths: ['$.riskAssessment.level'] }
+  },
+  {
+    name: 'Plain prose fails parsing',
+    output: 'I understand how you feel. Try to take a few deep breaths and talk to someone you trust.',
+    schema: GEMINI_RESPONSE_SCHEMA,
+    expect: { outcome: 'error', stage: 'parse' }
+  }
+];
+
+export interface StructuredOutputResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+function valueAt(value: any, path: string): unknown {
+  return path.split('.').reduce((current, key) => (current === undefined || current === null ? undefined : current[key]), value);
+}
+
+export function runStructuredOutputCase(testCase: StructuredOutputCase): StructuredOutputResult {
+  const failures: string[] = [];
+  const { expect } = testCase;
+
+  try {
+    const result = parseStructuredOutput<any>(testCase.output, testCase.schema);
+    const outcome = result.repaired ? 'repaired' : 'valid';
+    if (outcome !== expect.outcome) {
+      failures.push(`outcome ${outcome} !== ${expect.outcome}`);
+    }
+    Object.entries(expect.values || {}).forEach(([path, expected]) => {
+      const actual = valueAt(result.value, path);
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        failures.push(`${path} is ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) {
+      failures.push(`threw ${error instanceof Error ? error.name : String(error)} instead of StructuredOutputError`);
+    } else if (expect.outcome !== 'error') {
+      failures.push(`outcome error !== ${expect.outcome} (${error.message})`);
+    } else {
+      if (expect.stage && error.stage !== expect.stage) {
+        failures.push(`stage ${error.stage} !== ${expect.stage}`);
+      }
+      expect.issuePaths?.forEach(path => {
+        if (!error.issues.some(issue => issue.path === path)) {
+          failures.push(`no issue reported at ${path} (${error.message})`);
+        }
+      });
+    }
+  }
+
+  return { name: testCase.name, passed: failures.length === 0, failures };
+}
+
+// Reading the message out of a reply that is still streaming in
+function checkPartialFields(): StructuredOutputResult[] {
+  const check = (name: string, text: string, expected: { value: string; complete: boolean } | null): StructuredOutputResult => {
+    const actual = readPartialStringField(text, 'message');
+    const passed = JSON.stringify(actual) === JSON.stringify(expected);
+    return { name, passed, failures: passed ? [] : [`got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`] };
+  };
+
+  return [
+    check('Partial: nothing before the message key', '```json\n{"mess', null),
+    check('Partial: message still being written', '{"message": "Main yahan hoon, aap', { value: 'Main yahan hoon, aap', complete: false }),
+    check('Partial: escape split across chunks waits', '{"message": "Line one\\', { value: 'Line one', complete: false }),
+    check('Partial: finished message with escapes', '{"message": "Say \\"hi\\"\\nthen rest", "sugg', { value: 'Say "hi"\nthen rest', complete: true })
+  ];
+}
+
+export function runStructuredOutputCorpus(corpus: StructuredOutputCase[] = structuredOutputCorpus): StructuredOutputResult[] {
+  console.log('🧪 Running structured output corpus...');
+
+  const results = [...corpus.map(runStructuredOutputCase), ...checkPartialFields()];
+  results.forEach(result => {
+    console.log(`${result.passed ? '✅' : '❌'} ${result.name}`);
+    result.failures.forEach(failure => console.log(`   - ${failure}`));
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  console.log(`📊 Overall: ${passed}/${results.length} structured output cases passed`);
+
+  return results;
+}
@@ -87,17 +87,41 @@ export interface EmotionAnalysis {
   };
 }
 
+export type RiskLevel = 'none' | 'low' | 'moderate' | 'high' | 'severe';
+
+// One piece of evidence behind a risk level, with the input it came from
+export interface RiskSignal {
+  id: string;
+  kind: 'risk' | 'protective';
+  source: 'message' | 'emotion' | 'history';
+  dimension: string;
+  evidence: string;
+  score: number;
+  // Why the signal was discounted, e.g. 'negated by "never"'
+  modifiers: string[];
+}
+
+// Canonical risk result shared by every chat surface and the session/orchestrator services
 export interface CrisisAssessment {
-  level: 'none' | 'low' | 'moderate' | 'high' | 'severe';
+  level: RiskLevel;
+  confidence: number;
+  score: number;
+  dimensions: Record<string, number>;
+  signals: RiskSignal[];
   indicators: string[];
-  immediateActions: string[];
+  protectiveFactors: string[];
+  triggeredKeywords: string[];
+  recommendedAction: string;
+  immediateResponse: string;
   resources: {
     helplines: Array<{
       name: string;
       number: string;
       availability: string;
+      openNow: boolean;
     }>;
-    professionals: string[];
-    emergencyContacts: string[];
   };
+  assessedAt: Date;
+  // Identifies the rules and thresholds that produced this result, for audit replay
+  detectorVersion: string;
 }
\ No newline at end of file
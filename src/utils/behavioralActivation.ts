@@ -0,0 +1,251 @@
+// Behavioral activation
+// Pleasant and mastery activities, suggestions from interests and the conversation, and week and mood summaries for the planner
+
+export type ActivityKind = 'pleasure' | 'mastery';
+
+export interface Activity {
+  id: string;
+  name: string;
+  hindiName: string;
+  // Pleasure activities lift mood; mastery activities give a sense of getting something done
+  kind: ActivityKind;
+  minutes: number;
+  // Onboarding interests (UserPreferences['interests']) the activity fits
+  interests: string[];
+  // Wording in the conversation that makes the activity a good fit, e.g. "I used to love painting"
+  cue?: RegExp;
+}
+
+export const ACTIVITY_LIBRARY: Activity[] = [
+  {
+    id: 'walk_outside',
+    name: 'Take a 20-minute walk outside',
+    hindiName: '20 मिनट बाहर टहलें',
+    kind: 'pleasure',
+    minutes: 20,
+    interests: ['nature'],
+    cue: /\b(walk(s|ing)?|park|outside|fresh air|ghoomna|tehelna)\b/i
+  },
+  {
+    id: 'favourite_songs',
+    name: 'Listen to three favourite songs',
+    hindiName: 'तीन पसंदीदा गाने सुनें',
+    kind: 'pleasure',
+    minutes: 15,
+    interests: ['music'],
+    cue: /\b(music|songs?|gaane?|playlist)\b|गाने|संगीत/i
+  },
+  {
+    id: 'sketch_paint',
+    name: 'Sketch, paint or doodle for 15 minutes',
+    hindiName: '15 मिनट चित्र बनाएँ',
+    kind: 'pleasure',
+    minutes: 15,
+    interests: [],
+    cue: /\b(paint(ing)?|draw(ing)?|sketch(ing)?|art|doodl(e|ing)|colou?ring)\b/i
+  },
+  {
+    id: 'read_pages',
+    name: 'Read 10 pages of a book you enjoy',
+    hindiName: 'पसंदीदा किताब के 10 पन्ने पढ़ें',
+    kind: 'pleasure',
+    minutes: 20,
+    interests: ['reading'],
+    cue: /\b(read(ing)?|books?|novels?|kahani)\b|किताब/i
+  },
+  {
+    id: 'game_with_friend',
+    name: 'Play one round of a favourite game with a friend',
+    hindiName: 'किसी दोस्त के साथ एक गेम खेलें',
+    kind: 'pleasure',
+    minutes: 30,
+    interests: ['gaming'],
+    cue: /\b(gam(e|es|ing)|ludo|chess|carrom)\b/i
+  },
+  {
+    id: 'guided_meditation',
+    name: 'Do a 10-minute guided meditation',
+    hindiName: '10 मिनट का ध्यान करें',
+    kind: 'pleasure',
+    minutes: 10,
+    interests: ['meditation'],
+    cue: /\b(meditat\w*|dhyan)\b|ध्यान/i
+  },
+  {
+    id: 'gentle_yoga',
+    name: 'Do 15 minutes of gentle yoga',
+    hindiName: '15 मिनट हल्का योग करें',
+    kind: 'pleasure',
+    minutes: 15,
+    interests: ['meditation'],
+    cue: /\b(yoga|pranayam\w*|stretch(ing)?)\b|योग/i
+  },
+  {
+    id: 'slow_chai',
+    name: 'Make chai or coffee and drink it slowly, away from screens',
+    hindiName: 'चाय या कॉफ़ी बनाकर आराम से पिएँ',
+    kind: 'pleasure',
+    minutes: 15,
+    interests: ['coffee'],
+    cue: /\b(chai|coffee|tea)\b|चाय/i
+  },
+  {
+    id: 'call_friend',
+    name: 'Call or message a friend or cousin',
+    hindiName: 'किसी दोस्त या cousin को फ़ोन करें',
+    kind: 'pleasure',
+    minutes: 15,
+    interests: [],
+    cue: /\b(friends?|cousins?|dost|yaar)\b|दोस्त/i
+  },
+  {
+    id: 'play_sport',
+    name: 'Play a sport or go for a short run',
+    hindiName: 'कोई खेल खेलें या थोड़ी दौड़ लगाएँ',
+    kind: 'pleasure',
+    minutes: 30,
+    interests: [],
+    cue: /\b(cricket|football|badminton|sports?|running|run|gym|cycling)\b/i
+  },
+  {
+    id: 'dance',
+    name: 'Dance to two songs',
+    hindiName: 'दो गानों पर नाचें',
+    kind: 'pleasure',
+    minutes: 10,
+    interests: ['music'],
+    cue: /\b(danc(e|ing)|naachna)\b|नाच/i
+  },
+  {
+    id: 'cook_simple',
+    name: 'Cook or bake something simple',
+    hindiName: 'कुछ आसान सा बनाएँ',
+    kind: 'mastery',
+    minutes: 30,
+    interests: [],
+    cue: /\b(cook(ing)?|bak(e|ing)|recipes?|khana banana)\b|खाना बनाना/i
+  },
+  {
+    id: 'tidy_desk',
+    name: 'Tidy your desk or one shelf',
+    hindiName: 'अपनी मेज़ या एक शेल्फ़ साफ़ करें',
+    kind: 'mastery',
+    minutes: 10,
+    interests: [],
+    cue: /\b(messy|mess|clutter(ed)?|untidy|room is)\b/i
+  },
+  {
+    id: 'study_block',
+    name: 'Study one small topic for 25 minutes',
+    hindiName: '25 मिनट एक छोटा topic पढ़ें',
+    kind: 'mastery',
+    minutes: 25,
+    interests: [],
+    cue: /\b(stud(y|ies|ying)|exams?|revision|syllabus|padhai)\b|पढ़ाई/i
+  },
+  {
+    id: 'one_chore',
+    name: 'Finish one pending chore, like laundry',
+    hindiName: 'एक अधूरा काम पूरा करें, जैसे कपड़े धोना',
+    kind: 'mastery',
+    minutes: 20,
+    interests: [],
+    cue: /\b(chores?|laundry|pending|procrastinat\w*)\b/i
+  },
+  {
+    id: 'plan_tomorrow',
+    name: "Write down tomorrow's three most important tasks",
+    hindiName: 'कल के तीन ज़रूरी काम लिखें',
+    kind: 'mastery',
+    minutes: 10,
+    interests: [],
+    cue: /\b(overwhelm(ed|ing)?|too much to do|to-?do|deadlines?)\b/i
+  }
+];
+
+// Shown when nothing in the interests or the conversation points anywhere more specific
+const DEFAULT_ACTIVITIES = ['walk_outside', 'favourite_songs', 'tidy_desk'];
+
+export function getActivity(id: string): Activity | undefined {
+  return ACTIVITY_LIBRARY.find(activity => activity.id === id);
+}
+
+export function activityLabel(activity: Pick<Activity, 'name' | 'hindiName'>): string {
+  return `${activity.hindiName} / ${activity.name}`;
+}
+
+// Activities the user talked about score highest, then ones matching their interests; at least one mastery activity is kept
+export function suggestActivities(options: { messages?: string[]; interests?: string[]; limit?: number }): Activity[] {
+  const text = (options.messages || []).join(' ');
+  const interests = (options.interests || []).map(interest => interest.toLowerCase());
+  const limit = options.limit ?? 3;
+
+  const scored = ACTIVITY_LIBRARY
+    .map(activity => ({
+      activity,
+      score: (activity.cue?.test(text) ? 2 : 0) + (activity.interests.some(interest => interests.includes(interest)) ? 1 : 0)
+    }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.activity);
+
+  const picked = (scored.length > 0 ? scored : DEFAULT_ACTIVITIES.map(id => getActivity(id)!)).slice(0, limit);
+  if (!picked.some(activity => activity.kind === 'mastery') && limit > 1) {
+    const mastery = scored.find(activity => activity.kind === 'mastery') || getActivity('tidy_desk')!;
+    picked.splice(Math.min(picked.length, limit - 1), 1, mastery);
+  }
+  return picked;
+}
+
+// Weeks start on Monday
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function weekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + index);
+    return day;
+  });
+}
+
+export interface PlannedActivityOutcome {
+  scheduledFor: Date;
+  status: 'planned' | 'done' | 'skipped';
+  // 1-10
+  predictedMood: number;
+  actualMood?: number;
+}
+
+export interface ActivationSummary {
+  scheduled: number;
+  completed: number;
+  // Completed out of the activities that are due; future plans do not count against it
+  completionRate?: number;
+  averagePredicted?: number;
+  averageActual?: number;
+  // Actual minus predicted mood for completed activities; positive means they felt better than expected
+  moodLift?: number;
+}
+
+export function activationSummary(activities: PlannedActivityOutcome[], now: Date = new Date()): ActivationSummary {
+  const due = activities.filter(activity => activity.status !== 'planned' || activity.scheduledFor.getTime() <= now.getTime());
+  const completed = activities.filter(activity => activity.status === 'done');
+  const rated = completed.filter(activity => activity.actualMood !== undefined);
+  const average = (values: number[]) => values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+  return {
+    scheduled: activities.length,
+    completed: completed.length,
+    completionRate: due.length > 0 ? completed.length / due.length : undefined,
+    averagePredicted: average(rated.map(activity => activity.predictedMood)),
+    averageActual: average(rated.map(activity => activity.actualMood!)),
+    moodLift: average(rated.map(activity => activity.actualMood! - activity.predictedMood))
+  };
+}
@@ -1,76 +1,35 @@
 // Crisis detection and escalation utilities for Indian context
 
-export interface CrisisHelpline {
-  name: string;
-  nameHindi: string;
-  number: string;
-  availability: string;
-  availabilityHindi: string;
-  specialization?: string;
-}
-
-export const CRISIS_HELPLINES: CrisisHelpline[] = [
-  {
-    name: 'Vandrevala Foundation',
-    nameHindi: 'वंद्रेवाला फाउंडेशन',
-    number: '9999 666 555',
-    availability: '24/7',
-    availabilityHindi: '24 घंटे',
-    specialization: 'Mental Health Crisis'
-  },
-  {
-    name: 'AASRA',
-    nameHindi: 'आसरा',
-    number: '91-22-27546669',
-    availability: '24/7',
-    availabilityHindi: '24 घंटे',
-    specialization: 'Suicide Prevention'
-  },
-  {
-    name: 'Sneha Foundation',
-    nameHindi: 'स्नेहा फाउंडेशन',
-    number: '044-24640050',
-    availability: '24/7',
-    availabilityHindi: '24 घंटे',
-    specialization: 'Emotional Support'
-  },
-  {
-    name: 'iCall',
-    nameHindi: 'आईकॉल',
-    number: '9152987821',
-    availability: 'Mon-Sat, 8AM-10PM',
-    availabilityHindi: 'सोम-शनि, सुबह 8 से रात 10',
-    specialization: 'Counseling'
-  },
-  {
-    name: 'Sumaitri',
-    nameHindi: 'सुमैत्री',
-    number: '011-23389090',
-    availability: '3PM-9PM',
-    availabilityHindi: 'दोपहर 3 से रात 9',
-    specialization: 'Delhi NCR'
-  }
-];
+import type { CrisisAssessment } from '../types';
+import type { CrisisRule } from './crisisRules';
+import { rankHelplines, type HelplineContext, type RankedHelpline } from './helplines';
 
 // Crisis keywords in multiple languages
 const CRISIS_KEYWORDS = {
   english: [
-    'suicide', 'kill myself', 'end it all', 'no point living', 'want to die',
-    'hurt myself', 'self harm', 'cut myself', 'overdose', 'jump off',
-    'hang myself', 'not worth living', 'better off dead', 'end my life',
-    'kill me', 'want to disappear', 'can\'t go on', 'give up on life'
+    'suicide', 'suicidal', 'kill myself', 'killing myself', 'end it all', 'no point living',
+    'want to die', 'wanna die', 'hang myself', 'not worth living', 'better off dead',
+    'end my life', 'ending my life', 'take my own life', 'can\'t go on', 'give up on life',
+    'don\'t want to live', 'don\'t want to be alive'
   ],
   hindi: [
-    'आत्महत्या', 'मरना चाहता', 'जीना नहीं चाहता', 'खुद को नुकसान', 
-    'मौत चाहिए', 'जीने का मतलब नहीं', 'खुद को मारना', 'छोड़ देना चाहता',
-    'जीवन समाप्त', 'मरने का मन', 'जीने की इच्छा नहीं', 'आत्महत्या करना'
+    'आत्महत्या', 'मरना चाहत*', 'जीना नहीं चाहत*', 'मौत चाहिए', 'जीने का मतलब नहीं',
+    'खुद को मारना', 'छोड़ देना चाहत*', 'जीवन समाप्त', 'मरने का मन', 'जीने की इच्छा नहीं',
+    'आत्महत्या करना', 'जीना नहीं', 'नहीं जीना'
   ],
   mixed: [
-    'suicide करना', 'मरना want', 'life end करना', 'खुद को hurt',
-    'death चाहिए', 'जीना नहीं want', 'kill myself करना'
+    'suicide करना', 'मरना want', 'life end करना', 'death चाहिए', 'जीना नहीं want', 'kill myself करना'
   ]
 };
 
+// Phrases that are often idiomatic ("this exam will kill me") and count for less on their own
+const AMBIGUOUS_CRISIS_KEYWORDS = ['kill me', 'want to disappear'];
+
+const SELF_HARM_KEYWORDS = [
+  'hurt myself', 'harm myself', 'self harm', 'cut myself', 'cutting myself', 'overdose',
+  'jump off', 'खुद को नुकसान', 'खुद को hurt'
+];
+
 // High-risk emotional indicators
 const HIGH_RISK_INDICATORS = {
   english: [
@@ -85,82 +44,93 @@ const HIGH_RISK_INDICATORS = {
   ]
 };
 
-export type CrisisLevel = 'none' | 'low' | 'moderate' | 'high' | 'severe';
-
-export interface CrisisAssessment {
-  level: CrisisLevel;
-  confidence: number;
-  triggeredKeywords: string[];
-  recommendedAction: string;
-  immediateResponse: string;
-}
+// Romanized Hinglish as most users actually type it; spellings are normalized by utils/hinglish
+// and longer words tolerate a one-letter typo, so list each phrase once in its common spelling
+const ROMANIZED_CRISIS_LEXICON = {
+  ideation: [
+    'marna chahta', 'marna chahti', 'marna hai', 'mujhe marna', 'mar jana chahta', 'mar jana chahti',
+    'mar jana hai', 'mar jaun*', 'mar jau', 'mar hi jaun*', 'marne ka mann', 'marne ka dil', 'marne ka khayal',
+    'jeena nahi chahta', 'jeena nahi chahti', 'jeena nahi', 'nahi jeena', 'jeene ka mann nahi', 'jeene ka dil nahi', 'jeene ki ichha nahi',
+    'jeene ki wajah nahi', 'jeene ka matlab nahi', 'jeena bekaar', 'zindagi khatam', 'zindagi khatam kar*',
+    'khud ko khatam', 'apne aap ko khatam', 'khud ko maar', 'khud ko maar dun*', 'apni jaan le',
+    'jaan de dun*', 'jaan dena chahta', 'jaan dena chahti', 'khudkushi', 'atmahatya', 'suicide kar lun*',
+    'suicide karna', 'suicide kar raha', 'suicide kar rahi', 'sab khatam kar dun*', 'sab khatam karna',
+    'duniya chhod dun*', 'duniya chhodna', 'is duniya mein nahi rehna', 'zinda nahi rehna'
+  ],
+  selfHarm: [
+    'khud ko nuksan', 'khud ko hurt', 'khud ko chot', 'khud ko kaat', 'haath kaat*', 'nas kaat*',
+    'kalai kaat*', 'blade se kaat*', 'khud ko saza'
+  ],
+  hopelessness: [
+    'koi umeed nahi', 'koi ummeed nahi', 'sab bekaar', 'main bekaar', 'main bojh', 'sab pe bojh',
+    'koi raasta nahi', 'kuch matlab nahi', 'koi fayda nahi', 'andar se khali', 'sab khatam ho gaya',
+    'koi future nahi', 'zindagi se thak*', 'zindagi se tang', 'sab haar ga*', 'ab aur nahi hota',
+    'ab bardasht nahi', 'sehen nahi hota'
+  ],
+  isolation: [
+    'koi nahi samajhta', 'koi nahi samjhta', 'koi nahi hai mere', 'kisi ko farak nahi', 'kisi ko fark nahi',
+    'tanha hoon', 'tanha mehsoos', 'tanhai', 'sab ne chhod diya'
+  ]
+};
 
-export function assessCrisisLevel(text: string): CrisisAssessment {
-  const lowerText = text.toLowerCase();
-  let score = 0;
-  const triggeredKeywords: string[] = [];
+// Plan, means and timing only matter alongside ideation or self-harm
+const PLAN_INDICATORS = [
+  'plan', 'planned', 'planning', 'decided', 'made up my mind', 'suicide note', 'goodbye note',
+  'goodbye letter', 'wrote a note', 'said my goodbyes', 'योजना', 'तय कर लिया', 'सोच लिया', 'plan बना*',
+  'soch liya', 'tay kar liya', 'faisla kar liya', 'plan bana*', 'note likh*', 'alvida'
+];
 
-  // Check for direct crisis keywords
-  Object.values(CRISIS_KEYWORDS).flat().forEach(keyword => {
-    if (lowerText.includes(keyword.toLowerCase())) {
-      score += 10;
-      triggeredKeywords.push(keyword);
-    }
-  });
+const MEANS_INDICATORS = [
+  'pills', 'sleeping pills', 'tablets', 'rope', 'noose', 'blade', 'razor', 'knife', 'poison',
+  'rat poison', 'pesticide', 'gun', 'bridge', 'terrace', 'roof', 'railway track', 'train', 'fan',
+  'dupatta', 'फंदा', 'रस्सी', 'ज़हर', 'जहर', 'गोली', 'गोलियां', 'छत', 'zeher', 'zehar', 'goliyan',
+  'rassi', 'phanda', 'chhat', 'neend ki goli*', 'phansi', 'pankha', 'patri', 'nadi', 'keetnashak'
+];
 
-  // Check for high-risk indicators
-  Object.values(HIGH_RISK_INDICATORS).flat().forEach(indicator => {
-    if (lowerText.includes(indicator.toLowerCase())) {
-      score += 5;
-      triggeredKeywords.push(indicator);
-    }
-  });
+const ISOLATION_INDICATORS = [
+  'alone', 'lonely', 'no one', 'nobody', 'अकेला', 'अकेली', 'कोई नहीं', 'akela', 'akeli', 'koi nahi'
+];
 
-  // Additional context scoring
-  if (lowerText.includes('plan') && (lowerText.includes('hurt') || lowerText.includes('end'))) {
-    score += 8;
-  }
+const SUBSTANCE_USE_INDICATORS = [
+  'drink*', 'drunk', 'drugs', 'alcohol', 'शराब', 'नशा', 'daru', 'sharab'
+];
 
-  if (lowerText.includes('tonight') || lowerText.includes('today') || lowerText.includes('now')) {
-    score += 3;
-  }
+const TEMPORAL_INDICATORS = [
+  'tonight', 'today', 'right now', 'now', 'tomorrow', 'this weekend', 'soon',
+  'aaj', 'aaj raat', 'abhi', 'आज', 'आज रात', 'अभी'
+];
 
-  // Determine crisis level
-  let level: CrisisLevel = 'none';
-  let confidence = 0;
-  let recommendedAction = '';
-  let immediateResponse = '';
-
-  if (score >= 15) {
-    level = 'severe';
-    confidence = 0.9;
-    recommendedAction = 'immediate_intervention';
-    immediateResponse = 'मुझे आपकी बहुत चिंता है। कृपया तुरंत किसी professional से बात करें। / I\'m very concerned about you. Please talk to a professional immediately.';
-  } else if (score >= 10) {
-    level = 'high';
-    confidence = 0.8;
-    recommendedAction = 'crisis_resources';
-    immediateResponse = 'आप अकेले नहीं हैं। मदद उपलब्ध है। / You are not alone. Help is available.';
-  } else if (score >= 5) {
-    level = 'moderate';
-    confidence = 0.6;
-    recommendedAction = 'supportive_resources';
-    immediateResponse = 'मैं समझ सकता हूं यह कठिन समय है। आइए कुछ सहायक तकनीकें try करते हैं। / I understand this is a difficult time. Let\'s try some supportive techniques.';
-  } else if (score >= 2) {
-    level = 'low';
-    confidence = 0.4;
-    recommendedAction = 'monitoring';
-    immediateResponse = 'आपकी भावनाएं समझ में आती हैं। मैं यहां आपको सुनने के लिए हूं। / Your feelings are understandable. I\'m here to listen.';
+export const CRISIS_RULES: CrisisRule[] = [
+  { id: 'suicidal_ideation', dimension: 'ideation', weight: 10, phrases: Object.values(CRISIS_KEYWORDS).flat() },
+  { id: 'ambiguous_ideation', dimension: 'ideation', weight: 4, phrases: AMBIGUOUS_CRISIS_KEYWORDS },
+  { id: 'self_harm', dimension: 'self_harm', weight: 10, phrases: SELF_HARM_KEYWORDS },
+  { id: 'hopelessness', dimension: 'hopelessness', weight: 5, phrases: Object.values(HIGH_RISK_INDICATORS).flat() },
+  { id: 'isolation', dimension: 'isolation', weight: 3, phrases: ISOLATION_INDICATORS },
+  { id: 'substance_use', dimension: 'substance_use', weight: 3, phrases: SUBSTANCE_USE_INDICATORS },
+  { id: 'suicidal_ideation', dimension: 'ideation', weight: 10, phrases: ROMANIZED_CRISIS_LEXICON.ideation, fuzzy: true },
+  { id: 'self_harm', dimension: 'self_harm', weight: 10, phrases: ROMANIZED_CRISIS_LEXICON.selfHarm, fuzzy: true },
+  { id: 'hopelessness', dimension: 'hopelessness', weight: 5, phrases: ROMANIZED_CRISIS_LEXICON.hopelessness, fuzzy: true },
+  { id: 'isolation', dimension: 'isolation', weight: 3, phrases: ROMANIZED_CRISIS_LEXICON.isolation, fuzzy: true },
+  { id: 'plan', dimension: 'plan', weight: 8, phrases: PLAN_INDICATORS, requires: ['ideation', 'self_harm'] },
+  { id: 'means', dimension: 'means', weight: 6, phrases: MEANS_INDICATORS, requires: ['ideation', 'self_harm'] },
+  // Intent with a time attached ("kill myself tonight") is severe on its own, without a stated plan or means
+  {
+    id: 'imminence',
+    dimension: 'temporal',
+    weight: 5,
+    phrases: TEMPORAL_INDICATORS,
+    requires: ['ideation', 'self_harm'],
+    requiresSameClause: true
   }
+];
 
-  return {
-    level,
-    confidence,
-    triggeredKeywords,
-    recommendedAction,
-    immediateResponse
-  };
-}
+// Protective factors carry no weight; they are reported alongside the risk level
+export const PROTECTIVE_RULES: CrisisRule[] = [
+  { id: 'social_support', dimension: 'protective', weight: 0, phrases: ['friends', 'family', 'support', 'दोस्त', 'परिवार', 'सहारा'] },
+  { id: 'coping_strategies', dimension: 'protective', weight: 0, phrases: ['meditation', 'exercise', 'music', 'ध्यान', 'व्यायाम'] },
+  { id: 'future_orientation', dimension: 'protective', weight: 0, phrases: ['future', 'goals', 'dreams', 'भविष्य', 'सपने'] },
+  { id: 'help_seeking', dimension: 'protective', weight: 0, phrases: ['help', 'therapy', 'counseling', 'मदद', 'सलाह'] }
+];
 
 export function getCrisisResponse(assessment: CrisisAssessment, language: 'english' | 'hindi' | 'mixed' = 'mixed'): string {
   const responses = {
@@ -188,9 +158,8 @@ export function shouldShowCrisisResources(assessment: CrisisAssessment): boolean
   return assessment.level === 'severe' || assessment.level === 'high';
 }
 
-export function getRecommendedHelplines(assessment: CrisisAssessment): CrisisHelpline[] {
-  if (assessment.level === 'severe' || assessment.level === 'high') {
-    return CRISIS_HELPLINES.slice(0, 3); // Top 3 most reliable
-  }
-  return CRISIS_HELPLINES.slice(0, 2); // Top 2 for moderate cases
+// Lines that are open right now, serve the user's state and speak their language come first
+export function getRecommendedHelplines(assessment: CrisisAssessment, context: HelplineContext = {}): RankedHelpline[] {
+  const count = assessment.level === 'severe' || assessment.level === 'high' ? 3 : 2;
+  return rankHelplines(context).slice(0, count);
 }
\ No newline at end of file
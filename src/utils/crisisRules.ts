@@ -0,0 +1,301 @@
+// Rule engine for crisis scoring - tokenizes English, Devanagari Hindi and romanized Hinglish
+// Every rule that fires (or is discounted) is recorded in a trace so escalations can be audited
+
+import { canonicalize, isSpellingVariant } from './hinglish';
+
+export type CrisisDimension =
+  | 'ideation'
+  | 'self_harm'
+  | 'hopelessness'
+  | 'isolation'
+  | 'substance_use'
+  | 'plan'
+  | 'means'
+  | 'temporal'
+  | 'protective';
+
+export interface Token {
+  text: string;
+  // Spelling-normalized form used for matching, see utils/hinglish
+  canonical: string;
+  position: number;
+  clause: number;
+  // Comma-separated part of the clause; phrases, negation and hypothetical cues do not reach across it
+  segment: number;
+}
+
+export interface CrisisRule {
+  id: string;
+  dimension: CrisisDimension;
+  // Space separated tokens; a trailing * matches any ending (e.g. 'चाहत*' matches चाहता and चाहती)
+  phrases: string[];
+  weight: number;
+  // Only scores when one of these dimensions was affirmed elsewhere, e.g. "tonight" alone is not a risk
+  requires?: CrisisDimension[];
+  // The required dimension must appear in the same clause, not just the same message
+  requiresSameClause?: boolean;
+  // Tolerate one-letter spelling differences in longer romanized words ("khatam" / "khtam")
+  fuzzy?: boolean;
+}
+
+export interface CrisisRuleTrace {
+  ruleId: string;
+  dimension: CrisisDimension;
+  phrase: string;
+  matchedText: string;
+  weight: number;
+  score: number;
+  negated: boolean;
+  modifiers: string[];
+}
+
+export interface CrisisScore {
+  score: number;
+  dimensions: Record<CrisisDimension, number>;
+  trace: CrisisRuleTrace[];
+}
+
+interface RuleMatch {
+  rule: CrisisRule;
+  phrase: string;
+  start: number;
+  end: number;
+  clause: number;
+  segment: number;
+  negatedBy?: string;
+  hypotheticalBy?: string;
+}
+
+// A negated mention still counts a little - the topic came up and is worth monitoring
+const NEGATED_MULTIPLIER = 0.2;
+const HYPOTHETICAL_MULTIPLIER = 0.5;
+
+const NEGATION_WINDOW = 3;
+const POSTPOSED_NEGATION_WINDOW = 2;
+
+// Apostrophes are dropped before matching, so "dont" and "don't" are the same token
+function matchForm(token: string): string {
+  return canonicalize(token.replace(/'/g, ''));
+}
+
+const NEGATION_CUES = [
+  'not', 'never', "don't", "doesn't", "didn't", "won't", "wouldn't", 'nahi', 'mat', 'नहीं', 'नही', 'मत'
+].map(matchForm);
+
+// "no" only negates a noun phrase - the phrase right after it ("no plan") or one it opens ("no intention to");
+// an interjection ("No I want to die", "can't take it no more I want to die") is not a negation
+const NOUN_NEGATION_CUE = matchForm('no');
+const NEGATED_NOUNS = ['intention', 'plan', 'plans', 'reason', 'desire', 'wish', 'urge', 'thoughts'].map(matchForm);
+
+// Hindi places the negator after the noun ("आत्महत्या नहीं करूंगा", "suicide nahi karunga")
+const POSTPOSED_NEGATION_CUES = ['nahi', 'mat', 'नहीं', 'नही', 'मत'].map(matchForm);
+
+// "why not end it all" is not a negation
+const RHETORICAL_CUES = ['why', 'kyun', 'क्यों'].map(matchForm);
+
+const HYPOTHETICAL_CUES = [
+  'what if', 'hypothetically', 'suppose', 'imagine', 'maan lo', 'मान लो',
+  'in a movie', 'in the movie', 'in a film', 'in the film', 'in a book', 'in the book',
+  'in a story', 'in the story', 'my character', 'the character', 'for my novel',
+  'just kidding', 'jk', 'joking', 'mazak', 'mazaak', 'मज़ाक', 'मजाक', 'फिल्म में', 'कहानी में'
+];
+
+// Clause boundaries limit how far same-clause context can reach; commas also stop negation and hypothetical cues,
+// so in "end my life, not tomorrow, today" the "not" stays with "tomorrow" and "today" still counts
+const CLAUSE_BREAK = /[.!?;।॥\n]+|\s(?:but|however|although|lekin|magar|लेकिन|मगर|किंतु)\s/u;
+const SEGMENT_BREAK = /[,،]+/u;
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}']+/gu;
+const PHRASE_TOKEN_PATTERN = /[\p{L}\p{M}\p{N}'*]+/gu;
+
+function normalize(text: string): string {
+  return text.normalize('NFC').toLowerCase().replace(/[’‘`]/g, "'");
+}
+
+function cleanToken(token: string): string {
+  return token.replace(/^'+|'+$/g, '');
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  let segment = 0;
+
+  normalize(text).split(CLAUSE_BREAK).forEach((clauseText, clause) => {
+    clauseText.split(SEGMENT_BREAK).forEach(segmentText => {
+      (segmentText.match(TOKEN_PATTERN) || []).map(cleanToken).filter(Boolean).forEach(token => {
+        tokens.push({ text: token, canonical: matchForm(token), position: tokens.length, clause, segment });
+      });
+      segment++;
+    });
+  });
+
+  return tokens;
+}
+
+function phraseTokens(phrase: string): string[] {
+  return (normalize(phrase).match(PHRASE_TOKEN_PATTERN) || []).map(cleanToken).filter(Boolean).map(matchForm);
+}
+
+function tokenMatches(pattern: string, token: string, fuzzy: boolean): boolean {
+  if (pattern.endsWith('*')) return token.startsWith(pattern.slice(0, -1));
+  return fuzzy ? isSpellingVariant(pattern, token) : token === pattern;
+}
+
+// Start positions of every contiguous, single-segment occurrence of the phrase
+function findPhrase(tokens: Token[], phrase: string[], fuzzy: boolean = false): number[] {
+  const starts: number[] = [];
+  if (phrase.length === 0) return starts;
+
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    const segment = tokens[start].segment;
+    const matches = phrase.every((pattern, offset) => {
+      const token = tokens[start + offset];
+      return token.segment === segment && tokenMatches(pattern, token.canonical, fuzzy);
+    });
+    if (matches) starts.push(start);
+  }
+
+  return starts;
+}
+
+// Works on any span, so hypothetical cues can be checked for negation too ("not joking", "mazak nahi")
+function findNegation(tokens: Token[], span: Pick<RuleMatch, 'start' | 'end' | 'segment'>): string | undefined {
+  const sameSegment = (token: Token) => token.segment === span.segment;
+
+  const before = tokens.slice(Math.max(0, span.start - NEGATION_WINDOW), span.start).filter(sameSegment);
+  for (const token of before) {
+    const previous = tokens[token.position - 1];
+    const rhetorical = previous && sameSegment(previous) && RHETORICAL_CUES.includes(previous.canonical);
+    const clauseStart = !previous || previous.clause !== token.clause;
+    const next = tokens[token.position + 1];
+    const negates = NEGATION_CUES.includes(token.canonical) ||
+      (token.canonical === NOUN_NEGATION_CUE && !clauseStart &&
+        (token.position === span.start - 1 || NEGATED_NOUNS.includes(next.canonical)));
+    if (negates && !rhetorical) {
+      return token.text;
+    }
+  }
+
+  const after = tokens.slice(span.end, span.end + POSTPOSED_NEGATION_WINDOW).filter(sameSegment);
+  return after.find(token => POSTPOSED_NEGATION_CUES.includes(token.canonical))?.text;
+}
+
+// A negated cue is emphasis, not a hypothetical: "I am not joking, I want to..." keeps its full weight
+function findHypothetical(tokens: Token[], match: RuleMatch): string | undefined {
+  const segmentTokens = tokens.filter(token => token.segment === match.segment);
+  return HYPOTHETICAL_CUES.find(cue => {
+    const cueTokens = phraseTokens(cue);
+    return findPhrase(segmentTokens, cueTokens).some(index => {
+      const start = segmentTokens[index].position;
+      return !findNegation(tokens, { start, end: start + cueTokens.length, segment: match.segment });
+    });
+  });
+}
+
+function collectMatches(tokens: Token[], rules: CrisisRule[]): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  rules.forEach(rule => {
+    rule.phrases.forEach(phrase => {
+      const patterns = phraseTokens(phrase);
+      findPhrase(tokens, patterns, rule.fuzzy).forEach(start => {
+        matches.push({ rule, phrase, start, end: start + patterns.length, clause: tokens[start].clause, segment: tokens[start].segment });
+      });
+    });
+  });
+
+  // Within a dimension the longest phrase wins, so 'आत्महत्या करना' does not also count 'आत्महत्या'
+  const accepted: RuleMatch[] = [];
+  matches
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start)
+    .forEach(match => {
+      const overlaps = accepted.some(other =>
+        other.rule.dimension === match.rule.dimension && match.start < other.end && other.start < match.end
+      );
+      if (!overlaps) accepted.push(match);
+    });
+
+  accepted.forEach(match => {
+    match.negatedBy = findNegation(tokens, match);
+    match.hypotheticalBy = findHypothetical(tokens, match);
+  });
+
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+function emptyDimensions(): Record<CrisisDimension, number> {
+  return {
+    ideation: 0,
+    self_harm: 0,
+    hopelessness: 0,
+    isolation: 0,
+    substance_use: 0,
+    plan: 0,
+    means: 0,
+    temporal: 0,
+    protective: 0
+  };
+}
+
+export function evaluateCrisisRules(text: string, rules: CrisisRule[]): CrisisScore {
+  const tokens = tokenize(text);
+  const matches = collectMatches(tokens, rules);
+  const affirmed = matches.filter(match => !match.negatedBy);
+
+  const best = new Map<string, CrisisRuleTrace>();
+
+  matches.forEach(match => {
+    const { rule } = match;
+    const modifiers: string[] = [];
+    let multiplier = 1;
+
+    if (rule.requires) {
+      const hasContext = affirmed.some(other =>
+        rule.requires!.includes(other.rule.dimension) &&
+        (!rule.requiresSameClause || other.clause === match.clause)
+      );
+      if (!hasContext) {
+        multiplier = 0;
+        modifiers.push(`no ${rule.requires.join('/')} context${rule.requiresSameClause ? ' in the same clause' : ''}`);
+      }
+    }
+
+    if (match.negatedBy) {
+      multiplier *= NEGATED_MULTIPLIER;
+      modifiers.push(`negated by "${match.negatedBy}"`);
+    }
+
+    if (match.hypotheticalBy) {
+      multiplier *= HYPOTHETICAL_MULTIPLIER;
+      modifiers.push(`hypothetical ("${match.hypotheticalBy}")`);
+    }
+
+    const trace: CrisisRuleTrace = {
+      ruleId: rule.id,
+      dimension: rule.dimension,
+      phrase: match.phrase,
+      matchedText: tokens.slice(match.start, match.end).map(token => token.text).join(' '),
+      weight: rule.weight,
+      score: Math.round(rule.weight * multiplier * 10) / 10,
+      negated: Boolean(match.negatedBy),
+      modifiers
+    };
+
+    // A phrase counts once; a later affirmed mention outweighs an earlier negated one
+    const key = `${rule.id}:${match.phrase}`;
+    const existing = best.get(key);
+    if (!existing || trace.score > existing.score || (trace.score === existing.score && existing.negated && !trace.negated)) {
+      best.set(key, trace);
+    }
+  });
+
+  const trace = Array.from(best.values());
+  const dimensions = emptyDimensions();
+  trace.forEach(entry => {
+    dimensions[entry.dimension] += entry.score;
+  });
+
+  const score = trace.reduce((sum, entry) => sum + entry.score, 0);
+
+  return { score: Math.round(score * 10) / 10, dimensions, trace };
+}
@@ -0,0 +1,182 @@
+// Crisis helpline directory for India with structured opening hours
+// Hours are in IST; the recommender ranks lines that are reachable right now first
+
+export interface HelplineHours {
+  // 0 = Sunday ... 6 = Saturday
+  days: number[];
+  // 24-hour "HH:MM"; a close time before the open time runs past midnight
+  open: string;
+  close: string;
+}
+
+export interface CrisisHelpline {
+  name: string;
+  nameHindi: string;
+  number: string;
+  availability: string;
+  availabilityHindi: string;
+  hours: HelplineHours[];
+  languages: string[];
+  // Empty means the line takes calls from anywhere in India
+  states: string[];
+  specialization: string;
+}
+
+export interface HelplineContext {
+  state?: string;
+  // 'hindi' | 'english' | 'mixed' or the profile codes 'hi' | 'en'
+  language?: string;
+  at?: Date;
+}
+
+export interface RankedHelpline extends CrisisHelpline {
+  openNow: boolean;
+  matchesState: boolean;
+  matchesLanguage: boolean;
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+const ALWAYS_OPEN: HelplineHours[] = [{ days: EVERY_DAY, open: '00:00', close: '24:00' }];
+
+const IST_OFFSET_MINUTES = 330;
+
+export const CRISIS_HELPLINES: CrisisHelpline[] = [
+  {
+    name: 'Tele-MANAS',
+    nameHindi: 'टेली-मानस',
+    number: '14416',
+    availability: '24/7',
+    availabilityHindi: '24 घंटे',
+    hours: ALWAYS_OPEN,
+    languages: ['english', 'hindi', 'bengali', 'marathi', 'tamil', 'telugu', 'kannada', 'malayalam', 'gujarati', 'punjabi', 'odia', 'assamese'],
+    states: [],
+    specialization: 'Government Mental Health Helpline'
+  },
+  {
+    name: 'Vandrevala Foundation',
+    nameHindi: 'वंद्रेवाला फाउंडेशन',
+    number: '9999 666 555',
+    availability: '24/7',
+    availabilityHindi: '24 घंटे',
+    hours: ALWAYS_OPEN,
+    languages: ['english', 'hindi'],
+    states: [],
+    specialization: 'Mental Health Crisis'
+  },
+  {
+    name: 'AASRA',
+    nameHindi: 'आसरा',
+    number: '91-22-27546669',
+    availability: '24/7',
+    availabilityHindi: '24 घंटे',
+    hours: ALWAYS_OPEN,
+    languages: ['english', 'hindi'],
+    states: [],
+    specialization: 'Suicide Prevention'
+  },
+  {
+    name: 'Sneha Foundation',
+    nameHindi: 'स्नेहा फाउंडेशन',
+    number: '044-24640050',
+    availability: '24/7',
+    availabilityHindi: '24 घंटे',
+    hours: ALWAYS_OPEN,
+    languages: ['english', 'tamil'],
+    states: ['Tamil Nadu'],
+    specialization: 'Emotional Support'
+  },
+  {
+    name: 'iCall',
+    nameHindi: 'आईकॉल',
+    number: '9152987821',
+    availability: 'Mon-Sat, 8AM-10PM',
+    availabilityHindi: 'सोम-शनि, सुबह 8 से रात 10',
+    hours: [{ days: [1, 2, 3, 4, 5, 6], open: '08:00', close: '22:00' }],
+    languages: ['english', 'hindi', 'marathi'],
+    states: [],
+    specialization: 'Counseling'
+  },
+  {
+    name: 'Sumaitri',
+    nameHindi: 'सुमैत्री',
+    number: '011-23389090',
+    availability: '3PM-9PM',
+    availabilityHindi: 'दोपहर 3 से रात 9',
+    hours: [{ days: EVERY_DAY, open: '15:00', close: '21:00' }],
+    languages: ['english', 'hindi'],
+    states: ['Delhi'],
+    specialization: 'Emotional Support'
+  }
+];
+
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  hi: ['hindi'],
+  en: ['english'],
+  mixed: ['hindi', 'english']
+};
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Day of week and minutes since midnight in IST, independent of the device time zone
+function istTime(at: Date): { day: number; minutes: number } {
+  const ist = new Date(at.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+  return { day: ist.getUTCDay(), minutes: ist.getUTCHours() * 60 + ist.getUTCMinutes() };
+}
+
+export function isHelplineOpen(helpline: CrisisHelpline, at: Date = new Date()): boolean {
+  const { day, minutes } = istTime(at);
+  const previousDay = (day + 6) % 7;
+
+  return helpline.hours.some(slot => {
+    const open = toMinutes(slot.open);
+    const close = toMinutes(slot.close);
+
+    if (close > open) {
+      return slot.days.includes(day) && minutes >= open && minutes < close;
+    }
+
+    // Overnight slot: the evening part belongs to today, the early-morning part to yesterday's slot
+    return (slot.days.includes(day) && minutes >= open) || (slot.days.includes(previousDay) && minutes < close);
+  });
+}
+
+function normalizeState(state: string): string {
+  return state.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^nct of /, '');
+}
+
+function languagesFor(language: string): string[] {
+  const key = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[key] || [key];
+}
+
+// Open now outranks everything; among open lines a local, same-language line comes first.
+// Ties keep directory order, which lists the most reliable national lines first.
+export function rankHelplines(context: HelplineContext = {}, helplines: CrisisHelpline[] = CRISIS_HELPLINES): RankedHelpline[] {
+  const at = context.at || new Date();
+  const state = context.state ? normalizeState(context.state) : undefined;
+  const languages = context.language ? languagesFor(context.language) : [];
+
+  return helplines
+    .map((helpline, index) => {
+      const servesState = helpline.states.length === 0 ||
+        (state !== undefined && helpline.states.some(served => normalizeState(served) === state));
+      const ranked: RankedHelpline = {
+        ...helpline,
+        openNow: isHelplineOpen(helpline, at),
+        matchesState: state !== undefined && helpline.states.some(served => normalizeState(served) === state),
+        matchesLanguage: languages.some(language => helpline.languages.includes(language))
+      };
+
+      const score =
+        (ranked.openNow ? 100 : 0) +
+        (ranked.matchesState ? 20 : servesState ? 10 : 0) +
+        (ranked.matchesLanguage ? 10 : 0);
+
+      return { ranked, score, index };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.ranked);
+}
@@ -0,0 +1,104 @@
+// Transliteration helpers for romanized Hindi (Hinglish typed in Latin script)
+// Maps the many spellings of a word ("nahi", "nhi", "nahin") onto one canonical form before matching
+
+const DEVANAGARI = /[ऀ-ॿ]/;
+const LATIN = /[a-z]/i;
+
+// Irregular spellings that the folding rules cannot merge, keyed by raw or folded form
+const SPELLING_VARIANTS: Record<string, string> = {
+  nhi: 'nahi', nai: 'nahi', nahin: 'nahi',
+  mai: 'main',
+  hu: 'hun',
+  mjhe: 'mujhe', muje: 'mujhe', mujhey: 'mujhe',
+  chahata: 'chahta', chata: 'chahta', chahati: 'chahti', chati: 'chahti',
+  khudkhushi: 'khudkushi', khudkhusi: 'khudkushi', khudkusi: 'khudkushi',
+  atmhatya: 'atmahatya',
+  kyu: 'kyun', kyon: 'kyun',
+  ichcha: 'icha', echa: 'icha'
+};
+
+// Canonical form of a single lowercase token; Devanagari only loses nukta and chandrabindu differences
+export function canonicalize(token: string): string {
+  if (DEVANAGARI.test(token)) {
+    return token.replace(/़/g, '').replace(/ँ/g, 'ं');
+  }
+
+  if (!LATIN.test(token) || token.includes("'")) {
+    return token;
+  }
+
+  const folded = token
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/ph/g, 'f')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/q/g, 'k')
+    // Doubled letters are mostly emphasis or spelling habit: "mann", "marnaaa", "bahuttt"
+    .replace(/([a-z])\1+/g, '$1');
+
+  return SPELLING_VARIANTS[token] || SPELLING_VARIANTS[folded] || folded;
+}
+
+// Common romanized Hindi words, used to tell Hinglish apart from plain English
+// Words that are also English ("main", "man", "log", "par") are left out
+const ROMANIZED_HINDI_WORDS = new Set([
+  'mujhe', 'mera', 'meri', 'mere', 'tum', 'aap', 'hai', 'hain', 'hun', 'tha', 'thi',
+  'nahi', 'kya', 'kyun', 'kaise', 'bahut', 'bhi', 'aur', 'lekin', 'ko', 'ka', 'ki', 'ke',
+  'se', 'raha', 'rahi', 'gaya', 'gayi', 'karna', 'chahta', 'chahti', 'dil', 'mann',
+  'yaar', 'accha', 'acha', 'theek', 'sab', 'kuch', 'koi', 'abhi', 'aaj', 'kal', 'ghar',
+  'jeena', 'marna', 'zindagi', 'khud', 'apna', 'apni', 'bas', 'matlab', 'pata', 'samajh', 'dost'
+].map(canonicalize));
+
+// Damerau-Levenshtein distance capped at 2, enough to tolerate one typo or dropped vowel
+export function spellingDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 1) return 2;
+
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const distance: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distance[i][j] = Math.min(
+        distance[i - 1][j] + 1,
+        distance[i][j - 1] + 1,
+        distance[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance[i][j] = Math.min(distance[i][j], distance[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return Math.min(distance[a.length][b.length], 2);
+}
+
+// Short words stay exact - "man" vs "maa" is a different word, not a typo
+export function isSpellingVariant(pattern: string, token: string): boolean {
+  if (pattern === token) return true;
+  if (pattern.length < 5 || token[0] !== pattern[0] || !LATIN.test(pattern)) return false;
+  return spellingDistance(pattern, token) <= 1;
+}
+
+export function romanizedHindiShare(text: string): number {
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  if (words.length === 0) return 0;
+
+  const hindiWords = words.filter(word => ROMANIZED_HINDI_WORDS.has(canonicalize(word)));
+  return hindiWords.length / words.length;
+}
+
+// Latin-script Hinglish counts as 'mixed' - a Devanagari reply to "mujhe neend nahi aati" would be jarring
+export function detectLanguage(text: string): 'hindi' | 'english' | 'mixed' {
+  const hasDevanagari = DEVANAGARI.test(text);
+  const hasLatin = LATIN.test(text);
+
+  if (hasDevanagari && hasLatin) return 'mixed';
+  if (hasDevanagari) return 'hindi';
+  if (hasLatin && romanizedHindiShare(text) >= 0.25) return 'mixed';
+  return 'english';
+}
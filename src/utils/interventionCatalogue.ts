@@ -0,0 +1,306 @@
+// Intervention strategy catalogue
+// Every intervention the companion can use, with indications, contraindications and techniques, and a scorer that ranks them
+
+import type { RiskLevel } from '../types';
+
+export type InterventionType =
+  | 'validation'
+  | 'cognitive_restructuring'
+  | 'mindfulness'
+  | 'grounding'
+  | 'problem_solving'
+  | 'behavioral_activation'
+  | 'self_compassion'
+  | 'psychoeducation'
+  | 'crisis_intervention';
+
+// What the scorer knows about the current message and user
+export interface InterventionSignals {
+  message: string;
+  primaryEmotion: string;
+  // 0-1
+  emotionIntensity: number;
+  therapeuticNeeds: string[];
+  culturalThemes: string[];
+  // From the LLM text analysis, free text such as "catastrophizing"
+  cognitivePatterns: string[];
+  riskLevel: RiskLevel;
+  // Allowed by the current therapeutic phase; crisis intervention is always allowed
+  allowed: InterventionType[];
+  // Interventions that helped this user before
+  helpedBefore: InterventionType[];
+  // 0-1 from in-chat feedback, see services/interventionFeedback; missing when nobody has rated it
+  effectiveness?: Partial<Record<InterventionType, number>>;
+}
+
+interface SignalRule {
+  when: (signals: InterventionSignals) => boolean;
+  weight: number;
+  reason: string;
+}
+
+interface Contraindication {
+  when: (signals: InterventionSignals) => boolean;
+  reason: string;
+}
+
+export interface InterventionStrategy {
+  type: InterventionType;
+  label: string;
+  description: string;
+  // Added to the reply prompt when this strategy is chosen
+  guidelines: string;
+  techniques: string[];
+  indications: SignalRule[];
+  contraindications: Contraindication[];
+  // Set at closure when the strategy was used in the session
+  homework: string;
+  // Shown in session reports under skills practised
+  skill?: string;
+  // Remembered coping strategies that count as this intervention having helped, e.g. "a long walk"
+  helpedCues?: RegExp;
+}
+
+const emotion = (...names: string[]) => (s: InterventionSignals) => names.includes(s.primaryEmotion);
+const need = (...names: string[]) => (s: InterventionSignals) => names.some(name => s.therapeuticNeeds.includes(name));
+const theme = (...names: string[]) => (s: InterventionSignals) => names.some(name => s.culturalThemes.includes(name));
+const pattern = (cue: RegExp) => (s: InterventionSignals) => s.cognitivePatterns.some(item => cue.test(item));
+const says = (cue: RegExp) => (s: InterventionSignals) => cue.test(s.message);
+const intense = (s: InterventionSignals) => s.emotionIntensity >= 0.7;
+const elevated = (s: InterventionSignals) => s.riskLevel === 'high' || s.riskLevel === 'severe';
+
+const DISTORTIONS = /catastroph|all.or.nothing|black.and.white|overgenerali[sz]|mind.?reading|fortune.?telling|should statements?|labell?ing|negative (automatic )?thoughts?/i;
+const SELF_CRITICISM = /self.?(critic|blame)|perfectionis|worthless|guilt|shame/i;
+
+// Order matters only for ties; validation comes first as the always-safe default
+export const INTERVENTION_CATALOGUE: InterventionStrategy[] = [
+  {
+    type: 'validation',
+    label: 'Validation',
+    description: 'Acknowledge and validate emotions',
+    guidelines: 'Acknowledge their feelings and normalize their experience. Show understanding.',
+    techniques: ['reflective_listening', 'emotional_validation', 'normalization'],
+    indications: [
+      { when: () => true, weight: 1, reason: 'Safe default' },
+      { when: theme('familyReferences', 'socialPressure'), weight: 0.5, reason: 'Family or social pressure is easier to talk about once it feels understood' }
+    ],
+    contraindications: [],
+    homework: 'Note one moment each day when you treated yourself with kindness',
+    skill: 'Self-validation'
+  },
+  {
+    type: 'cognitive_restructuring',
+    label: 'Cognitive restructuring',
+    description: 'Help identify and reframe negative thoughts',
+    guidelines: 'Help identify negative thought patterns and suggest balanced perspectives.',
+    techniques: ['thought_challenging', 'perspective_taking', 'evidence_examination'],
+    indications: [
+      { when: emotion('stress'), weight: 2, reason: 'Stress often rides on unhelpful predictions' },
+      { when: need('stress_management'), weight: 1, reason: 'Stress management need' },
+      { when: pattern(DISTORTIONS), weight: 3, reason: 'Thinking pattern worth examining' },
+      { when: says(/\b(always|never|everyone|nobody|fail(ure)?|ruined|worst)\b|fail ho ja|sab khatam/i), weight: 1, reason: 'Absolute or catastrophic wording' }
+    ],
+    contraindications: [
+      { when: intense, reason: 'Too distressed right now to examine thoughts' },
+      { when: elevated, reason: 'Safety comes before thought work' }
+    ],
+    homework: 'Each evening, write down one worrying thought and one kinder, more balanced way to see it',
+    skill: 'Cognitive restructuring',
+    helpedCues: /\b(reframe|reframing|thought record|look at it differently|perspective|challeng(e|ing) (the|my) thoughts?)\b/i
+  },
+  {
+    type: 'mindfulness',
+    label: 'Mindfulness',
+    description: 'Present-moment awareness and slow breathing',
+    guidelines: 'Suggest grounding techniques and present-moment awareness practices.',
+    techniques: ['paced_breathing', 'body_scan', 'mindful_observation'],
+    indications: [
+      { when: emotion('anxiety'), weight: 2, reason: 'Anxiety settles with slower breathing' },
+      { when: need('anxiety_management', 'relaxation_techniques'), weight: 2, reason: 'Anxiety or relaxation need' },
+      { when: says(/\b(overthink(ing)?|racing thoughts?|can'?t (switch off|relax)|restless)\b/i), weight: 1, reason: 'Racing or restless mind' }
+    ],
+    contraindications: [
+      { when: says(/\b(flashbacks?|dissociat\w*|numb|not real)\b/i), reason: 'Turning inward can worsen flashbacks or dissociation' }
+    ],
+    homework: 'Practise slow breathing for two minutes twice a day, once before you start studying or working',
+    skill: 'Mindfulness techniques',
+    helpedCues: /\b(breath(e|ing)?|meditat\w*|pranayam\w*|yoga|mindful\w*)\b/i
+  },
+  {
+    type: 'grounding',
+    label: 'Grounding',
+    description: 'Bring attention back to the senses during acute distress',
+    guidelines: 'Guide a short grounding exercise, such as naming five things they can see, four they can touch and three they can hear. Keep sentences short and calm.',
+    techniques: ['five_four_three_two_one', 'feet_on_floor', 'cold_water'],
+    indications: [
+      { when: intense, weight: 3, reason: 'Intense emotion right now' },
+      { when: says(/\b(panic(king)?|can'?t breathe|heart (is )?racing|shaking|spiral(l?ing)?|flashbacks?|dissociat\w*)\b|ghabrahat|घबराहट/i), weight: 3, reason: 'Panic or feeling out of body' },
+      { when: need('grounding_techniques'), weight: 1, reason: 'Grounding need' },
+      { when: emotion('anxiety', 'anger'), weight: 1, reason: 'High-arousal emotion' }
+    ],
+    contraindications: [],
+    homework: 'When things feel too much, name five things you can see and four you can touch before doing anything else',
+    skill: 'Grounding',
+    helpedCues: /\b(5.4.3.2.1|grounding|cold water|splash(ed)? (my )?face|feet on the (floor|ground))\b/i
+  },
+  {
+    type: 'problem_solving',
+    label: 'Problem-solving',
+    description: 'Break a practical problem into small, doable steps',
+    guidelines: 'Help them name the practical problem, list two or three options, pick one and plan the first small step. Let them choose; do not decide for them.',
+    techniques: ['problem_definition', 'option_generation', 'first_step_planning'],
+    indications: [
+      { when: says(/\b(what should i do|how do i|don'?t know what to do|decide|deadline|too much work|so much to do|kya karu|kya karoon)\b/i), weight: 3, reason: 'Asks what to do about a practical problem' },
+      { when: theme('academicPressure'), weight: 1, reason: 'Academic or career workload' },
+      { when: need('academic_stress_management'), weight: 1, reason: 'Academic stress need' }
+    ],
+    contraindications: [
+      { when: intense, reason: 'Too distressed right now to plan' },
+      { when: elevated, reason: 'Safety comes before planning' }
+    ],
+    homework: 'Pick the one problem that weighs most, write down three options and try the smallest first step',
+    skill: 'Problem-solving',
+    helpedCues: /\b(to-?do list|timetable|schedule|plan(ned|ning)?|one step at a time|broke it (down|into))\b/i
+  },
+  {
+    type: 'behavioral_activation',
+    label: 'Behavioral activation',
+    description: 'Small, rewarding activities that lift low mood',
+    guidelines: 'Encourage small, manageable activities that can improve mood.',
+    techniques: ['activity_scheduling', 'pleasant_activities', 'graded_tasks'],
+    indications: [
+      { when: emotion('depression'), weight: 2, reason: 'Low mood responds to small activities' },
+      { when: need('mood_enhancement', 'behavioral_activation'), weight: 2, reason: 'Mood enhancement need' },
+      { when: says(/\b(stay(ing)? in bed|no energy|don'?t feel like doing anything|used to (love|enjoy)|lost interest)\b/i), weight: 1, reason: 'Withdrawal from activities' }
+    ],
+    contraindications: [
+      { when: elevated, reason: 'Safety comes before activity planning' }
+    ],
+    homework: 'Plan one small thing you used to enjoy for tomorrow, do it, and notice how you feel afterwards',
+    skill: 'Behavioral activation',
+    helpedCues: /\b(walk(ing|ed)?|run(ning)?|gym|exercis\w*|cricket|football|badminton|danc\w*|paint\w*|draw\w*|music|sing\w*|cook\w*|went out|game|games)\b/i
+  },
+  {
+    type: 'self_compassion',
+    label: 'Self-compassion',
+    description: 'Meet self-criticism with the kindness they would offer a friend',
+    guidelines: 'Gently point out the harsh self-talk and ask what they would say to a close friend in the same situation. Invite them to say that to themselves.',
+    techniques: ['friend_perspective', 'kind_self_talk', 'common_humanity'],
+    indications: [
+      { when: says(/\b(i hate myself|my fault|i'?m (so )?(useless|stupid|a failure|worthless|not good enough)|disappointment|i ruin)\b|meri galti|main bekaar/i), weight: 3, reason: 'Harsh self-talk' },
+      { when: pattern(SELF_CRITICISM), weight: 2, reason: 'Self-critical pattern' },
+      { when: theme('familyReferences', 'socialPressure'), weight: 0.5, reason: 'Measuring themselves against expectations' },
+      { when: emotion('depression'), weight: 1, reason: 'Low mood often comes with self-blame' }
+    ],
+    contraindications: [],
+    homework: 'When the inner critic speaks up, write down what you would say to a close friend instead',
+    skill: 'Self-compassion',
+    helpedCues: /\b(kind(er)? to myself|self.?compassion|forg(a|i)ve myself|journal(l?ing)?)\b/i
+  },
+  {
+    type: 'psychoeducation',
+    label: 'Psychoeducation',
+    description: 'Explain what is happening in plain language',
+    guidelines: 'Provide helpful information about mental health in an accessible way.',
+    techniques: ['normalizing_explanation', 'stress_response_explanation'],
+    indications: [
+      { when: says(/\b(why do i|is it normal|what is (happening|wrong)|is this (anxiety|depression)|am i (crazy|mad|normal))\b|kya yeh normal/i), weight: 3, reason: 'Asks what is happening to them' }
+    ],
+    contraindications: [
+      { when: intense, reason: 'Explanations can wait until they feel steadier' }
+    ],
+    homework: 'Notice when the feeling shows up this week and what was happening just before',
+    skill: 'Understanding emotions'
+  },
+  {
+    type: 'crisis_intervention',
+    label: 'Crisis intervention',
+    description: 'Immediate safety support',
+    guidelines: 'Prioritize safety. Be direct but compassionate. Provide immediate resources.',
+    techniques: ['safety_check', 'helpline_referral', 'safety_plan'],
+    indications: [
+      { when: elevated, weight: 10, reason: 'Elevated risk' }
+    ],
+    contraindications: [],
+    homework: 'Keep your safety plan and a helpline number somewhere you can see them, and reach out to someone you trust today'
+  }
+];
+
+export function getInterventionStrategy(type: string): InterventionStrategy | undefined {
+  return INTERVENTION_CATALOGUE.find(strategy => strategy.type === type);
+}
+
+// Which interventions the user's remembered coping strategies point to, e.g. "going for a walk" -> behavioral activation
+export function interventionsFromCoping(copingStrategies: string[]): InterventionType[] {
+  return INTERVENTION_CATALOGUE
+    .filter(strategy => strategy.helpedCues && copingStrategies.some(text => strategy.helpedCues!.test(text)))
+    .map(strategy => strategy.type);
+}
+
+// Best guess at the intervention behind a reply that was not chosen by the scorer, from the reply and its suggested actions
+export function inferIntervention(texts: string[]): InterventionType {
+  return interventionsFromCoping(texts)[0] || 'validation';
+}
+
+export interface InterventionScore {
+  type: InterventionType;
+  score: number;
+  reasons: string[];
+  // Why it was ruled out, if it was
+  excluded?: string;
+}
+
+export interface InterventionSelection {
+  chosen: InterventionScore;
+  runnersUp: InterventionScore[];
+  // Every strategy, best first, excluded ones last
+  scores: InterventionScore[];
+}
+
+const HELPED_BEFORE_WEIGHT = 2;
+// Feedback moves a score by up to half this either way: always helpful +3, never helpful -3, enough to outweigh one strong indication
+const EFFECTIVENESS_WEIGHT = 6;
+
+export function scoreInterventions(signals: InterventionSignals, runnersUp: number = 2): InterventionSelection {
+  const scores = INTERVENTION_CATALOGUE.map((strategy): InterventionScore => {
+    const matched = strategy.indications.filter(rule => rule.when(signals));
+    const reasons = matched.map(rule => rule.reason);
+    let score = matched.reduce((sum, rule) => sum + rule.weight, 0);
+
+    if (signals.helpedBefore.includes(strategy.type)) {
+      score += HELPED_BEFORE_WEIGHT;
+      reasons.push('Helped this user before');
+    }
+
+    const effectiveness = signals.effectiveness?.[strategy.type];
+    if (effectiveness !== undefined) {
+      score += (effectiveness - 0.5) * EFFECTIVENESS_WEIGHT;
+      reasons.push(`Rated ${Math.round(effectiveness * 100)}% helpful`);
+    }
+
+    const contraindication = strategy.contraindications.find(rule => rule.when(signals));
+    let excluded = contraindication?.reason;
+    if (!excluded && strategy.type !== 'crisis_intervention' && !signals.allowed.includes(strategy.type)) {
+      excluded = 'Not used in the current phase';
+    }
+    if (!excluded && strategy.type === 'crisis_intervention' && score === 0) {
+      excluded = 'No elevated risk';
+    }
+
+    return { type: strategy.type, score, reasons, excluded };
+  });
+
+  // Stable sort keeps catalogue order for ties
+  const ranked = [
+    ...scores.filter(score => !score.excluded).sort((a, b) => b.score - a.score),
+    ...scores.filter(score => score.excluded)
+  ];
+  // Validation has no contraindications and is allowed in every phase, so something is always eligible
+  const [chosen, ...rest] = ranked;
+
+  return {
+    chosen,
+    runnersUp: rest.filter(score => !score.excluded && score.score > 0).slice(0, runnersUp),
+    scores: ranked
+  };
+}
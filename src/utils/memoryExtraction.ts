@@ -0,0 +1,140 @@
+// Memory extraction for long-term conversational memory
+// Pulls durable facts (stressors, people, goals, coping strategies that worked) out of a user message - rule-based, so it works offline
+
+export type MemoryKind = 'stressor' | 'person' | 'goal' | 'coping_strategy';
+
+export interface ExtractedFact {
+  kind: MemoryKind;
+  text: string;
+  // Facts with the same kind and key are the same memory mentioned again
+  key: string;
+}
+
+export const MEMORY_KIND_LABELS: Record<MemoryKind, string> = {
+  stressor: 'तनाव की वजह / Stressor',
+  person: 'लोग / Person',
+  goal: 'लक्ष्य / Goal',
+  coping_strategy: 'जो मदद करता है / What helped'
+};
+
+// Topics only count as stressors when the message also sounds strained, unless the topic is a strain on its own
+const STRESS_CUES = /\b(stress(ed|ful|ing)?|worr(y|ied|ying)|anxious|anxiety|nervous|scared|afraid|pressure|tension|overwhelm(ed|ing)?|can'?t cope|struggl(e|ing)|upset|tanav|chinta|pareshan|dar lag)\b|तनाव|चिंता|परेशान|डर|दबाव/i;
+
+const STRESSOR_TOPICS: Array<{ label: string; pattern: RegExp; standalone?: boolean }> = [
+  { label: 'Exams and studies', pattern: /\b(exams?|boards|marks|results?|studies|studying|padhai|jee|neet|upsc|semester|backlogs?)\b|परीक्षा|पढ़ाई/i },
+  { label: 'Work and career', pattern: /\b(job|boss|office|deadlines?|placements?|interviews?|career|manager|appraisal|naukri)\b|नौकरी/i },
+  { label: 'Family expectations', pattern: /\b(parents|family|ghar( pe| mein)?|log kya kahenge|shaadi|marriage pressure)\b|परिवार|माता-पिता|लोग क्या कहेंगे|शादी/i },
+  { label: 'Relationship troubles', pattern: /\b(break ?up|broke up|cheated|fight with my (boyfriend|girlfriend|partner|husband|wife))\b/i, standalone: true },
+  { label: 'Money worries', pattern: /\b(money|loan|fees|rent|debt|paisa|paise|financial)\b|पैसे|कर्ज़/i },
+  { label: 'Sleep problems', pattern: /\b(can'?t sleep|insomnia|not sleeping|neend nahi?)\b|नींद नहीं/i, standalone: true },
+  { label: 'Loneliness', pattern: /\b(lonely|no friends|akela|akeli)\b|अकेला|अकेली|अकेलापन/i, standalone: true }
+];
+
+const RELATIONS: Record<string, string> = {
+  mom: 'mother', mother: 'mother', mummy: 'mother', mumma: 'mother', maa: 'mother',
+  dad: 'father', father: 'father', papa: 'father',
+  sister: 'sister', didi: 'sister', brother: 'brother', bhai: 'brother', bhaiya: 'brother',
+  'best friend': 'best friend', friend: 'friend', dost: 'friend',
+  boyfriend: 'boyfriend', girlfriend: 'girlfriend', partner: 'partner', husband: 'husband', wife: 'wife',
+  roommate: 'roommate', teacher: 'teacher', professor: 'professor', boss: 'boss', manager: 'manager',
+  grandmother: 'grandmother', dadi: 'grandmother', nani: 'grandmother',
+  grandfather: 'grandfather', dada: 'grandfather', nana: 'grandfather', cousin: 'cousin',
+  therapist: 'therapist', counsellor: 'counsellor', counselor: 'counsellor'
+};
+
+const PERSON_PATTERN = new RegExp(
+  `\\b(?:my|meri|mera|mere)\\s+(${Object.keys(RELATIONS).sort((a, b) => b.length - a.length).join('|')})\\b(?:,?\\s+([A-Z][a-z]{1,20})\\b)?`,
+  'gi'
+);
+
+const GOAL_PATTERNS = [
+  /\b(?:i want to|i'd like to|i would like to|i wish i could|my goal is to|i hope to|i'?m trying to|i am trying to|i plan to)\s+([^.!?\n]{3,80})/gi,
+  /\b([^.!?\n,]{3,80}?)\s+(?:karna chahta hoon|karna chahti hoon|chahta hoon|chahti hoon)/gi
+];
+
+const COPING_PATTERNS = [
+  /\b([^.!?\n,]{3,80}?)\s+(?:really\s+|actually\s+|always\s+|kind of\s+)?(?:helped|helps|calms me|calmed me|made me feel better|makes me feel better)\b/gi,
+  /\bafter\s+([^.!?\n,]{3,80}?),?\s+i\s+(?:felt|feel)\s+(?:better|calmer|lighter)/gi,
+  /\b([^.!?\n,]{3,80}?)\s+(?:se\s+(?:help mili|accha laga|achha laga|better laga|sukoon mila)|karke\s+(?:accha|achha|better)\s+laga)/gi
+];
+
+// Goals and strategies that would be harmful to remember and bring back later: self-harm, disordered eating,
+// drinking and wishes not to exist, including ones that sound like coping ("cutting helps", "I want to sleep forever")
+const HARMFUL_MEMORY = [
+  /\b(die|dying|dead|kill\w*|suicid\w*|end (it|my life|everything)|overdose|pills)\b|मरना|मर जा|खत्म कर/i,
+  /\b((hurt|harm|cut|burn|punish)(ing)? (myself|my (arms?|wrists?|hands?|legs?|skin))|self[- ]?harm\w*|cutting|blades?)\b/i,
+  /\b(starv\w*|not eating|(stop|stopped|stopping|quit) eating(?! (junk|out|late|so much|fast food))|skip(ping)? (meals|food)|purg(e|ing)|throw(ing)? up|khana (chhod|band)\w*|bhookh?a reh\w*)\b|भूखा|भूखी/i,
+  /\b(drinking(?! (water|chai|tea|coffee|milk|juice))|drunk|alcohol|daru|sharab|getting high|weed)\b|शराब/i,
+  /\b(sleep forever|never wake up|not wake up|vanish\w*|disappear\w*|not (be )?(here|alive|exist) anymore|hamesha ke liye so\w*|gayab ho\w*)\b|गायब हो/i
+];
+const NEGATED = /\b(doesn'?t|didn'?t|does not|did not|never|nothing|can'?t|won'?t|not|nahi|nahin)\s*$/i;
+const PRONOUN_ONLY = /^(it|that|this|which|what|you|that really|this really|talking to you)$/i;
+const LEADING_FILLER = /^(?:and|but|so|also|honestly|i think|i guess|actually|yesterday|today|really|main|mai)\s+/i;
+
+export function isHarmfulMemory(text: string): boolean {
+  return HARMFUL_MEMORY.some(pattern => pattern.test(text));
+}
+
+export function memoryKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+// For strategies only the last clause is kept: "exams stress me but a walk helped" -> "a walk"
+const CLAUSE_BREAK = /\b(?:but|because|so|and then|lekin|par|aur phir)\b/i;
+
+function cleanClause(text: string, lastClauseOnly: boolean = false): string {
+  let clause = (lastClauseOnly ? text.split(CLAUSE_BREAK).pop()! : text).trim();
+  while (LEADING_FILLER.test(clause)) clause = clause.replace(LEADING_FILLER, '');
+  return clause.replace(/\s+/g, ' ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function extractMemoryFacts(message: string): ExtractedFact[] {
+  const text = message || '';
+  const facts: ExtractedFact[] = [];
+  const add = (kind: MemoryKind, factText: string, key: string = memoryKey(factText)) => {
+    if (key && !facts.some(fact => fact.kind === kind && fact.key === key)) {
+      facts.push({ kind, text: factText, key });
+    }
+  };
+
+  const strained = STRESS_CUES.test(text);
+  STRESSOR_TOPICS.forEach(topic => {
+    if (topic.pattern.test(text) && (strained || topic.standalone)) add('stressor', topic.label);
+  });
+
+  for (const match of text.matchAll(PERSON_PATTERN)) {
+    const relation = RELATIONS[match[1].toLowerCase()];
+    // The pattern is case-insensitive, so only a capitalised word after the relation is taken as a name
+    const name = match[2] && /^[A-Z]/.test(match[2]) ? match[2] : undefined;
+    // Keyed by relation, so "my sister" and "my sister Anjali" are one memory
+    add('person', name ? `${capitalize(relation)} (${name})` : capitalize(relation), relation);
+  }
+
+  GOAL_PATTERNS.forEach(pattern => {
+    for (const match of text.matchAll(pattern)) {
+      const goal = cleanClause(match[1]);
+      if (goal.split(' ').length >= 2 && !isHarmfulMemory(goal)) add('goal', capitalize(goal));
+    }
+  });
+
+  COPING_PATTERNS.forEach(pattern => {
+    for (const match of text.matchAll(pattern)) {
+      const strategy = cleanClause(match[1], true);
+      if (!PRONOUN_ONLY.test(strategy) && !NEGATED.test(strategy) && !isHarmfulMemory(strategy)) {
+        add('coping_strategy', capitalize(strategy));
+      }
+    }
+  });
+
+  return facts;
+}
+
+// Rough token count for prompt budgeting; Devanagari takes about twice the tokens per character
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / (/[\u0900-\u097F]/.test(text) ? 2 : 4));
+}
@@ -0,0 +1,174 @@
+// PII redaction for text sent to cloud LLMs
+// Replaces personal details with placeholders before the call and puts them back in the reply, so they never leave the device
+
+export type PIIType =
+  | 'email'
+  | 'phone'
+  | 'aadhaar'
+  | 'pan'
+  | 'pincode'
+  | 'address'
+  | 'institution'
+  | 'name';
+
+export interface PIIEntity {
+  type: PIIType;
+  value: string;
+  // e.g. [PHONE_1]; the same value always gets the same placeholder within one request
+  placeholder: string;
+}
+
+export interface PIIDetector {
+  type: PIIType;
+  // Global regex; a named group "value" narrows the match to the part that is replaced
+  pattern: RegExp;
+}
+
+export interface RedactionOptions {
+  // Names known to belong to the user or their contacts, redacted wherever they appear
+  knownNames?: string[];
+  types?: PIIType[];
+}
+
+export interface RedactionResult {
+  text: string;
+  // Every entity in play for this request, including ones passed in
+  entities: PIIEntity[];
+}
+
+// Mirrors UserProfile['privacy']['redactPersonalInfo'] plus names the caller already knows
+export interface PrivacyContext {
+  redactPersonalInfo: boolean;
+  knownNames?: string[];
+}
+
+// Words that start a new clause; an address stops before them so the rest of the sentence still reaches the model
+const CLAUSE_WORD = "(?!(?:and|but|so|or|because|since|where|when|which|who|i|i'm|im|it|aur|lekin|par|jahan|kyunki|toh)\\b)";
+const ADDRESS_WORD = `${CLAUSE_WORD}\\w[\\w'-]*`;
+const STREET_OR_AREA = '(?:road|rd|street|st|lane|marg|path|nagar|colony|sector|block|phase|society|apartments?|towers?|residency|enclave|vihar|layout|cross|chowk|gali|bagh|puram|ganj|extension|avenue)';
+// A house number then a street or area word ("12 MG Road", "B-4 Shanti Nagar"), or an area with its number ("Sector 15")
+const STREET_ADDRESS =
+  `(?:[\\w/-]*\\d[\\w/-]*,?\\s+(?:${ADDRESS_WORD}\\s+){0,3}?${STREET_OR_AREA}\\b\\.?|(?:sector|block|phase|gali)\\s*(?:no\\.?\\s*)?\\d+[\\w/-]*)` +
+  `(?:,\\s*${ADDRESS_WORD}(?:\\s+${ADDRESS_WORD}){0,2}){0,3}`;
+
+// Title-Case words before "College", "School", ... only count after a lowercase connector ("I study at Delhi Public School"),
+// so a sentence typed in Title Case ("Yesterday I Went To School And Cried") is left alone
+const INSTITUTION_KEYWORD = '(?:College|University|Institute|Vidyalaya|Vidyapeeth|Mahavidyalaya|School|Academy)\\b(?:\\s+of\\s+(?:[A-Z][\\w&-]*\\s?){1,4})?';
+const INSTITUTION_CONNECTOR = '(?:at|in|from|to|into|of|join|joined|attend|attended|attending|study|studied|main|mera|meri|mere|hamara|humara)';
+
+// Order matters: earlier detectors claim text before later, looser ones see it
+export const PII_DETECTORS: PIIDetector[] = [
+  { type: 'email', pattern: /\b[\w.+-]+@[\w-]+(\.[\w-]+)+\b/g },
+  // +91 / 0 prefixed or bare 10-digit mobile numbers starting 6-9
+  { type: 'phone', pattern: /(?:\+91[\s-]?|\b0?)[6-9]\d{4}[\s-]?\d{5}\b/g },
+  // 12 digits in 4-4-4 groups, never starting with 0 or 1
+  { type: 'aadhaar', pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+  // Fourth letter is the holder type (P for individuals, C for companies, ...)
+  { type: 'pan', pattern: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/gi },
+  // Six digits only with a PIN keyword or in address position, so ranks and amounts are left alone
+  {
+    type: 'pincode',
+    pattern: /(?:\bpin\s*code|\bpincode|\bpin|\bpostal\s+code|पिन\s*कोड|पिन)\s*(?:is|hai|है|:|-)?\s*(?<value>[1-9]\d{2}\s?\d{3})\b/gi
+  },
+  { type: 'pincode', pattern: /(?:,|\s-)\s*(?<value>[1-9]\d{2}\s?\d{3})\b/g },
+  {
+    type: 'address',
+    pattern: new RegExp(
+      `\\b(?:i\\s+(?:live|stay)\\s+(?:at|on|in)|my\\s+address\\s+is|address\\s*[:-]|mera\\s+ghar|mera\\s+address)\\s*(?:hai\\s+)?(?:the\\s+)?(?<value>${STREET_ADDRESS})`,
+      'gi'
+    )
+  },
+  {
+    type: 'address',
+    pattern: new RegExp(`\\b(?:flat|house|h\\.?\\s?no\\.?|plot|room)\\s*(?:no\\.?|number)?\\s*#?\\d+[\\w/-]*(?:,\\s*${ADDRESS_WORD}(?:\\s+${ADDRESS_WORD}){0,3}){0,4}`, 'gi')
+  },
+  { type: 'institution', pattern: /\b(?:IIT|NIT|IIIT|IIM|AIIMS|BITS)[\s-]+[A-Z][a-z]+\b/g },
+  {
+    type: 'institution',
+    pattern: new RegExp(`\\b(?:St\\.?|Sri|Shri|Govt\\.?|Government|Kendriya|Delhi\\s+Public|DAV)\\s+(?:[A-Z][\\w.&'-]*\\s+){0,4}${INSTITUTION_KEYWORD}`, 'g')
+  },
+  {
+    type: 'institution',
+    pattern: new RegExp(`(?<=\\b${INSTITUTION_CONNECTOR}\\s+(?:the\\s+)?)(?:[A-Z][\\w.&'-]*\\s+){1,5}${INSTITUTION_KEYWORD}`, 'g')
+  },
+  { type: 'name', pattern: /\b(?:[Mm]y\s+name\s+is|[Cc]all\s+me|[Ii]\s+am\s+called)\s+(?<value>[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g },
+  { type: 'name', pattern: /\b[Mm]era\s+naam\s+(?<value>[A-Za-z]+(?:\s+(?!hai\b)[A-Za-z]+)?)\s+(?:hai|h)\b/g },
+  { type: 'name', pattern: /मेरा\s+नाम\s+(?<value>\S+(?:\s+(?!है)\S+)?)\s+है/g },
+  {
+    type: 'name',
+    pattern: /\b(?:[Mm]y|[Mm]era|[Mm]eri)\s+(?:best\s+)?(?:friend|sister|brother|mom|mother|dad|father|boyfriend|girlfriend|roommate|teacher|professor|cousin|partner|bf|gf|dost|behen|bhai|didi|bhaiya)\s+(?<value>[A-Z][a-z]+)/g
+  }
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function knownNameDetectors(names: string[] = []): PIIDetector[] {
+  return names
+    .map(name => name.trim())
+    .filter(name => name.length >= 2)
+    .map(name => ({ type: 'name' as const, pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi') }));
+}
+
+export function isRedactionEnabled(privacy?: Partial<PrivacyContext>): boolean {
+  // On unless the user has explicitly turned it off
+  return privacy?.redactPersonalInfo !== false;
+}
+
+export function redactPII(text: string, options: RedactionOptions = {}, entities: PIIEntity[] = []): RedactionResult {
+  const found = [...entities];
+  const placeholderFor = (type: PIIType, value: string): string => {
+    const existing = found.find(entity => entity.type === type && entity.value === value);
+    if (existing) return existing.placeholder;
+
+    const count = found.filter(entity => entity.type === type).length + 1;
+    const entity: PIIEntity = { type, value, placeholder: `[${type.toUpperCase()}_${count}]` };
+    found.push(entity);
+    return entity.placeholder;
+  };
+
+  // Known names go just before the pattern-based name detectors, after emails and addresses have been claimed
+  const firstNameDetector = PII_DETECTORS.findIndex(detector => detector.type === 'name');
+  const detectors = [
+    ...PII_DETECTORS.slice(0, firstNameDetector),
+    ...knownNameDetectors(options.knownNames),
+    ...PII_DETECTORS.slice(firstNameDetector)
+  ]
+    .filter(detector => !options.types || options.types.includes(detector.type));
+
+  let redacted = text || '';
+  for (const detector of detectors) {
+    redacted = redacted.replace(detector.pattern, (match: string, ...args: any[]) => {
+      const groups = args[args.length - 1];
+      const value = (typeof groups === 'object' && groups?.value ? groups.value : match).trim();
+      return match.replace(value, placeholderFor(detector.type, value));
+    });
+  }
+
+  return { text: redacted, entities: found };
+}
+
+// Redacts several texts (message plus history) with one shared set of placeholders
+export function redactAll(texts: string[], options: RedactionOptions = {}): { texts: string[]; entities: PIIEntity[] } {
+  let entities: PIIEntity[] = [];
+  const redacted = texts.map(text => {
+    const result = redactPII(text, options, entities);
+    entities = result.entities;
+    return result.text;
+  });
+
+  return { texts: redacted, entities };
+}
+
+// Redacts only when the user's privacy setting allows it; otherwise passes the texts through untouched
+export function redactForLLM(texts: string[], privacy?: Partial<PrivacyContext>): { texts: string[]; entities: PIIEntity[] } {
+  return isRedactionEnabled(privacy)
+    ? redactAll(texts, { knownNames: privacy?.knownNames })
+    : { texts, entities: [] };
+}
+
+// Newest first, so a placeholder captured inside a later entity (a PIN inside an address) is restored too
+export function restorePII(text: string, entities: PIIEntity[]): string {
+  return entities.reduceRight((restored, entity) => restored.split(entity.placeholder).join(entity.value), text || '');
+}
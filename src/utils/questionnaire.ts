@@ -0,0 +1,245 @@
+// Questionnaire engine - evaluates declarative (JSON) instrument definitions
+// Handles localization keys, skip logic, reverse-scored items, severity bands and flags
+
+export type QuestionnaireLanguage = 'english' | 'hindi' | 'mixed';
+
+export type QuestionnaireValue = number | string | string[];
+
+export type QuestionnaireAnswers = Record<string, QuestionnaireValue>;
+
+export type ConditionOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'includes' | 'answered';
+
+export type QuestionnaireCondition =
+  | { item: string; op: ConditionOperator; value?: number | string }
+  // Matches when any of the listed items meets the comparison
+  | { anyItem: string[]; op: ConditionOperator; value?: number | string }
+  | { score: 'total'; op: ConditionOperator; value: number }
+  | { all: QuestionnaireCondition[] }
+  | { any: QuestionnaireCondition[] };
+
+export interface ResponseOption {
+  value: number | string;
+  labelKey: string;
+  // Name from the renderer's icon set, or an emoji shown before the label
+  icon?: string;
+  emoji?: string;
+}
+
+export interface QuestionnaireItem {
+  id: string;
+  type: 'single' | 'multiple';
+  textKey: string;
+  subtitleKey?: string;
+  // Shared option list from `responseSets`, or inline `options`
+  responseSet?: string;
+  options?: ResponseOption[];
+  display?: 'grid' | 'list';
+  reverse?: boolean;
+  // Unscored items (e.g. the PHQ-9 difficulty question) are asked but never added to the total
+  scored?: boolean;
+  required?: boolean;
+  minSelections?: number;
+  defaultValue?: QuestionnaireValue;
+  showIf?: QuestionnaireCondition;
+}
+
+export interface ScoreBand {
+  id: string;
+  minScore: number;
+  labelKey: string;
+}
+
+export interface QuestionnaireScoring {
+  method: 'sum' | 'mean';
+  multiplier?: number;
+  maxScore: number;
+  // Highest band first
+  bands: ScoreBand[];
+  flags?: Array<{ id: string; when: QuestionnaireCondition }>;
+  followUp?: QuestionnaireCondition;
+}
+
+export interface QuestionnaireDefinition {
+  id: string;
+  version: string;
+  titleKey: string;
+  descriptionKey?: string;
+  stemKey?: string;
+  // Single-choice answers move straight to the next item instead of waiting for "Next"
+  autoAdvance?: boolean;
+  responseSets?: Record<string, ResponseOption[]>;
+  items: QuestionnaireItem[];
+  scoring?: QuestionnaireScoring;
+  // Locale code ('en', 'hi') -> key -> text
+  strings: Record<string, Record<string, string>>;
+}
+
+export interface QuestionnaireScore {
+  questionnaireId: string;
+  total: number;
+  maxScore: number;
+  band: ScoreBand;
+  itemScores: Record<string, number>;
+  flags: string[];
+  followUpRecommended: boolean;
+}
+
+// Text for a key; 'mixed' shows both scripts ("संगीत / Music") and any language falls back to English
+export function localize(definition: QuestionnaireDefinition, key: string, language: QuestionnaireLanguage = 'english'): string {
+  const english = definition.strings.en?.[key];
+  const hindi = definition.strings.hi?.[key];
+
+  if (language === 'hindi') return hindi || english || key;
+  if (language === 'mixed' && hindi && english && hindi !== english) return `${hindi} / ${english}`;
+  return english || hindi || key;
+}
+
+export function getOptions(definition: QuestionnaireDefinition, item: QuestionnaireItem): ResponseOption[] {
+  return item.options || definition.responseSets?.[item.responseSet || ''] || [];
+}
+
+function isAnswered(value: QuestionnaireValue | undefined): boolean {
+  if (value === undefined || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+function compare(actual: QuestionnaireValue | undefined, op: ConditionOperator, expected?: number | string): boolean {
+  if (op === 'answered') return isAnswered(actual);
+  if (actual === undefined) return false;
+  if (op === 'includes') return Array.isArray(actual) && actual.includes(String(expected));
+  if (op === 'eq') return actual === expected;
+  if (op === 'neq') return actual !== expected;
+
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  if (op === 'gt') return actual > expected;
+  if (op === 'gte') return actual >= expected;
+  if (op === 'lt') return actual < expected;
+  return actual <= expected;
+}
+
+export function evaluateCondition(condition: QuestionnaireCondition, answers: QuestionnaireAnswers, total?: number): boolean {
+  if ('all' in condition) return condition.all.every(inner => evaluateCondition(inner, answers, total));
+  if ('any' in condition) return condition.any.some(inner => evaluateCondition(inner, answers, total));
+  if ('anyItem' in condition) return condition.anyItem.some(item => compare(answers[item], condition.op, condition.value));
+  if ('score' in condition) return total !== undefined && compare(total, condition.op, condition.value);
+  return compare(answers[condition.item], condition.op, condition.value);
+}
+
+// Items skipped by their showIf condition are neither asked nor scored
+export function getVisibleItems(definition: QuestionnaireDefinition, answers: QuestionnaireAnswers): QuestionnaireItem[] {
+  return definition.items.filter(item => !item.showIf || evaluateCondition(item.showIf, answers));
+}
+
+export function isItemAnswered(item: QuestionnaireItem, answers: QuestionnaireAnswers): boolean {
+  const value = answers[item.id];
+  if (item.type === 'multiple') {
+    return Array.isArray(value) && value.length >= (item.minSelections ?? 1);
+  }
+  return isAnswered(value);
+}
+
+export function isQuestionnaireComplete(definition: QuestionnaireDefinition, answers: QuestionnaireAnswers): boolean {
+  return getVisibleItems(definition, answers).every(item => item.required === false || isItemAnswered(item, answers));
+}
+
+// Pre-selected values from the definition, e.g. a default language
+export function getDefaultAnswers(definition: QuestionnaireDefinition): QuestionnaireAnswers {
+  const answers: QuestionnaireAnswers = {};
+  definition.items.forEach(item => {
+    if (item.defaultValue !== undefined) {
+      answers[item.id] = Array.isArray(item.defaultValue) ? [...item.defaultValue] : item.defaultValue;
+    }
+  });
+  return answers;
+}
+
+function itemScore(definition: QuestionnaireDefinition, item: QuestionnaireItem, value: QuestionnaireValue | undefined): number {
+  const values = getOptions(definition, item).map(option => option.value);
+  if (typeof value !== 'number' || !values.includes(value)) {
+    throw new Error(`${definition.id} item ${item.id} has invalid response ${JSON.stringify(value)}`);
+  }
+
+  if (!item.reverse) return value;
+
+  const numeric = values.filter((option): option is number => typeof option === 'number');
+  return Math.min(...numeric) + Math.max(...numeric) - value;
+}
+
+export function getBand(definition: QuestionnaireDefinition, total: number): ScoreBand {
+  const bands = definition.scoring!.bands;
+  return bands.find(band => total >= band.minScore) || bands[bands.length - 1];
+}
+
+// A partial or out-of-range answer sheet is never scored
+export function scoreQuestionnaire(definition: QuestionnaireDefinition, answers: QuestionnaireAnswers): QuestionnaireScore {
+  const { scoring } = definition;
+  if (!scoring) {
+    throw new Error(`${definition.id} has no scoring rules`);
+  }
+
+  const scoredItems = getVisibleItems(definition, answers).filter(item => item.scored !== false);
+  const itemScores: Record<string, number> = {};
+
+  scoredItems.forEach(item => {
+    itemScores[item.id] = itemScore(definition, item, answers[item.id]);
+  });
+
+  const sum = Object.values(itemScores).reduce((total, score) => total + score, 0);
+  const raw = scoring.method === 'mean' && scoredItems.length > 0 ? sum / scoredItems.length : sum;
+  const total = Math.round(raw * (scoring.multiplier ?? 1) * 10) / 10;
+
+  return {
+    questionnaireId: definition.id,
+    total,
+    maxScore: scoring.maxScore,
+    band: getBand(definition, total),
+    itemScores,
+    flags: (scoring.flags || []).filter(flag => evaluateCondition(flag.when, answers, total)).map(flag => flag.id),
+    followUpRecommended: scoring.followUp ? evaluateCondition(scoring.followUp, answers, total) : false
+  };
+}
+
+// Structural checks for hand-written definitions; returns human-readable problems
+export function validateQuestionnaire(definition: QuestionnaireDefinition): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  const checkKey = (key: string | undefined) => {
+    if (key && !definition.strings.en?.[key] && !definition.strings.hi?.[key]) {
+      problems.push(`missing string "${key}"`);
+    }
+  };
+
+  const checkCondition = (condition: QuestionnaireCondition, itemId: string) => {
+    if ('all' in condition) return condition.all.forEach(inner => checkCondition(inner, itemId));
+    if ('any' in condition) return condition.any.forEach(inner => checkCondition(inner, itemId));
+    if ('score' in condition) return;
+    const refs = 'anyItem' in condition ? condition.anyItem : [condition.item];
+    refs.filter(ref => !seen.has(ref)).forEach(ref => problems.push(`${itemId} depends on later or unknown item ${ref}`));
+  };
+
+  checkKey(definition.titleKey);
+  checkKey(definition.descriptionKey);
+  checkKey(definition.stemKey);
+
+  definition.items.forEach(item => {
+    if (seen.has(item.id)) problems.push(`duplicate item ${item.id}`);
+    if (item.showIf) checkCondition(item.showIf, item.id);
+    seen.add(item.id);
+
+    checkKey(item.textKey);
+    checkKey(item.subtitleKey);
+    const options = getOptions(definition, item);
+    if (options.length === 0) problems.push(`${item.id} has no response options`);
+    options.forEach(option => checkKey(option.labelKey));
+  });
+
+  definition.scoring?.bands.forEach((band, index, bands) => {
+    checkKey(band.labelKey);
+    if (index > 0 && band.minScore >= bands[index - 1].minScore) {
+      problems.push(`band ${band.id} must have a lower minScore than ${bands[index - 1].id}`);
+    }
+  });
+
+  return problems;
+}
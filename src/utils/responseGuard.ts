@@ -0,0 +1,289 @@
+// Post-generation safety guard for LLM replies
+// Checks model text before it reaches the user; pure so it can be run against a corpus of known-bad outputs
+
+import { CRISIS_HELPLINES } from './helplines';
+import type { RiskLevel } from '../types';
+
+export type GuardCategory =
+  | 'method_details'
+  | 'medication_dosing'
+  | 'diagnostic_claim'
+  | 'dismissive_language'
+  | 'missing_helpline';
+
+// block: the whole reply is replaced; strip: only the offending sentences are removed
+export type GuardRuleAction = 'block' | 'strip';
+
+export interface GuardRule {
+  id: string;
+  category: GuardCategory;
+  action: GuardRuleAction;
+  patterns: RegExp[];
+}
+
+export interface GuardViolation {
+  ruleId: string;
+  category: GuardCategory;
+  excerpt: string;
+}
+
+export interface GuardContext {
+  riskLevel: RiskLevel;
+  language?: 'english' | 'hindi' | 'mixed';
+  // Helplines already chosen for this user; defaults to the national directory
+  helplines?: Array<{ name: string; number: string }>;
+}
+
+export interface GuardResult {
+  action: 'allow' | 'rewrite' | 'block';
+  text: string;
+  original: string;
+  violations: GuardViolation[];
+  // Human-readable, one per violation, for logs and the safety audit trail
+  reasons: string[];
+}
+
+export const RESPONSE_GUARD_RULES: GuardRule[] = [
+  {
+    id: 'lethality_or_method',
+    category: 'method_details',
+    action: 'block',
+    patterns: [
+      /\b(lethal|fatal|deadly)\s+(dose|amount|quantity|height)\b/i,
+      /\bhow\s+(many|much)\s+(pills?|tablets?|mg)\b.*\b(die|kill|overdose|fatal)\b/i,
+      /\b(most\s+)?(painless|quickest|fastest|surest|effective)\s+(way|method)s?\s+(to|of)\s+(die|dying|kill|end)/i,
+      /\b(tie|make|knot)\b.*\b(noose|rope)\b/i,
+      /\bcut\s+(deep(er|ly)?|vertically|along\s+the\s+(vein|wrist))/i,
+      /\bjump(ing)?\s+(from|off)\b.*\b(\d+(st|nd|rd|th)?\s+floor|storey|stories|bridge|building|terrace)\b/i,
+      /\b(mix|combine|take)\b.*\b(pills?|tablets?|medicines?|alcohol)\b.*\b(to\s+)?(die|not\s+wake\s+up|end\s+it)\b/i,
+      /(ज़हर|जहर|zeher|zehar)\s+(kaise|कैसे|kitna|कितना)/i
+    ]
+  },
+  {
+    id: 'medication_dose',
+    category: 'medication_dosing',
+    action: 'strip',
+    patterns: [
+      /\b\d+(\.\d+)?\s?(mg|milligrams?|mcg|ml)\b/i,
+      /\b(take|try|have|pop)\s+(\w+\s+){0,2}(xanax|alprazolam|clonazepam|lorazepam|diazepam|zolpidem|sertraline|fluoxetine|escitalopram|melatonin|sleeping\s+pills?)\b/i,
+      /\b(increase|double|reduce|stop|skip)\s+(your\s+)?(dose|dosage|medication|medicines?|meds|tablets?)\b/i,
+      /\b\d+\s+(pills?|tablets?|गोलियां|goliyan)\b/i
+    ]
+  },
+  {
+    id: 'diagnosis',
+    category: 'diagnostic_claim',
+    action: 'strip',
+    patterns: [
+      /\byou\s+(clearly\s+|definitely\s+|probably\s+|likely\s+)?(have|are\s+suffering\s+from|suffer\s+from)\s+(clinical\s+|major\s+)?(depression|bipolar|bpd|borderline|schizophrenia|ocd|ptsd|adhd|an?\s+\w*\s*(anxiety|personality|mood|eating)\s+disorder)/i,
+      /\byou\s+are\s+(clinically\s+depressed|bipolar|schizophrenic|psychotic)\b/i,
+      /\b(i|we)\s+(can\s+)?diagnose\b/i,
+      /\bthis\s+is\s+(definitely|clearly|certainly)\s+(depression|bipolar|anxiety\s+disorder|ocd|ptsd)\b/i,
+      /\bas\s+a\s+(licensed|certified|qualified)\s+(therapist|psychiatrist|psychologist|doctor)\b/i
+    ]
+  },
+  {
+    id: 'dismissive',
+    category: 'dismissive_language',
+    action: 'strip',
+    patterns: [
+      /\bjust\s+(get\s+over\s+it|cheer\s+up|snap\s+out\s+of\s+it|stop\s+(thinking|worrying|overthinking)|be\s+happy|think\s+positive)/i,
+      /\b(it'?s|it\s+is|that'?s)\s+(not\s+a\s+big\s+deal|all\s+in\s+your\s+head)\b/i,
+      /\b(others|other\s+people|many\s+people)\s+have\s+it\s+(much\s+)?worse\b/i,
+      /\b(stop\s+being|you'?re\s+being|you\s+are\s+being)\s+(so\s+)?(dramatic|sensitive|weak|silly)\b/i,
+      /\byou'?re\s+overreacting\b/i,
+      /(drama\s+mat\s+karo|ड्रामा\s+मत\s+करो|itna\s+mat\s+socho|इतना\s+मत\s+सोचो)/i
+    ]
+  }
+];
+
+export const GUARD_TEMPLATES = {
+  crisis: {
+    hi: 'मुझे आपकी बहुत चिंता है, और मैं चाहता हूँ कि आप अभी सुरक्षित रहें। आप अकेले नहीं हैं - कृपया अभी किसी helpline या भरोसेमंद व्यक्ति से बात करें।',
+    en: 'I\'m really concerned about you and I want you to be safe right now. You don\'t have to go through this alone - please reach out to a helpline or someone you trust right now.'
+  },
+  supportive: {
+    hi: 'मैं यहाँ आपको सुनने के लिए हूँ। आप जो महसूस कर रहे हैं वह मायने रखता है। क्या आप मुझे थोड़ा और बताएंगे?',
+    en: 'I\'m here to listen. What you are feeling matters. Would you like to tell me a little more about it?'
+  },
+  medication: {
+    hi: 'दवाइयों या उनकी मात्रा के बारे में कृपया अपने डॉक्टर या psychiatrist से ही सलाह लें।',
+    en: 'For anything about medicines or doses, please check with your doctor or psychiatrist.'
+  },
+  diagnosis: {
+    hi: 'मैं कोई diagnosis नहीं कर सकता, लेकिन एक mental health professional आपकी सही जाँच कर सकते हैं।',
+    en: 'I can\'t diagnose anything, but a mental health professional can properly assess what you\'re going through.'
+  },
+  helplines: {
+    hi: 'अभी बात करने के लिए:',
+    en: 'You can talk to someone right now:'
+  }
+};
+
+// Shorter than this after stripping and the reply no longer says anything useful
+const MIN_REWRITE_LENGTH = 40;
+
+function localizeTemplate(template: { hi: string; en: string }, language: GuardContext['language'] = 'mixed'): string {
+  if (language === 'english') return template.en;
+  if (language === 'hindi') return template.hi;
+  return `${template.hi}\n${template.en}`;
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?।\n]+[.!?।]*\s*|\n+/g) || [text];
+}
+
+function isCrisisLevel(level: RiskLevel): boolean {
+  return level === 'high' || level === 'severe';
+}
+
+function mentionsHelpline(text: string, helplines: Array<{ number: string }>): boolean {
+  const digits = text.replace(/[\s-]/g, '');
+  return digits.includes('112') || helplines.some(helpline => digits.includes(helpline.number.replace(/[\s-]/g, '')));
+}
+
+function helplineBlock(context: GuardContext): string {
+  const helplines = context.helplines && context.helplines.length > 0
+    ? context.helplines
+    : CRISIS_HELPLINES.slice(0, 2);
+
+  return [
+    localizeTemplate(GUARD_TEMPLATES.helplines, context.language),
+    ...helplines.slice(0, 3).map(helpline => `📞 ${helpline.name}: ${helpline.number}`),
+    '🚨 Emergency / आपातकाल: 112'
+  ].join('\n');
+}
+
+export function findViolations(text: string, rules: GuardRule[] = RESPONSE_GUARD_RULES): GuardViolation[] {
+  const violations: GuardViolation[] = [];
+
+  for (const rule of rules) {
+    for (const pattern of rule.patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        violations.push({ ruleId: rule.id, category: rule.category, excerpt: match[0] });
+        break;
+      }
+    }
+  }
+
+  return violations;
+}
+
+export function guardResponse(text: string, context: GuardContext, rules: GuardRule[] = RESPONSE_GUARD_RULES): GuardResult {
+  const original = text || '';
+  const violations = findViolations(original, rules);
+  const blockingRules = new Set(rules.filter(rule => rule.action === 'block').map(rule => rule.id));
+  const fallback = localizeTemplate(isCrisisLevel(context.riskLevel) ? GUARD_TEMPLATES.crisis : GUARD_TEMPLATES.supportive, context.language);
+
+  let action: GuardResult['action'] = 'allow';
+  let guarded = original;
+
+  if (violations.some(violation => blockingRules.has(violation.ruleId))) {
+    action = 'block';
+    guarded = fallback;
+  } else if (violations.length > 0) {
+    action = 'rewrite';
+    const stripRules = rules.filter(rule => violations.some(violation => violation.ruleId === rule.id));
+    guarded = splitSentences(original)
+      .filter(sentence => findViolations(sentence, stripRules).length === 0)
+      .join('')
+      .trim();
+
+    const categories = new Set(violations.map(violation => violation.category));
+    const notes = [
+      categories.has('medication_dosing') ? localizeTemplate(GUARD_TEMPLATES.medication, context.language) : '',
+      categories.has('diagnostic_claim') ? localizeTemplate(GUARD_TEMPLATES.diagnosis, context.language) : ''
+    ].filter(Boolean);
+
+    if (guarded.length < MIN_REWRITE_LENGTH) {
+      guarded = fallback;
+    }
+    guarded = [guarded, ...notes].join('\n\n');
+  }
+
+  // At high risk every reply has to carry a way to reach a person, whatever the model wrote
+  if (isCrisisLevel(context.riskLevel) && !mentionsHelpline(guarded, context.helplines || CRISIS_HELPLINES)) {
+    violations.push({ ruleId: 'helpline_required', category: 'missing_helpline', excerpt: '' });
+    guarded = `${guarded}\n\n${helplineBlock(context)}`;
+    if (action === 'allow') action = 'rewrite';
+  }
+
+  return {
+    action,
+    text: guarded,
+    original,
+    violations,
+    reasons: violations.map(violation =>
+      violation.category === 'missing_helpline'
+        ? `missing_helpline: no helpline number at ${context.riskLevel} risk`
+        : `${violation.category}: matched "${violation.excerpt}" (${violation.ruleId})`
+    )
+  };
+}
+
+export interface StreamGuardUpdate {
+  // Text cleared for display so far; the sentence still being written is never included
+  released: string;
+  blocked: boolean;
+  violations: GuardViolation[];
+}
+
+export interface StreamGuard {
+  push(chunk: string): StreamGuardUpdate;
+  // The stream finished: the last sentence is checked and released too
+  end(): StreamGuardUpdate;
+}
+
+// Complete sentences in order, covering every character so nothing is lost between checks
+function splitCompleteSentences(text: string): string[] {
+  // A full stop inside "0.5 mg" or "Dr.Sharma" does not end the sentence
+  return (text.match(/(?:[^.!?।\n]|[.!?।](?![.!?।]*(?:\s|$)))*(?:[.!?।]+\s*|\n+|$)/g) || []).filter(Boolean);
+}
+
+// Guard for streamed replies: each sentence is held back until it is complete and clean, sentences a strip rule
+// would remove are never shown, and any blocking match stops the stream so the caller can cancel it.
+// The full reply still goes through guardResponse once the stream ends.
+export function createStreamGuard(rules: GuardRule[] = RESPONSE_GUARD_RULES): StreamGuard {
+  const blockingRules = rules.filter(rule => rule.action === 'block');
+  const violations: GuardViolation[] = [];
+  let text = '';
+  let reviewedLength = 0;
+  let released = '';
+  let blocked = false;
+
+  const review = (final: boolean): StreamGuardUpdate => {
+    if (!blocked) {
+      // Block rules can span sentences, so they see everything written so far
+      const blocking = findViolations(text, blockingRules);
+      if (blocking.length > 0) {
+        blocked = true;
+        violations.push(...blocking);
+      } else {
+        const pending = text.slice(reviewedLength);
+        // Up to the last sentence end followed by whitespace; the rest may still be growing
+        const boundary = final ? pending.length : (pending.match(/^[\s\S]*(?:[.!?।]+\s+|\n+)/)?.[0].length ?? 0);
+
+        splitCompleteSentences(pending.slice(0, boundary)).forEach(sentence => {
+          const found = findViolations(sentence, rules);
+          if (found.length > 0) {
+            violations.push(...found);
+          } else {
+            released += sentence;
+          }
+        });
+        reviewedLength += boundary;
+      }
+    }
+
+    return { released: released.trim(), blocked, violations: [...violations] };
+  };
+
+  return {
+    push: (chunk: string) => {
+      text += chunk;
+      return review(false);
+    },
+    end: () => review(true)
+  };
+}
@@ -0,0 +1,59 @@
+// Validated screening instruments - PHQ-9 (depression) and GAD-7 (anxiety)
+// Definitions live in src/questionnaires; this module turns questionnaire scores into clinical results
+
+import { QUESTIONNAIRES } from '../questionnaires';
+import {
+  scoreQuestionnaire,
+  getBand,
+  localize,
+  type QuestionnaireAnswers,
+  type QuestionnaireDefinition,
+  type QuestionnaireLanguage
+} from './questionnaire';
+
+export type ScreeningInstrumentId = 'phq9' | 'gad7';
+
+export type ScreeningSeverity = 'minimal' | 'mild' | 'moderate' | 'moderately-severe' | 'severe';
+
+export interface ScreeningResult {
+  instrumentId: ScreeningInstrumentId;
+  totalScore: number;
+  maxScore: number;
+  severity: ScreeningSeverity;
+  itemScores: Record<string, number>;
+  // PHQ-9 item 9 answered above "not at all"
+  suicidalIdeation: boolean;
+  followUpRecommended: boolean;
+}
+
+export const PHQ9: QuestionnaireDefinition = QUESTIONNAIRES.phq9;
+export const GAD7: QuestionnaireDefinition = QUESTIONNAIRES.gad7;
+
+export const PHQ9_SUICIDALITY_ITEM = 'phq9_9';
+
+export function scoreInstrument(instrument: QuestionnaireDefinition, answers: QuestionnaireAnswers): ScreeningResult {
+  const score = scoreQuestionnaire(instrument, answers);
+
+  return {
+    instrumentId: instrument.id as ScreeningInstrumentId,
+    totalScore: score.total,
+    maxScore: score.maxScore,
+    severity: score.band.id as ScreeningSeverity,
+    itemScores: score.itemScores,
+    suicidalIdeation: score.flags.includes('suicidal_ideation'),
+    followUpRecommended: score.followUpRecommended
+  };
+}
+
+// Display details for a stored total score, e.g. "PHQ-9 12/27 Moderate"
+export function describeScore(instrument: QuestionnaireDefinition, totalScore: number, language: QuestionnaireLanguage = 'english') {
+  const band = getBand(instrument, totalScore);
+
+  return {
+    name: localize(instrument, instrument.titleKey, language),
+    description: localize(instrument, instrument.descriptionKey, language),
+    maxScore: instrument.scoring.maxScore,
+    severity: band.id as ScreeningSeverity,
+    label: localize(instrument, band.labelKey, language)
+  };
+}
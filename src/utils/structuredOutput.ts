@@ -0,0 +1,301 @@
+// Structured output for LLM replies
+// Validates model JSON against a schema, repairs near-valid JSON first, and fails with a typed error instead of guessing
+
+// The subset of JSON Schema the response schemas use
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number>;
+  // Filled in by the repair pass when the model leaves the property out
+  default?: unknown;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface SchemaIssue {
+  // JSONPath-style location, e.g. $.suggestedActions[1]
+  path: string;
+  message: string;
+}
+
+export interface StructuredOutput<T> {
+  value: T;
+  // True when the raw text needed syntax fixes or type coercion to validate
+  repaired: boolean;
+}
+
+export class StructuredOutputError extends Error {
+  stage: 'parse' | 'validate';
+  issues: SchemaIssue[];
+  excerpt: string;
+
+  constructor(stage: 'parse' | 'validate', issues: SchemaIssue[], rawText: string) {
+    super(`Model output failed ${stage === 'parse' ? 'JSON parsing' : 'schema validation'} after repair: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.stage = stage;
+    this.issues = issues;
+    this.excerpt = (rawText || '').slice(0, 200);
+  }
+}
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+// Everything between the first { and its matching }, without markdown fences or surrounding prose
+function extractJSONObject(text: string): string {
+  const unfenced = (text || '').replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  return start === -1 ? unfenced.trim() : unfenced.slice(start);
+}
+
+// Fixes the mistakes models make most: trailing commas, comments, single quotes, unquoted keys,
+// raw newlines inside strings, smart quotes and output cut off before the closing brackets
+export function repairJSON(text: string): string {
+  const source = extractJSONObject(text).replace(/[\u201C\u201D]/g, '"').replace(/[\u2018\u2019]/g, '\'');
+  const closers: string[] = [];
+  let out = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      if (char === '\\') {
+        out += char + (source[i + 1] ?? '');
+        i++;
+      } else if (char === quote) {
+        out += '"';
+        quote = null;
+      } else if (char === '"') {
+        out += '\\"';
+      } else if (char === '\n') {
+        out += '\\n';
+      } else if (char === '\t') {
+        out += '\\t';
+      } else if (char !== '\r') {
+        out += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === '\'') {
+      quote = char;
+      out += '"';
+    } else if (char === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 1;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+      out += char;
+    } else if (char === '}' || char === ']') {
+      out = out.replace(/,\s*$/, '');
+      closers.pop();
+      out += char;
+      // Anything after the outermost object is prose
+      if (closers.length === 0) break;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = source.slice(i).match(/^[\w$]+/)![0];
+      i += word.length - 1;
+      const isKey = /^\s*:/.test(source.slice(i + 1));
+      out += isKey ? `"${word}"` : (PYTHON_LITERALS[word] || word);
+    } else {
+      out += char;
+    }
+  }
+
+  // Output cut off mid-way: close the open string, drop a dangling separator and close the brackets
+  if (quote) out += '"';
+  out = out.replace(/,\s*$/, '').replace(/:\s*$/, ': null');
+  return out + closers.reverse().join('');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Schema-guided fixes for values that are the right content in the wrong shape
+function coerce(value: unknown, schema: JSONSchema, changed: { value: boolean }): unknown {
+  if ((value === undefined || value === null) && schema.default !== undefined) {
+    changed.value = true;
+    return schema.default;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        changed.value = true;
+        return String(value);
+      }
+      if (typeof value === 'string' && schema.enum && !schema.enum.includes(value)) {
+        const wanted = value.trim().toLowerCase();
+        const match = schema.enum.find(option => String(option).toLowerCase() === wanted);
+        if (match !== undefined) {
+          changed.value = true;
+          return match;
+        }
+      }
+      return value;
+
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        changed.value = true;
+        return Number(value);
+      }
+      return value;
+
+    case 'array':
+      if (value !== undefined && value !== null && !Array.isArray(value)) {
+        changed.value = true;
+        value = [value];
+      }
+      return Array.isArray(value) && schema.items
+        ? value.map(item => coerce(item, schema.items!, changed))
+        : value;
+
+    case 'object': {
+      const properties = schema.properties || {};
+      // A bare string where an object with a single required string property (besides defaulted ones) is expected
+      const required = (schema.required || []).filter(key => properties[key]?.default === undefined);
+      if (typeof value === 'string' && required.length === 1 && properties[required[0]]?.type === 'string') {
+        changed.value = true;
+        value = { [required[0]]: value };
+      }
+      if (typeOf(value) !== 'object') return value;
+
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      Object.entries(properties).forEach(([key, propertySchema]) => {
+        const coerced = coerce(result[key], propertySchema, changed);
+        if (coerced !== undefined) result[key] = coerced;
+      });
+      return result;
+    }
+
+    default:
+      return value;
+  }
+}
+
+export function validateAgainstSchema(value: unknown, schema: JSONSchema, path: string = '$'): SchemaIssue[] {
+  const actual = typeOf(value);
+  const expected = schema.type === 'integer' ? 'number' : schema.type;
+  if (actual !== expected || (schema.type === 'integer' && !Number.isInteger(value))) {
+    return [{ path, message: `expected ${schema.type}, got ${actual}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, message: `must be >= ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined || record[key] === null) issues.push({ path: `${path}.${key}`, message: 'is required' });
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (record[key] !== undefined && record[key] !== null) {
+        issues.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    });
+  }
+
+  return issues;
+}
+
+// Strict parse first; only if that fails or does not validate is the repair pass tried
+export function parseStructuredOutput<T>(text: string, schema: JSONSchema): StructuredOutput<T> {
+  let parsed: unknown;
+  let repaired = false;
+  try {
+    parsed = JSON.parse((text || '').trim());
+  } catch (error) {
+    try {
+      parsed = JSON.parse(repairJSON(text));
+      repaired = true;
+    } catch (repairError) {
+      const message = repairError instanceof Error ? repairError.message : String(repairError);
+      throw new StructuredOutputError('parse', [{ path: '$', message }], text);
+    }
+  }
+
+  if (validateAgainstSchema(parsed, schema).length > 0) {
+    const changed = { value: false };
+    parsed = coerce(parsed, schema, changed);
+    repaired = repaired || changed.value;
+  }
+
+  const issues = validateAgainstSchema(parsed, schema);
+  if (issues.length > 0) {
+    throw new StructuredOutputError('validate', issues, text);
+  }
+
+  return { value: parsed as T, repaired };
+}
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '', '"': '"', '\\': '\\', '/': '/' };
+
+// Reads a string property out of JSON that is still streaming in, e.g. {"message": "Main yahan hoon, aap
+export function readPartialStringField(text: string, field: string): { value: string; complete: boolean } | null {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(text || '');
+  if (!start) return null;
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') return { value, complete: true };
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    // An escape split across chunks waits for the next one
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += STRING_ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+
+  return { value, complete: false };
+}
+
+// Appended to prompts whose reply is parsed with parseStructuredOutput
+export function schemaInstructions(schema: JSONSchema): string {
+  return `OUTPUT RULES:
+- Reply with one JSON object and nothing else: no markdown fences, no text before or after it.
+- The object must validate against this JSON Schema:
+${JSON.stringify(schema)}`;
+}
@@ -0,0 +1,176 @@
+// Therapeutic phase state machine
+// Entry/exit criteria for each phase of a conversation, with the guidance and interventions each phase allows
+
+import type { RiskLevel } from '../types';
+import { getInterventionStrategy, type InterventionType } from './interventionCatalogue';
+
+export type TherapeuticPhase = 'rapport_building' | 'assessment' | 'intervention' | 'consolidation' | 'closure';
+
+export interface PhaseDefinition {
+  label: string;
+  // Added to the reply prompt while the conversation is in this phase
+  guidance: string;
+  allowedInterventions: InterventionType[];
+}
+
+export const THERAPEUTIC_PHASES: Record<TherapeuticPhase, PhaseDefinition> = {
+  rapport_building: {
+    label: 'Rapport building',
+    guidance: 'Build trust first. Listen, reflect back what you hear and ask one gentle open question. Do not teach techniques or give advice yet.',
+    allowedInterventions: ['validation', 'psychoeducation']
+  },
+  assessment: {
+    label: 'Assessment',
+    guidance: 'Understand what is going on before offering tools. Ask what sets the feeling off, how long it has lasted and how it affects sleep, studies, work or family. If there is any risk, ask calmly and directly about safety.',
+    allowedInterventions: ['validation', 'psychoeducation', 'mindfulness', 'grounding']
+  },
+  intervention: {
+    label: 'Intervention',
+    guidance: 'Offer one concrete technique that fits the concern and walk through it step by step. Check whether it suits their situation before adding anything else.',
+    allowedInterventions: [
+      'validation',
+      'psychoeducation',
+      'mindfulness',
+      'grounding',
+      'cognitive_restructuring',
+      'problem_solving',
+      'behavioral_activation',
+      'self_compassion'
+    ]
+  },
+  consolidation: {
+    label: 'Consolidation',
+    guidance: 'Reinforce what helped. Ask what they noticed, help them decide when they will use it again and name the strength they showed.',
+    allowedInterventions: ['validation', 'psychoeducation', 'mindfulness', 'grounding', 'behavioral_activation', 'self_compassion']
+  },
+  closure: {
+    label: 'Closure',
+    guidance: 'Wrap up warmly. Sum up in one or two sentences what you talked about and what helped, suggest one small practice until next time and remind them they can come back anytime.',
+    allowedInterventions: ['validation', 'psychoeducation']
+  }
+};
+
+// What the state machine looks at after each user message
+export interface PhaseSignals {
+  // User turns in the conversation, including the current one
+  userTurns: number;
+  // User turns already spent in the current phase, not counting the current one
+  turnsInPhase: number;
+  // Concerns disclosed so far, e.g. "Exams and studies"
+  concerns: string[];
+  // Concerns first disclosed in the current message
+  newConcerns: string[];
+  riskLevel: RiskLevel;
+  // 0-1, see measureEngagement
+  engagement: number;
+  // The user says something helped or that they feel better
+  improving: boolean;
+  // The user is saying goodbye
+  closing: boolean;
+}
+
+export interface PhaseTransition {
+  from: TherapeuticPhase;
+  to: TherapeuticPhase;
+  reason: string;
+  at: Date;
+}
+
+const CLOSING = /\b(bye|goodbye|good ?night|gotta go|got to go|have to go|need to go|talk (to you )?later|ttyl|that'?s all for (now|today)|thanks for listening|chalta hoon|chalti hoon|baad mein baat|phir milte)\b|अलविदा|शुभ रात्रि|फिर मिलते|बाद में बात/i;
+const IMPROVING = /\b(helped|helps|that worked|feel(ing)? (a bit |a little |much |so )?(better|good|calmer|lighter|okay)|accha laga|achha laga|better laga|sukoon mila|halka laga)\b|बेहतर|अच्छा लगा|सुकून/i;
+const NOT_IMPROVING = /\b(didn'?t|doesn'?t|did not|does not|not|nothing|never|no longer)\s+(really\s+)?(help|helped|helps|work|worked|feel)/i;
+
+export function isClosingMessage(message: string): boolean {
+  return CLOSING.test(message || '');
+}
+
+export function reportsImprovement(message: string): boolean {
+  return IMPROVING.test(message || '') && !NOT_IMPROVING.test(message || '');
+}
+
+// Rough engagement from how much the user writes in their last few messages; one-word replies read as pulling away
+export function measureEngagement(userMessages: string[]): number {
+  const recent = userMessages.slice(-3);
+  if (recent.length === 0) return 0.5;
+  const averageWords = recent.reduce((sum, message) => sum + message.trim().split(/\s+/).filter(Boolean).length, 0) / recent.length;
+  return Math.min(1, averageWords / 15);
+}
+
+function isElevated(riskLevel: RiskLevel): boolean {
+  return riskLevel === 'high' || riskLevel === 'severe';
+}
+
+// Returns where the conversation should move before the next reply, or null to stay put
+export function nextPhase(current: TherapeuticPhase, signals: PhaseSignals): { to: TherapeuticPhase; reason: string } | null {
+  // Safety comes before skills work and before saying goodbye
+  if (isElevated(signals.riskLevel)) {
+    return current === 'assessment'
+      ? null
+      : { to: 'assessment', reason: `Risk level ${signals.riskLevel}; checking safety before anything else` };
+  }
+
+  if (signals.closing && current !== 'closure') {
+    return { to: 'closure', reason: 'User is wrapping up the conversation' };
+  }
+
+  switch (current) {
+    case 'rapport_building':
+      if (signals.concerns.length > 0) {
+        return { to: 'assessment', reason: `User disclosed a concern: ${signals.concerns.join(', ')}` };
+      }
+      if (signals.userTurns >= 3 && signals.engagement >= 0.3) {
+        return { to: 'assessment', reason: `Rapport established over ${signals.userTurns} turns` };
+      }
+      return null;
+
+    case 'assessment':
+      if (signals.turnsInPhase >= 1 && signals.concerns.length > 0) {
+        return { to: 'intervention', reason: `Concern explored: ${signals.concerns[signals.concerns.length - 1]}` };
+      }
+      if (signals.turnsInPhase >= 3) {
+        return { to: 'intervention', reason: 'Assessed for three turns without a specific concern' };
+      }
+      return null;
+
+    case 'intervention':
+      if (signals.improving && signals.turnsInPhase >= 1) {
+        return { to: 'consolidation', reason: 'User reports the technique helped' };
+      }
+      if (signals.engagement < 0.25 && signals.turnsInPhase >= 2) {
+        return { to: 'rapport_building', reason: 'Replies are getting short; rebuilding rapport' };
+      }
+      if (signals.turnsInPhase >= 6) {
+        return { to: 'consolidation', reason: 'Six turns of skills work; time to consolidate' };
+      }
+      return null;
+
+    case 'consolidation':
+    case 'closure':
+      if (signals.newConcerns.length > 0) {
+        return { to: 'assessment', reason: `New concern raised: ${signals.newConcerns.join(', ')}` };
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+// Homework for the end of a session, from the interventions actually used; safety first when there was a crisis
+export function closureHomework(interventionsUsed: string[], limit: number = 2): string[] {
+  const order: InterventionType[] = [
+    'crisis_intervention',
+    'behavioral_activation',
+    'problem_solving',
+    'cognitive_restructuring',
+    'self_compassion',
+    'grounding',
+    'mindfulness',
+    'psychoeducation',
+    'validation'
+  ];
+  const used = order.filter(intervention => interventionsUsed.includes(intervention));
+  return (used.length > 0 ? used : ['validation' as InterventionType])
+    .slice(0, limit)
+    .map(intervention => getInterventionStrategy(intervention)!.homework);
+}
@@ -0,0 +1,313 @@
+// CBT thought records
+// The guided steps, the cognitive distortion list, rule-based prefill from the conversation and distortion trends over time
+
+import { extractMemoryFacts } from './memoryExtraction';
+
+export type DistortionId =
+  | 'all_or_nothing'
+  | 'overgeneralization'
+  | 'mental_filter'
+  | 'discounting_positive'
+  | 'mind_reading'
+  | 'fortune_telling'
+  | 'catastrophizing'
+  | 'emotional_reasoning'
+  | 'should_statements'
+  | 'labeling'
+  | 'personalization';
+
+export interface CognitiveDistortion {
+  id: DistortionId;
+  label: string;
+  description: string;
+  example: string;
+  // Wording that suggests the distortion; distortions without one are only picked by the user
+  cue?: RegExp;
+}
+
+export const COGNITIVE_DISTORTIONS: CognitiveDistortion[] = [
+  {
+    id: 'all_or_nothing',
+    label: 'सब या कुछ नहीं / All-or-nothing thinking',
+    description: 'Seeing things in black and white, with nothing in between.',
+    example: 'If I do not top the class, I am a complete failure.',
+    cue: /\b(complete(ly)?|total(ly)?|utter(ly)?) (failure|waste|disaster)\b|\b(perfect|perfectly|ruined everything|pointless)\b|\bsab bekaar\b|सब बेकार/i
+  },
+  {
+    id: 'overgeneralization',
+    label: 'हर बार यही / Overgeneralisation',
+    description: 'Treating one bad event as a pattern that never ends.',
+    example: 'I failed this test, I always mess everything up.',
+    cue: /\b(always|never|every ?time|nothing ever|everything always|hamesha|kabhi nahi)\b|हमेशा|कभी नहीं/i
+  },
+  {
+    id: 'mental_filter',
+    label: 'सिर्फ़ बुरा देखना / Mental filter',
+    description: 'Dwelling on one negative detail and ignoring everything else.',
+    example: 'The presentation went well, but I stumbled once, so it was terrible.'
+  },
+  {
+    id: 'discounting_positive',
+    label: 'अच्छे को नकारना / Discounting the positive',
+    description: 'Insisting good things do not count.',
+    example: 'I only passed because the paper was easy.',
+    cue: /\b(just luck|only luck|doesn'?t count|does not count|anyone could (have )?do(ne)? (it|that)|fluke|only because (it|the paper) was easy)\b/i
+  },
+  {
+    id: 'mind_reading',
+    label: 'मन पढ़ना / Mind reading',
+    description: 'Assuming you know what others think of you.',
+    example: 'My relatives must think I am a disappointment.',
+    cue: /\b((they|everyone|people|he|she|relatives) (all )?(must |will |would )?(think|thinks|believe)s?|judg(e|es|ing) me|laugh(ing)? at me|log kya (sochenge|kahenge))\b|लोग क्या (सोचेंगे|कहेंगे)/i
+  },
+  {
+    id: 'fortune_telling',
+    label: 'भविष्यवाणी / Fortune telling',
+    description: 'Predicting things will turn out badly, as if it were certain.',
+    example: 'I will definitely fail tomorrow.',
+    cue: /\b(i('ll| will) (never|fail|mess|definitely fail|not (pass|get|make))|(going|gonna) to fail|won'?t (ever )?(get|pass|make it)|fail ho (jaunga|jaungi|jaaunga|jaaungi)|kuch nahi hoga)\b/i
+  },
+  {
+    id: 'catastrophizing',
+    label: 'बात का बतंगड़ / Catastrophising',
+    description: 'Expecting the worst possible outcome and that you will not cope.',
+    example: 'If I fail this exam my whole life is over.',
+    cue: /\b(disaster|end of the world|worst thing|life (is|will be) over|everything is over|can'?t (handle|bear|survive) (it|this)|sab khatam|barbaad)\b|बर्बाद|सब खत्म/i
+  },
+  {
+    id: 'emotional_reasoning',
+    label: 'भावना को सच मानना / Emotional reasoning',
+    description: 'Believing something is true because it feels true.',
+    example: 'I feel stupid, so I must be stupid.',
+    cue: /\bi feel (like )?(a |an |so |such a )?(failure|loser|burden|stupid|useless|worthless|fraud)\b/i
+  },
+  {
+    id: 'should_statements',
+    label: '"चाहिए" वाली सोच / Should statements',
+    description: 'Rigid rules about how you or others should be.',
+    example: 'I should be able to handle this without help.',
+    cue: /\b(i|you|they|he|she) (should|shouldn'?t|must|ought to)\b|\bchahiye tha\b|चाहिए था/i
+  },
+  {
+    id: 'labeling',
+    label: 'खुद पर ठप्पा / Labelling',
+    description: 'Calling yourself a name instead of describing what happened.',
+    example: 'I am such a loser.',
+    cue: /\bi('m| am) (so |such |just )?(a |an )?(failure|loser|idiot|stupid|useless|worthless|burden|disappointment|fraud)\b|\b(nalayak|bekaar) (hoon|hu)\b|नालायक/i
+  },
+  {
+    id: 'personalization',
+    label: 'सब अपने ऊपर लेना / Personalisation',
+    description: 'Blaming yourself for things that are not fully in your control.',
+    example: 'My parents fight because of me.',
+    cue: /\b(my fault|because of me|i ruined|blame myself|meri (hi )?galti)\b|मेरी (ही )?गलती/i
+  }
+];
+
+export function getDistortion(id: DistortionId): CognitiveDistortion | undefined {
+  return COGNITIVE_DISTORTIONS.find(distortion => distortion.id === id);
+}
+
+export function detectDistortions(text: string): DistortionId[] {
+  return COGNITIVE_DISTORTIONS
+    .filter(distortion => distortion.cue?.test(text || ''))
+    .map(distortion => distortion.id);
+}
+
+export interface ThoughtRecordDraft {
+  situation: string;
+  automaticThought: string;
+  emotion: string;
+  // 0-100, how strong the emotion was before working through the thought
+  emotionIntensity: number;
+  distortions: DistortionId[];
+  evidenceFor: string;
+  evidenceAgainst: string;
+  balancedThought: string;
+  // 0-100, the same emotion rated again after the balanced thought
+  rerating: number;
+}
+
+export type ThoughtRecordStep =
+  | 'situation'
+  | 'automaticThought'
+  | 'emotion'
+  | 'distortions'
+  | 'evidence'
+  | 'balancedThought'
+  | 'rerating';
+
+export const THOUGHT_RECORD_STEPS: Array<{ key: ThoughtRecordStep; title: string; prompt: string }> = [
+  {
+    key: 'situation',
+    title: 'स्थिति / Situation',
+    prompt: 'What happened? Where were you, who was there, and when was it?'
+  },
+  {
+    key: 'automaticThought',
+    title: 'मन में आया विचार / Automatic thought',
+    prompt: 'What went through your mind? Write the thought the way it sounded in your head.'
+  },
+  {
+    key: 'emotion',
+    title: 'भावना / Emotion',
+    prompt: 'What did you feel, and how strong was it from 0 to 100?'
+  },
+  {
+    key: 'distortions',
+    title: 'सोच के जाल / Thinking traps',
+    prompt: 'Do any of these patterns fit the thought? Pick all that apply.'
+  },
+  {
+    key: 'evidence',
+    title: 'सबूत / Evidence',
+    prompt: 'What supports the thought? What does not fit it?'
+  },
+  {
+    key: 'balancedThought',
+    title: 'संतुलित विचार / Balanced thought',
+    prompt: 'Looking at all the evidence, what is a fairer way to see it? What would you tell a close friend?'
+  },
+  {
+    key: 'rerating',
+    title: 'फिर से आँकें / Re-rate',
+    prompt: 'Reading the balanced thought, how strong is the feeling now, from 0 to 100?'
+  }
+];
+
+export const EMOTION_OPTIONS = [
+  'चिंतित / Anxious',
+  'तनाव / Stressed',
+  'उदास / Sad',
+  'गुस्सा / Angry',
+  'अपराधबोध / Guilty',
+  'शर्मिंदा / Ashamed',
+  'निराश / Hopeless',
+  'अकेला / Lonely'
+];
+
+const EMOTION_CUES: Array<{ emotion: string; cue: RegExp }> = [
+  { emotion: 'निराश / Hopeless', cue: /\b(hopeless|no point|pointless|give up)\b|निराश/i },
+  { emotion: 'शर्मिंदा / Ashamed', cue: /\b(ashamed|embarrass(ed|ing)|humiliat(ed|ing)|sharam)\b|शर्म/i },
+  { emotion: 'अपराधबोध / Guilty', cue: /\b(guilt(y)?|my fault|blame myself|meri galti)\b|मेरी गलती/i },
+  { emotion: 'गुस्सा / Angry', cue: /\b(angry|furious|irritated|frustrated|annoyed|gussa)\b|गुस्सा/i },
+  { emotion: 'चिंतित / Anxious', cue: /\b(anxious|worried|worry|nervous|scared|afraid|panic|chinta|dar)\b|चिंता|डर/i },
+  { emotion: 'तनाव / Stressed', cue: /\b(stress(ed)?|pressure|tension|overwhelm(ed)?|tanav)\b|तनाव|दबाव/i },
+  { emotion: 'अकेला / Lonely', cue: /\b(lonely|alone|akela|akeli)\b|अकेला|अकेली/i },
+  { emotion: 'उदास / Sad', cue: /\b(sad|empty|low|down|depressed|udaas|dukhi)\b|उदास|दुखी/i }
+];
+
+const CLAUSE_SPLIT = /[.!?।\n]+|,\s+|;\s+/;
+const LEADING_JOINER = /^(?:so|and|but|because|then|aur|lekin|toh|to)\s+/i;
+const FIRST_PERSON_BELIEF = /\b(i('m| am| will|'ll| can'?t| cannot| won'?t| never)|i feel like|mujhe lagta|lagta hai)\b|मुझे लगता/i;
+
+function clauses(text: string): string[] {
+  return (text || '')
+    .split(CLAUSE_SPLIT)
+    .map(clause => clause.trim().replace(LEADING_JOINER, ''))
+    .filter(clause => clause.length > 2);
+}
+
+export function emptyThoughtRecord(): ThoughtRecordDraft {
+  return {
+    situation: '',
+    automaticThought: '',
+    emotion: '',
+    emotionIntensity: 50,
+    distortions: [],
+    evidenceFor: '',
+    evidenceAgainst: '',
+    balancedThought: '',
+    rerating: 50
+  };
+}
+
+// Fills the first steps from what the user already said in chat, oldest message first; the user can change everything
+export function prefillThoughtRecord(userMessages: string[]): ThoughtRecordDraft {
+  const draft = emptyThoughtRecord();
+  const messages = userMessages.filter(message => message && message.trim());
+
+  // The newest clause with a thinking trap, else the newest first-person belief
+  const newestFirst = [...messages].reverse().flatMap(message => clauses(message).reverse());
+  draft.automaticThought = newestFirst.find(clause => detectDistortions(clause).length > 0)
+    || newestFirst.find(clause => FIRST_PERSON_BELIEF.test(clause))
+    || '';
+
+  const situationMessage = messages.find(message => extractMemoryFacts(message).some(fact => fact.kind === 'stressor'));
+  draft.situation = situationMessage
+    ? clauses(situationMessage).filter(clause => clause !== draft.automaticThought).join(', ')
+    : '';
+
+  const emotionSource = [...messages].reverse().join(' ');
+  draft.emotion = EMOTION_CUES.find(({ cue }) => cue.test(emotionSource))?.emotion || '';
+  draft.distortions = detectDistortions(draft.automaticThought || emotionSource);
+
+  return draft;
+}
+
+export function isStepComplete(step: ThoughtRecordStep, draft: ThoughtRecordDraft): boolean {
+  switch (step) {
+    case 'situation':
+      return draft.situation.trim().length > 0;
+    case 'automaticThought':
+      return draft.automaticThought.trim().length > 0;
+    case 'emotion':
+      return draft.emotion.trim().length > 0;
+    case 'distortions':
+      // Not every thought fits a trap, so this step can be skipped
+      return true;
+    case 'evidence':
+      return draft.evidenceFor.trim().length > 0 || draft.evidenceAgainst.trim().length > 0;
+    case 'balancedThought':
+      return draft.balancedThought.trim().length > 0;
+    case 'rerating':
+      return true;
+  }
+}
+
+export interface DistortionTrend {
+  id: DistortionId;
+  label: string;
+  // Records in the current window that picked the distortion, and in the window before it
+  recent: number;
+  previous: number;
+  trend: 'increasing' | 'decreasing' | 'stable';
+}
+
+// Compares the last `days` days with the same span before; distortions seen in neither window are left out
+export function distortionTrends(
+  records: Array<{ distortions: DistortionId[]; createdAt: Date }>,
+  now: Date = new Date(),
+  days: number = 28
+): DistortionTrend[] {
+  const span = days * 24 * 60 * 60 * 1000;
+  const recentStart = now.getTime() - span;
+  const previousStart = recentStart - span;
+
+  return COGNITIVE_DISTORTIONS
+    .map((distortion): DistortionTrend => {
+      const count = (from: number, to: number) => records.filter(record =>
+        record.distortions.includes(distortion.id) &&
+        record.createdAt.getTime() >= from &&
+        record.createdAt.getTime() < to
+      ).length;
+      const recent = count(recentStart, now.getTime() + 1);
+      const previous = count(previousStart, recentStart);
+
+      return {
+        id: distortion.id,
+        label: distortion.label,
+        recent,
+        previous,
+        trend: recent > previous ? 'increasing' : recent < previous ? 'decreasing' : 'stable'
+      };
+    })
+    .filter(trend => trend.recent > 0 || trend.previous > 0)
+    .sort((a, b) => b.recent - a.recent || b.previous - a.previous);
+}
+
+// Average drop in emotion intensity from the first rating to the re-rating, in points out of 100
+export function averageRelief(records: Array<Pick<ThoughtRecordDraft, 'emotionIntensity' | 'rerating'>>): number | undefined {
+  if (records.length === 0) return undefined;
+  return records.reduce((sum, record) => sum + (record.emotionIntensity - record.rerating), 0) / records.length;
+}